@@ -2,19 +2,74 @@ export type { CuloriColor, ModeDefinition } from 'culori/fn';
 export { Color } from './src/Color.ts';
 export {
   useLocale,
+  removeLocale,
   getLocale,
+  listLocales,
+  setDefaultLocale,
+  negotiateLocale,
   nameColor,
+  nameColorMulti,
   nearestColors,
   lookupColor,
+  searchColorNames,
+  suggestColorNames,
   listColorNames,
   translateColor,
+  analyzeTranslation,
 } from './src/naming.ts';
+export { nameColors } from './src/batch.ts';
+export { createColorNameRegistry, type ColorNameRegistry } from './src/registry.ts';
+export { ColorNameFormat } from './src/format.ts';
+export { describeColor } from './src/describe.ts';
+export { nameSaliency, colorNameSynonyms } from './src/saliency.ts';
+export { translationMatrix, translationMatrices, translationMatrixToCSV } from './src/matrix.ts';
+export { colorNameRegions } from './src/regions.ts';
+export { normalizeColorName } from './src/normalize.ts';
+export { KDTree, type NearestResult } from './src/kdtree.ts';
 export type {
   ExtendedModeDefinition,
   ColorDictionary,
+  UseLocaleOptions,
+  LocaleInput,
   ColorNameSet,
+  ColorNameStats,
+  ColorNameProbability,
+  BuiltinTier,
+  TierName,
+  TierSelection,
+  ColorNameForm,
+  GrammaticalFeatures,
   ColorName,
+  ColorNameMatch,
+  SearchOptions,
+  SuggestOptions,
   NamingOptions,
+  PackedColors,
+  BatchNamingOptions,
+  BatchNamingResult,
+  DistanceMetric,
+  LchWeights,
+  ColorNameFormatOptions,
+  ResolvedColorNameFormatOptions,
+  ColorNamePart,
+  ColorModifierGrammar,
+  ColorModifier,
+  DescribeOptions,
+  ColorDescription,
+  ColorSaliency,
+  SynonymOptions,
+  ColorNameSynonym,
+  ColorNameSynonyms,
   TranslationResult,
+  TranslationCandidate,
+  TranslateOptions,
+  TranslationMatrix,
+  TranslationMatrixOptions,
+  TranslationMatrixRow,
+  TranslationReport,
+  TranslationReportOptions,
+  ColorNameRegion,
+  ColorNameRegionOptions,
+  ColorNameNeighbour,
 } from './src/types.ts';
 export * from './src/utils/index.ts';
@@ -14,6 +14,10 @@
  * Clone the dataset repo to get the data:
  *   git clone https://github.com/uwdata/color-naming-in-different-languages
  *   bun scripts/generate-locales.ts ./color-naming-in-different-languages/model/cleaned_color_data_by_lang
+ *
+ * To refresh only the prebuilt k-d trees of the existing locale modules
+ * (including hand-maintained ones such as `en`), without the dataset:
+ *   bun scripts/generate-locales.ts --trees
  */
 import {
   useMode,
@@ -23,6 +27,9 @@ import {
   modeLrgb,
   converter,
 } from 'culori/fn';
+import { resolve } from 'node:path';
+import { KDTree } from '../src/kdtree.ts';
+import type { ColorDictionary } from '../src/types.ts';
 
 useMode(modeRgb);
 useMode(modeOklab);
@@ -46,6 +53,11 @@ const LARGE_DATASET_THRESHOLD = 100;
 const MIN_NAME_OCCURRENCES = 2;
 /** Minimum unique color names to generate a locale */
 const MIN_UNIQUE_NAMES = 3;
+/**
+ * Minimum names for a tier to ship a prebuilt k-d tree. Smaller trees build
+ * in microseconds, so shipping them would only add bundle size.
+ */
+const MIN_TREE_NAMES = 64;
 
 /** Skip non-ISO language identifiers and the empty-code file */
 const SKIP_LANGS = new Set([
@@ -96,11 +108,27 @@ interface ColorAggregate {
   g: number;
   b: number;
   hex: string;
+  /** OkLab second moments about the centroid: `[ll, la, lb, aa, ab, bb]` */
+  covariance: number[];
 }
 
 interface LocaleEntry {
   name: string;
   hex: string;
+  /** Survey responses for this name (dataset tiers only) */
+  count?: number;
+  /** OkLab covariance about the centroid (dataset tiers only) */
+  covariance?: number[];
+}
+
+interface ModifierGrammar {
+  light: string;
+  dark: string;
+  pale: string;
+  vivid: string;
+  greyish: string;
+  ish: string;
+  tints: Record<string, string>;
 }
 
 interface LocaleData {
@@ -133,6 +161,24 @@ function computeOklab(hex: string): [number, number, number] {
   ];
 }
 
+/**
+ * Spread of a name's samples in OkLab, as second moments about the stored
+ * centroid (rather than the sample mean) so the runtime model is centred on
+ * the same point it names.
+ */
+function computeCovariance(samples: RawEntry[], centroid: [number, number, number]): number[] {
+  const sums: [number, number, number, number, number, number] = [0, 0, 0, 0, 0, 0];
+  for (const s of samples) {
+    const c = toOklab(rgbToHex(s.r, s.g, s.b))!;
+    const dl = (c.l as number) - centroid[0];
+    const da = (c.a as number) - centroid[1];
+    const db = (c.b as number) - centroid[2];
+    sums[0] += dl * dl; sums[1] += dl * da; sums[2] += dl * db;
+    sums[3] += da * da; sums[4] += da * db; sums[5] += db * db;
+  }
+  return sums.map(v => +(v / samples.length).toExponential(4));
+}
+
 function processEntries(entries: RawEntry[]): ColorAggregate[] {
   const groups = new Map<string, {
     displayNames: Map<string, number>;
@@ -140,19 +186,21 @@ function processEntries(entries: RawEntry[]): ColorAggregate[] {
     totalR: number;
     totalG: number;
     totalB: number;
+    samples: RawEntry[];
   }>();
 
   for (const e of entries) {
     if (!e.name.trim()) continue;
     let g = groups.get(e.name);
     if (!g) {
-      g = { displayNames: new Map(), count: 0, totalR: 0, totalG: 0, totalB: 0 };
+      g = { displayNames: new Map(), count: 0, totalR: 0, totalG: 0, totalB: 0, samples: [] };
       groups.set(e.name, g);
     }
     g.count++;
     g.totalR += e.r;
     g.totalG += e.g;
     g.totalB += e.b;
+    g.samples.push(e);
     g.displayNames.set(e.displayName, (g.displayNames.get(e.displayName) || 0) + 1);
   }
 
@@ -172,11 +220,13 @@ function processEntries(entries: RawEntry[]): ColorAggregate[] {
     const gVal = Math.round(g.totalG / g.count);
     const b = Math.round(g.totalB / g.count);
 
+    const hex = rgbToHex(r, gVal, b);
     results.push({
       displayName: bestDisplay,
       count: g.count,
       r, g: gVal, b,
-      hex: rgbToHex(r, gVal, b),
+      hex,
+      covariance: computeCovariance(g.samples, computeOklab(hex)),
     });
   }
 
@@ -240,6 +290,34 @@ function generateFile(data: LocaleData): string {
       lines.push(`      ${l}, ${a}, ${b},`);
     }
     lines.push(`    ]),`);
+    if (entries.every(e => e.count !== undefined && e.covariance !== undefined)) {
+      lines.push(`    stats: {`);
+      lines.push(`      counts: new Uint32Array([${entries.map(e => e.count).join(', ')}]),`);
+      lines.push(`      covariances: new Float32Array([`);
+      for (const e of entries) {
+        lines.push(`        ${e.covariance!.join(', ')},`);
+      }
+      lines.push(`      ]),`);
+      lines.push(`    },`);
+    }
+    if (entries.length >= MIN_TREE_NAMES) {
+      lines.push(...generateTree(new Float32Array(entries.flatMap(e => computeOklab(e.hex)))));
+    }
+    if (tier === 'basic') lines.push(...generateForms(exportName, entries.map(e => e.name)));
+    lines.push(`  },`);
+  }
+
+  const grammar = MODIFIER_GRAMMARS[exportName];
+  if (grammar) {
+    lines.push(`  modifiers: {`);
+    for (const key of ['light', 'dark', 'pale', 'vivid', 'greyish', 'ish'] as const) {
+      lines.push(`    ${key}: '${grammar[key]}',`);
+    }
+    lines.push(`    tints: {`);
+    for (const [name, tint] of Object.entries(grammar.tints)) {
+      lines.push(`      '${name}': '${tint}',`);
+    }
+    lines.push(`    },`);
     lines.push(`  },`);
   }
 
@@ -248,6 +326,369 @@ function generateFile(data: LocaleData): string {
   return lines.join('\n');
 }
 
+/**
+ * Emit a prebuilt k-d tree over a tier's centroids, so the library can load
+ * it instead of building the tree at runtime. Centroids are rounded to
+ * float32 first, exactly as the emitted `colors` array stores them.
+ */
+function generateTree(colors: Float32Array): string[] {
+  const bytes = new Uint8Array(new KDTree(colors, colors.length / 3).serialize());
+  const lines = [`    tree: new Uint8Array([`];
+  for (let i = 0; i < bytes.length; i += 32) {
+    lines.push(`      ${Array.from(bytes.subarray(i, i + 32)).join(', ')},`);
+  }
+  lines.push(`    ]),`);
+  return lines;
+}
+
+/**
+ * Insert or replace the `tree` of every built-in tier of at least
+ * {@link MIN_TREE_NAMES} names in an existing locale module's source, right
+ * after the tier's `colors` as `generateFile` emits it.
+ */
+function replaceTrees(source: string, dict: ColorDictionary): string {
+  for (const tier of ['basic', 'extended', 'traditional'] as const) {
+    const set = dict[tier];
+    if (!set) continue;
+    const start = source.indexOf(`\n  ${tier}: {\n`);
+    const end = source.indexOf('\n  },\n', start);
+    const body = source.slice(start, end).replace(/\n    tree: new Uint8Array\(\[[\s\S]*?\n    \]\),/, '');
+    const colorsEnd = body.indexOf('\n    ]),', body.indexOf('    colors: new Float32Array([')) + '\n    ]),'.length;
+    const tree = set.names.length >= MIN_TREE_NAMES ? '\n' + generateTree(set.colors).join('\n') : '';
+    source = source.slice(0, start) + body.slice(0, colorsEnd) + tree + body.slice(colorsEnd) + source.slice(end);
+  }
+  return source;
+}
+
+/** Refresh the prebuilt trees of every locale module in place. */
+async function refreshTrees() {
+  const glob = new Bun.Glob('*.ts');
+  for await (const name of glob.scan({ cwd: OUT_DIR })) {
+    if (name === 'index.ts') continue;
+    const path = resolve(OUT_DIR, name);
+    const module: Record<string, ColorDictionary> = await import(path);
+    const dict = Object.values(module)[0]!;
+    await Bun.write(path, replaceTrees(await Bun.file(path).text(), dict));
+    console.log(`  ${name.padEnd(24)} trees refreshed`);
+  }
+}
+
+// === Modifier Grammars (hand-curated, used by describeColor) ===
+
+/** Keyed by output filename; tint keys must be names present in that locale. */
+const MODIFIER_GRAMMARS: Record<string, ModifierGrammar> = {
+  de: {
+    light: 'hell{name}',
+    dark: 'dunkel{name}',
+    pale: 'blass{name}',
+    vivid: 'leuchtend {name}',
+    greyish: 'grau{name}',
+    ish: '{tint}{name}',
+    tints: {
+      'rot': 'rötlich',
+      'blau': 'bläulich',
+      'grün': 'grünlich',
+      'gelb': 'gelblich',
+      'braun': 'bräunlich',
+    },
+  },
+  es: {
+    light: '{name} claro',
+    dark: '{name} oscuro',
+    pale: '{name} pálido',
+    vivid: '{name} vivo',
+    greyish: '{name} grisáceo',
+    ish: '{name} {tint}',
+    tints: {
+      'rojo': 'rojizo',
+      'verde': 'verdoso',
+      'azul': 'azulado',
+      'amarillo': 'amarillento',
+      'morado': 'amoratado',
+      'rosa': 'rosado',
+      'naranja': 'anaranjado',
+    },
+  },
+  fr: {
+    light: '{name} clair',
+    dark: '{name} foncé',
+    pale: '{name} pâle',
+    vivid: '{name} vif',
+    greyish: '{name} grisâtre',
+    ish: '{name} {tint}',
+    tints: {
+      'rouge': 'rougeâtre',
+      'vert': 'verdâtre',
+      'bleu': 'bleuâtre',
+      'jaune': 'jaunâtre',
+      'violet': 'violacé',
+      'rose': 'rosâtre',
+      'orange': 'orangé',
+    },
+  },
+  it: {
+    light: '{name} chiaro',
+    dark: '{name} scuro',
+    pale: '{name} pallido',
+    vivid: '{name} acceso',
+    greyish: '{name} grigiastro',
+    ish: '{name} {tint}',
+    tints: {
+      'rosso': 'rossastro',
+      'verde': 'verdastro',
+      'blu': 'bluastro',
+      'giallo': 'giallastro',
+      'viola': 'violaceo',
+      'arancione': 'aranciato',
+      'rosa': 'rosato',
+    },
+  },
+  ja: {
+    light: '明るい{name}',
+    dark: '暗い{name}',
+    pale: '淡い{name}',
+    vivid: '鮮やかな{name}',
+    greyish: '灰みの{name}',
+    ish: '{tint}{name}',
+    tints: {
+      '赤': '赤みがかった',
+      '青': '青みがかった',
+      '緑': '緑がかった',
+      '黄色': '黄みがかった',
+      '紫': '紫がかった',
+      'ピンク': 'ピンクがかった',
+    },
+  },
+  nl: {
+    light: 'licht{name}',
+    dark: 'donker{name}',
+    pale: 'bleek{name}',
+    vivid: 'fel{name}',
+    greyish: 'grijs{name}',
+    ish: '{tint}{name}',
+    tints: {
+      'rood': 'rood',
+      'blauw': 'blauw',
+      'groen': 'groen',
+      'geel': 'geel',
+      'bruin': 'bruin',
+      'oranje': 'oranje',
+      'paars': 'paars',
+      'roze': 'roze',
+    },
+  },
+  pt: {
+    light: '{name} claro',
+    dark: '{name} escuro',
+    pale: '{name} pálido',
+    vivid: '{name} vivo',
+    greyish: '{name} acinzentado',
+    ish: '{name} {tint}',
+    tints: {
+      'vermelho': 'avermelhado',
+      'verde': 'esverdeado',
+      'azul': 'azulado',
+      'amarelo': 'amarelado',
+      'roxo': 'arroxeado',
+      'rosa': 'rosado',
+      'laranja': 'alaranjado',
+    },
+  },
+  ru: {
+    light: 'светло-{name}',
+    dark: 'темно-{name}',
+    pale: 'бледно-{name}',
+    vivid: 'ярко-{name}',
+    greyish: 'серо-{name}',
+    ish: '{tint}-{name}',
+    tints: {
+      'красный': 'красновато',
+      'зеленый': 'зеленовато',
+      'синий': 'синевато',
+      'голубой': 'голубовато',
+      'желтый': 'желтовато',
+      'коричневый': 'коричневато',
+      'розовый': 'розовато',
+    },
+  },
+  zh: {
+    light: '浅{name}',
+    dark: '深{name}',
+    pale: '淡{name}',
+    vivid: '鲜{name}',
+    greyish: '灰{name}',
+    ish: '{tint}{name}',
+    tints: {
+      '红色': '红',
+      '绿色': '绿',
+      '蓝色': '蓝',
+      '黄色': '黄',
+      '紫色': '紫',
+      '棕色': '棕',
+      '粉色': '粉',
+    },
+  },
+};
+
+// === Inflection Tables (hand-curated, used by the `grammar` naming option) ===
+
+interface InflectedForm {
+  form: string;
+  gender?: 'masculine' | 'feminine' | 'neuter';
+  number?: 'singular' | 'plural';
+  case?: string;
+}
+
+/** Adjective endings: singular forms per gender and plural forms, each listed per case. */
+interface DeclensionPattern {
+  lemma: string;
+  cases: readonly string[];
+  masculine: string[];
+  feminine: string[];
+  neuter: string[];
+  plural: string[];
+}
+
+const RU_CASES = ['nominative', 'genitive', 'dative', 'accusative', 'instrumental', 'prepositional'] as const;
+const PL_CASES = ['nominative', 'genitive', 'dative', 'accusative', 'instrumental', 'locative'] as const;
+const DE_CASES = ['nominative', 'genitive', 'dative', 'accusative'] as const;
+
+/** Russian adjectives, inanimate accusative. */
+const RU_PATTERNS: DeclensionPattern[] = [
+  {
+    lemma: 'ый', cases: RU_CASES,
+    masculine: ['ый', 'ого', 'ому', 'ый', 'ым', 'ом'],
+    feminine: ['ая', 'ой', 'ой', 'ую', 'ой', 'ой'],
+    neuter: ['ое', 'ого', 'ому', 'ое', 'ым', 'ом'],
+    plural: ['ые', 'ых', 'ым', 'ые', 'ыми', 'ых'],
+  },
+  {
+    lemma: 'ой', cases: RU_CASES,
+    masculine: ['ой', 'ого', 'ому', 'ой', 'ым', 'ом'],
+    feminine: ['ая', 'ой', 'ой', 'ую', 'ой', 'ой'],
+    neuter: ['ое', 'ого', 'ому', 'ое', 'ым', 'ом'],
+    plural: ['ые', 'ых', 'ым', 'ые', 'ыми', 'ых'],
+  },
+  {
+    lemma: 'ий', cases: RU_CASES,
+    masculine: ['ий', 'его', 'ему', 'ий', 'им', 'ем'],
+    feminine: ['яя', 'ей', 'ей', 'юю', 'ей', 'ей'],
+    neuter: ['ее', 'его', 'ему', 'ее', 'им', 'ем'],
+    plural: ['ие', 'их', 'им', 'ие', 'ими', 'их'],
+  },
+];
+
+/** Polish adjectives, inanimate accusative and non-masculine-personal plural. */
+const PL_PATTERNS: DeclensionPattern[] = [
+  {
+    lemma: 'ki', cases: PL_CASES,
+    masculine: ['ki', 'kiego', 'kiemu', 'ki', 'kim', 'kim'],
+    feminine: ['ka', 'kiej', 'kiej', 'ką', 'ką', 'kiej'],
+    neuter: ['kie', 'kiego', 'kiemu', 'kie', 'kim', 'kim'],
+    plural: ['kie', 'kich', 'kim', 'kie', 'kimi', 'kich'],
+  },
+  {
+    lemma: 'y', cases: PL_CASES,
+    masculine: ['y', 'ego', 'emu', 'y', 'ym', 'ym'],
+    feminine: ['a', 'ej', 'ej', 'ą', 'ą', 'ej'],
+    neuter: ['e', 'ego', 'emu', 'e', 'ym', 'ym'],
+    plural: ['e', 'ych', 'ym', 'e', 'ymi', 'ych'],
+  },
+];
+
+/** German attributive adjectives, strong declension (no article). */
+const DE_PATTERNS: DeclensionPattern[] = [
+  {
+    lemma: '', cases: DE_CASES,
+    masculine: ['er', 'en', 'em', 'en'],
+    feminine: ['e', 'er', 'er', 'e'],
+    neuter: ['es', 'en', 'em', 'es'],
+    plural: ['e', 'er', 'en', 'e'],
+  },
+];
+
+/**
+ * Decline an adjective, or a phrase of adjectives word by word, picking for
+ * each word the first pattern whose lemma ending it matches.
+ */
+function decline(name: string, patterns: DeclensionPattern[]): InflectedForm[] | undefined {
+  const words = name.split(' ').map(word => {
+    const pattern = patterns.find(p => word.endsWith(p.lemma));
+    return pattern && { stem: word.slice(0, word.length - pattern.lemma.length), pattern };
+  });
+  if (words.some(w => !w)) return undefined;
+
+  const parsed = words as { stem: string; pattern: DeclensionPattern }[];
+  const cases = parsed[0]!.pattern.cases;
+  const join = (slot: 'masculine' | 'feminine' | 'neuter' | 'plural', i: number) =>
+    parsed.map(({ stem, pattern }) => stem + pattern[slot][i]).join(' ');
+
+  const forms: InflectedForm[] = [];
+  for (const gender of ['masculine', 'feminine', 'neuter'] as const) {
+    cases.forEach((c, i) => forms.push({ form: join(gender, i), gender, number: 'singular', case: c }));
+  }
+  cases.forEach((c, i) => forms.push({ form: join('plural', i), number: 'plural', case: c }));
+  return forms;
+}
+
+/** Gender and number forms for Romance adjectives: `[feminine, masculine plural, feminine plural]`. */
+function agree(lemma: string, [fem, mascPl, femPl]: [string, string, string]): InflectedForm[] {
+  return [
+    { form: lemma, gender: 'masculine', number: 'singular' },
+    { form: fem, gender: 'feminine', number: 'singular' },
+    { form: mascPl, gender: 'masculine', number: 'plural' },
+    { form: femPl, gender: 'feminine', number: 'plural' },
+  ];
+}
+
+/** Keyed by output filename; returns the forms for a basic-tier name, or `undefined` if it does not inflect. */
+const INFLECTIONS: Record<string, (name: string) => InflectedForm[] | undefined> = {
+  ru: name => decline(name, RU_PATTERNS),
+  pl: name => decline(name, PL_PATTERNS),
+  de: name => ['blau', 'grün', 'rot', 'gelb', 'hellblau', 'hellgrün', 'dunkelblau'].includes(name)
+    ? decline(name, DE_PATTERNS)
+    : undefined,
+  fr: name => ({
+    bleu: agree('bleu', ['bleue', 'bleus', 'bleues']),
+    vert: agree('vert', ['verte', 'verts', 'vertes']),
+    violet: agree('violet', ['violette', 'violets', 'violettes']),
+    rose: [{ form: 'roses', number: 'plural' }],
+    rouge: [{ form: 'rouges', number: 'plural' }],
+    jaune: [{ form: 'jaunes', number: 'plural' }],
+    mauve: [{ form: 'mauves', number: 'plural' }],
+  } as Record<string, InflectedForm[]>)[name],
+  es: name => ({
+    rojo: agree('rojo', ['roja', 'rojos', 'rojas']),
+    morado: agree('morado', ['morada', 'morados', 'moradas']),
+    amarillo: agree('amarillo', ['amarilla', 'amarillos', 'amarillas']),
+    verde: [{ form: 'verdes', number: 'plural' }],
+    azul: [{ form: 'azules', number: 'plural' }],
+    celeste: [{ form: 'celestes', number: 'plural' }],
+  } as Record<string, InflectedForm[]>)[name],
+};
+
+/** Emit the `forms` table for a tier, if any of its names inflect. */
+function generateForms(exportName: string, names: string[]): string[] {
+  const inflect = INFLECTIONS[exportName];
+  if (!inflect) return [];
+
+  const lines: string[] = [];
+  for (const name of names) {
+    const forms = inflect(name);
+    if (!forms) continue;
+    lines.push(`      '${name}': [`);
+    for (const f of forms) {
+      const features = (['gender', 'number', 'case'] as const)
+        .filter(k => f[k] !== undefined)
+        .map(k => `${k}: '${f[k]}'`);
+      lines.push(`        { form: '${f.form}', ${features.join(', ')} },`);
+    }
+    lines.push(`      ],`);
+  }
+  if (lines.length === 0) return [];
+  return [`    forms: {`, ...lines, `    },`];
+}
+
 // === Traditional Variants (hand-curated cultural data) ===
 
 const traditionalVariants: LocaleData[] = [
@@ -515,6 +956,8 @@ const LANG_NAMES: Record<string, string> = {
 // === Main ===
 
 async function main() {
+  if (process.argv[2] === '--trees') return refreshTrees();
+
   const dir = DATASET_DIR;
 
   // Verify dataset directory exists
@@ -583,8 +1026,10 @@ async function main() {
       continue;
     }
 
-    const basic = colors.slice(0, BASIC_COUNT).map(c => ({ name: c.displayName, hex: c.hex }));
-    const extended = colors.slice(BASIC_COUNT, BASIC_COUNT + EXTENDED_COUNT).map(c => ({ name: c.displayName, hex: c.hex }));
+    const toEntry = (c: ColorAggregate): LocaleEntry =>
+      ({ name: c.displayName, hex: c.hex, count: c.count, covariance: c.covariance });
+    const basic = colors.slice(0, BASIC_COUNT).map(toEntry);
+    const extended = colors.slice(BASIC_COUNT, BASIC_COUNT + EXTENDED_COUNT).map(toEntry);
 
     const langName = LANG_NAMES[lang] || lang;
     const data: LocaleData = {
@@ -8,7 +8,8 @@ import {
   interpolate,
   type CuloriColor,
 } from 'culori/fn';
-import type { ExtendedModeDefinition } from './types.ts';
+import { deltaEOk, resolveMetric } from './metrics.ts';
+import type { DistanceMetric, ExtendedModeDefinition } from './types.ts';
 
 /**
  * Immutable color value object wrapping a culori color.
@@ -659,26 +660,28 @@ export class Color {
   }
 
   /**
-   * Compute the perceptual distance (Euclidean in OkLab) to another color.
+   * Compute the perceptual distance to another color.
    * Smaller values indicate colors that look more alike.
    *
    * @param other - The color to compare against.
-   * @returns The Euclidean distance in OkLab space.
+   * @param metric - The color-difference metric. Defaults to `'oklab'` (Euclidean in OkLab).
+   *   CIE metrics treat this color as the reference and `other` as the sample.
+   * @returns The distance under the chosen metric.
    *
    * @example
    * ```ts
    * const a = Color.parse('red');
    * const b = Color.parse('orange');
-   * a.deltaE(b); // ~0.16
+   * a.deltaE(b);              // ~0.24
+   * a.deltaE(b, 'ciede2000'); // ~33.8
    * ```
    */
-  deltaE(other: Color): number {
+  deltaE(other: Color, metric?: DistanceMetric): number {
     const a = this.toOklab()!;
     const b = other.toOklab()!;
-    const dl = (a.get('l') ?? 0) - (b.get('l') ?? 0);
-    const da = (a.get('a') ?? 0) - (b.get('a') ?? 0);
-    const db = (a.get('b') ?? 0) - (b.get('b') ?? 0);
-    return Math.sqrt(dl * dl + da * da + db * db);
+    const std: [number, number, number] = [a.get('l') ?? 0, a.get('a') ?? 0, a.get('b') ?? 0];
+    const smp: [number, number, number] = [b.get('l') ?? 0, b.get('a') ?? 0, b.get('b') ?? 0];
+    return (resolveMetric(metric) ?? deltaEOk)(std, smp);
   }
 
   /**
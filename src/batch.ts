@@ -0,0 +1,157 @@
+/**
+ * Batch color naming over packed typed arrays.
+ *
+ * Unlike {@link nameColor}, no `Color` or `ColorName` objects are created per
+ * query: input values are converted to OkLab in place with culori's matrices,
+ * and results are written into preallocated typed arrays. Byte input is also
+ * memoized per distinct RGB value, since images and palettes repeat colors.
+ */
+import { resolveMetric } from './metrics.ts';
+import { getLevels, getNameSet, getTree, nearestEntry, resolveDict, resolveTreeCache, scanNearest } from './naming.ts';
+import type { BatchNamingOptions, BatchNamingResult, LocaleInput, PackedColors } from './types.ts';
+
+/** sRGB byte → linear-light channel value, precomputed for all 256 bytes. */
+const LINEAR_FROM_BYTE = Float64Array.from({ length: 256 }, (_, i) => toLinear(i / 255));
+
+/**
+ * The sRGB transfer function, inverted (matches culori's `lrgb` conversion).
+ *
+ * @param c - A gamma-encoded channel value.
+ * @returns The linear-light channel value.
+ */
+function toLinear(c: number): number {
+  const abs = Math.abs(c);
+  if (abs <= 0.04045) return c / 12.92;
+  return (Math.sign(c) || 1) * Math.pow((abs + 0.055) / 1.055, 2.4);
+}
+
+/**
+ * Convert linear sRGB to OkLab, writing into `out`.
+ *
+ * @param r - Linear red.
+ * @param g - Linear green.
+ * @param b - Linear blue.
+ * @param out - The `[l, a, b]` tuple to write.
+ */
+function linearToOklab(r: number, g: number, b: number, out: [number, number, number]): void {
+  const L = Math.cbrt(0.412221469470763 * r + 0.5363325372617348 * g + 0.0514459932675022 * b);
+  const M = Math.cbrt(0.2119034958178252 * r + 0.6806995506452344 * g + 0.1073969535369406 * b);
+  const S = Math.cbrt(0.0883024591900564 * r + 0.2817188391361215 * g + 0.6299787016738222 * b);
+  out[0] = 0.210454268309314 * L + 0.7936177747023054 * M - 0.0040720430116193 * S;
+  out[1] = 1.9779985324311684 * L - 2.4285922420485799 * M + 0.450593709617411 * S;
+  out[2] = 0.0259040424655478 * L + 0.7827717124575296 * M - 0.8086757549230774 * S;
+}
+
+/**
+ * Name many colors at once.
+ *
+ * Returns one name index and distance per input color, in input order. The
+ * indices point into a names table covering the searched tiers, so naming a
+ * 1-megapixel image allocates two typed arrays rather than millions of objects.
+ *
+ * @param colors - Packed colors: sRGB bytes (`Uint8Array`, `Uint8ClampedArray`,
+ *   or `ImageData`-shaped), or a `Float32Array` of OkLab (default) or sRGB 0–1 values.
+ * @param locale - A locale tag, `Intl.Locale`, list of either, or a ColorDictionary object.
+ * @param options - Naming options (tiers, threshold, metric, cascade) plus the input layout (space, stride).
+ * @returns Parallel arrays of name indices and distances, or `null` if the locale is not found.
+ *
+ * @example
+ * ```ts
+ * const ctx = canvas.getContext('2d')!;
+ * const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+ * const result = nameColors(image, 'en', { level: 'basic' });
+ * result?.names[result.indices[0]!]; // name of the top-left pixel
+ *
+ * nameColors(new Uint8Array([255, 0, 0, 0, 0, 255]), 'en', { level: 'basic' });
+ * // → { names: [...], indices: Int32Array [red, blue], distances: Float32Array [...] }
+ * ```
+ */
+export function nameColors(
+  colors: PackedColors,
+  locale: LocaleInput,
+  options?: BatchNamingOptions,
+): BatchNamingResult | null {
+  const dict = resolveDict(locale);
+  if (!dict) return null;
+
+  const isImage = !ArrayBuffer.isView(colors);
+  const data = isImage ? colors.data : colors;
+  const stride = options?.stride ?? (isImage ? 4 : 3);
+  const isFloat = data instanceof Float32Array;
+  const isOklab = isFloat && (options?.space ?? 'oklab') === 'oklab';
+  const count = Math.floor(data.length / stride);
+
+  // Flatten the searched tiers into a single names table
+  const names: string[] = [];
+  const levels: BatchNamingResult['levels'] = [];
+  const searched: { offset: number; level: (typeof levels)[number] }[] = [];
+  for (const level of getLevels(dict, options)) {
+    const nameSet = getNameSet(dict, level)!;
+    searched.push({ offset: names.length, level });
+    for (const name of nameSet.names) {
+      names.push(name);
+      levels.push(level);
+    }
+  }
+
+  const indices = new Int32Array(count).fill(-1);
+  const distances = new Float32Array(count).fill(Infinity);
+  if (searched.length === 0) return { names, levels, indices, distances };
+
+  // Inline dictionaries get a cache for this call so trees are built once, not per color
+  const cache = resolveTreeCache(locale) ?? new WeakMap();
+  const weights = options?.lchWeights;
+  const metric = weights ? null : resolveMetric(options?.metric);
+  const grid = !!options?.grid && !weights;
+  const threshold = options?.threshold;
+  const query: [number, number, number] = [0, 0, 0];
+  const memo = isFloat ? undefined : new Map<number, number>();
+
+  for (let i = 0; i < count; i++) {
+    const offset = i * stride;
+
+    if (memo) {
+      const key = (data[offset]! << 16) | (data[offset + 1]! << 8) | data[offset + 2]!;
+      const hit = memo.get(key);
+      if (hit !== undefined) {
+        indices[i] = indices[hit]!;
+        distances[i] = distances[hit]!;
+        continue;
+      }
+      memo.set(key, i);
+      linearToOklab(
+        LINEAR_FROM_BYTE[data[offset]!]!,
+        LINEAR_FROM_BYTE[data[offset + 1]!]!,
+        LINEAR_FROM_BYTE[data[offset + 2]!]!,
+        query,
+      );
+    } else if (isOklab) {
+      query[0] = data[offset]!;
+      query[1] = data[offset + 1]!;
+      query[2] = data[offset + 2]!;
+    } else {
+      linearToOklab(toLinear(data[offset]!), toLinear(data[offset + 1]!), toLinear(data[offset + 2]!), query);
+    }
+
+    let bestIndex = -1;
+    let bestDistance = Infinity;
+    for (const { offset: base, level } of searched) {
+      if (bestIndex >= 0 && options?.cascade) break;
+      const tree = metric ? null : getTree(dict, level, cache);
+      const result = metric
+        ? scanNearest(getNameSet(dict, level)!, query, metric, 1)[0]
+        : grid ? tree && nearestEntry(getNameSet(dict, level)!, tree, query, true) : tree?.nearest(query, weights);
+      if (!result || result.index < 0) continue;
+      if (threshold !== undefined && result.distance > threshold) continue;
+      if (result.distance < bestDistance) {
+        bestDistance = result.distance;
+        bestIndex = base + result.index;
+      }
+    }
+
+    indices[i] = bestIndex;
+    distances[i] = bestDistance;
+  }
+
+  return { names, levels, indices, distances };
+}
@@ -0,0 +1,213 @@
+/**
+ * Probabilistic naming model, after Heer & Stone's "Color Naming Models for
+ * Color Selection, Image Editing and Palette Design" (CHI 2012).
+ *
+ * Each name is treated as a Gaussian in OkLab centred on its centroid, with
+ * the covariance of its survey responses, and weighted by how often it was
+ * used. The probability of a name given a color is then proportional to
+ * `count(name) · N(color; centroid, covariance)`.
+ *
+ * The same regions back the `region` naming modes, which rank names by
+ * Mahalanobis distance or likelihood instead of distance to a point centroid.
+ */
+import type { ColorNameSet } from './types.ts';
+
+/**
+ * Standard deviation (OkLab units) assumed for names without statistics or a radius.
+ *
+ * @internal
+ */
+export const DEFAULT_SPREAD = 0.05;
+/** Added to covariance diagonals so names with few or identical responses stay well-conditioned. */
+const REGULARIZATION = 1e-4;
+/** Sigma point spread `√n` for the 3-dimensional unscented transform with no centre weight. */
+const SIGMA_SCALE = Math.sqrt(3);
+
+/** A symmetric 3×3 OkLab covariance, stored as `[ll, la, lb, aa, ab, bb]`. */
+type Covariance = [number, number, number, number, number, number];
+
+/**
+ * The covariance of a name's region: from the set's survey statistics, else
+ * from its per-name radius, else a default spread.
+ *
+ * @param set - The name set containing the entry.
+ * @param index - The index of the entry.
+ * @returns The covariance.
+ */
+function covarianceOf(set: ColorNameSet, index: number): Covariance {
+  if (set.stats) {
+    const c = index * 6;
+    const cov = set.stats.covariances;
+    return [
+      cov[c]! + REGULARIZATION,
+      cov[c + 1]!,
+      cov[c + 2]!,
+      cov[c + 3]! + REGULARIZATION,
+      cov[c + 4]!,
+      cov[c + 5]! + REGULARIZATION,
+    ];
+  }
+  const variance = (set.radii?.[index] ?? DEFAULT_SPREAD) ** 2;
+  return [variance, 0, 0, variance, 0, variance];
+}
+
+/**
+ * Squared Mahalanobis distance of an offset under a covariance, and the
+ * log-determinant of the covariance.
+ *
+ * @param cov - The covariance.
+ * @param dl - Lightness offset from the centroid.
+ * @param da - `a` offset from the centroid.
+ * @param db - `b` offset from the centroid.
+ * @returns `[mahalanobis², log det Σ]`, or `[Infinity, 0]` for a degenerate covariance.
+ */
+function gaussianTerms(cov: Covariance, dl: number, da: number, db: number): [number, number] {
+  const [ll, la, lb, aa, ab, bb] = cov;
+
+  // Inverse of the symmetric 3×3 covariance via cofactors
+  const c00 = aa * bb - ab * ab;
+  const c01 = lb * ab - la * bb;
+  const c02 = la * ab - lb * aa;
+  const c11 = ll * bb - lb * lb;
+  const c12 = la * lb - ll * ab;
+  const c22 = ll * aa - la * la;
+  const det = ll * c00 + la * c01 + lb * c02;
+  if (!(det > 0)) return [Infinity, 0];
+
+  const mahalanobis2 = (
+    dl * (c00 * dl + c01 * da + c02 * db) +
+    da * (c01 * dl + c11 * da + c12 * db) +
+    db * (c02 * dl + c12 * da + c22 * db)
+  ) / det;
+
+  return [mahalanobis2, Math.log(det)];
+}
+
+/**
+ * Squared Mahalanobis distance from a name's centroid, and the log-determinant
+ * of its covariance.
+ *
+ * @param set - The name set containing the entry.
+ * @param index - The index of the entry.
+ * @param query - An `[l, a, b]` tuple in OkLab space.
+ * @returns `[mahalanobis², log det Σ]`.
+ */
+function regionTerms(set: ColorNameSet, index: number, query: [number, number, number]): [number, number] {
+  const offset = index * 3;
+  return gaussianTerms(
+    covarianceOf(set, index),
+    query[0] - set.colors[offset]!,
+    query[1] - set.colors[offset + 1]!,
+    query[2] - set.colors[offset + 2]!,
+  );
+}
+
+/**
+ * Mahalanobis distance from a name's centroid: the distance in standard
+ * deviations of that name's region, so broad names reach farther than narrow ones.
+ *
+ * @param set - The name set containing the entry.
+ * @param index - The index of the entry.
+ * @param query - An `[l, a, b]` tuple in OkLab space.
+ * @returns The Mahalanobis distance.
+ */
+export function mahalanobis(set: ColorNameSet, index: number, query: [number, number, number]): number {
+  return Math.sqrt(regionTerms(set, index, query)[0]);
+}
+
+/**
+ * Log of the unnormalized probability that a name is used for a color:
+ * log count plus the Gaussian log-density. The `2π` term is dropped since it
+ * cancels out when normalizing.
+ *
+ * @param set - The name set containing the entry.
+ * @param index - The index of the entry.
+ * @param query - An `[l, a, b]` tuple in OkLab space.
+ * @returns The log weight of the entry for the query.
+ */
+export function logWeight(set: ColorNameSet, index: number, query: [number, number, number]): number {
+  const count = set.stats ? Math.max(1, set.stats.counts[index]!) : 1;
+  const [mahalanobis2, logDet] = regionTerms(set, index, query);
+  return Math.log(count) - 0.5 * mahalanobis2 - 0.5 * logDet;
+}
+
+/**
+ * Normalize log weights into probabilities (softmax).
+ *
+ * @param logs - Log weights.
+ * @returns Probabilities summing to 1, or all zeros if every weight is `-Infinity`.
+ */
+export function normalize(logs: number[]): number[] {
+  const max = Math.max(...logs);
+  if (max === -Infinity) return logs.map(() => 0);
+  const weights = logs.map((l) => Math.exp(l - max));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  return weights.map((w) => w / total);
+}
+
+/**
+ * Overlap between two names' regions, as the Bhattacharyya coefficient of
+ * their Gaussians: 1 for identical regions, approaching 0 for disjoint ones.
+ *
+ * @param setA - The name set containing the first entry.
+ * @param indexA - The index of the first entry.
+ * @param setB - The name set containing the second entry.
+ * @param indexB - The index of the second entry.
+ * @returns The overlap, from 0 to 1.
+ */
+export function overlap(setA: ColorNameSet, indexA: number, setB: ColorNameSet, indexB: number): number {
+  const a = covarianceOf(setA, indexA);
+  const b = covarianceOf(setB, indexB);
+  const mean = a.map((v, i) => (v + b[i]!) / 2) as Covariance;
+
+  const oa = indexA * 3;
+  const ob = indexB * 3;
+  const [mahalanobis2, logDet] = gaussianTerms(
+    mean,
+    setA.colors[oa]! - setB.colors[ob]!,
+    setA.colors[oa + 1]! - setB.colors[ob + 1]!,
+    setA.colors[oa + 2]! - setB.colors[ob + 2]!,
+  );
+  const logDetA = gaussianTerms(a, 0, 0, 0)[1];
+  const logDetB = gaussianTerms(b, 0, 0, 0)[1];
+
+  const distance = mahalanobis2 / 8 + (logDet - (logDetA + logDetB) / 2) / 2;
+  return Math.exp(-distance);
+}
+
+/**
+ * Sigma points of a name's region: the centroid offset by `±√3` times each
+ * column of the covariance's Cholesky factor. Averaging a function over these
+ * six equally weighted points estimates its expectation over the region
+ * (the unscented transform).
+ *
+ * @param set - The name set containing the entry.
+ * @param index - The index of the entry.
+ * @returns Six `[l, a, b]` tuples in OkLab space.
+ */
+export function sigmaPoints(set: ColorNameSet, index: number): [number, number, number][] {
+  const [ll, la, lb, aa, ab, bb] = covarianceOf(set, index);
+
+  // Cholesky factor L (lower triangular) with L·Lᵀ = Σ
+  const l00 = Math.sqrt(ll);
+  const l10 = la / l00;
+  const l20 = lb / l00;
+  const l11 = Math.sqrt(Math.max(0, aa - l10 * l10));
+  const l21 = l11 > 0 ? (ab - l20 * l10) / l11 : 0;
+  const l22 = Math.sqrt(Math.max(0, bb - l20 * l20 - l21 * l21));
+  const columns: [number, number, number][] = [[l00, l10, l20], [0, l11, l21], [0, 0, l22]];
+
+  const offset = index * 3;
+  const centroid = [set.colors[offset]!, set.colors[offset + 1]!, set.colors[offset + 2]!];
+  const points: [number, number, number][] = [];
+  for (const column of columns) {
+    for (const sign of [1, -1]) {
+      points.push([
+        centroid[0]! + sign * SIGMA_SCALE * column[0],
+        centroid[1]! + sign * SIGMA_SCALE * column[1],
+        centroid[2]! + sign * SIGMA_SCALE * column[2],
+      ]);
+    }
+  }
+  return points;
+}
@@ -0,0 +1,271 @@
+import { Color } from './Color.ts';
+import { findEntry, getNameSet, nearestColors, resolveDict, toOklabQuery } from './naming.ts';
+import type {
+  ColorDescription,
+  ColorDictionary,
+  ColorModifier,
+  ColorModifierGrammar,
+  ColorName,
+  DescribeOptions,
+  LocaleInput,
+  NamingOptions,
+} from './types.ts';
+
+/** OkLCH chroma below which a color is treated as achromatic. */
+const ACHROMATIC_CHROMA = 0.04;
+/** Chroma increase over the base term that counts as "vivid". */
+const VIVID_CHROMA_STEP = 0.06;
+/** Fraction of the base term's chroma below which the query counts as "greyish". */
+const GREYISH_CHROMA_RATIO = 0.5;
+/** OkLCH chroma above which a near-neutral query gets a tint on an achromatic base ("bluish grey"). */
+const TINT_CHROMA = 0.02;
+/** Number of nearest names considered when choosing the base term. */
+const BASE_CANDIDATES = 16;
+/** Largest hue gap (degrees) between a chromatic query and its base term. */
+const BASE_HUE_WINDOW = 45;
+/** Largest hue gap (degrees) a tint may bridge. */
+const MAX_TINT_HUE = 150;
+
+/**
+ * Describe a color by composing a base term with locale-aware modifiers,
+ * e.g. "dark greyish blue" instead of the nearest literal name.
+ *
+ * The base term is the nearest name at `options.level` (default `'basic'`) in
+ * the query's hue family.
+ * Modifiers are chosen from the query's OkLCH offset from that term's centroid:
+ * lightness picks `light`/`dark`, chroma picks `vivid`/`greyish` (or `pale` when
+ * also lighter), and hue picks a tint towards the neighbouring term on that side
+ * ("bluish green"). Modifiers the locale has no grammar for are skipped, as are
+ * modifiers the base term already expresses (e.g. no "light" on `'hellblau'`).
+ *
+ * @param color - The query color, as a Color instance or CSS string.
+ * @param locale - A locale tag, `Intl.Locale`, list of either, or a ColorDictionary object.
+ * @param options - Naming options plus modifier thresholds.
+ * @returns The description, or `null` if no base term is found.
+ *
+ * @example
+ * ```ts
+ * describeColor('#2f4f4f', 'en')?.name; // 'dark grey'
+ * describeColor('#008080', 'en')?.name; // 'bluish green'
+ * describeColor('#ffb6c1', 'en')?.name; // 'pink'
+ * ```
+ */
+export function describeColor(
+  color: Color | string,
+  locale: LocaleInput,
+  options?: DescribeOptions,
+): ColorDescription | null {
+  const c = typeof color === 'string' ? Color.parse(color) : color;
+  if (!c) return null;
+
+  const dict = resolveDict(locale);
+  if (!dict) return null;
+
+  const query = toOklabQuery(c);
+  const [ql, qc, qh] = toLch(query);
+  const base = pickBase(c, locale, qc, qh, { ...options, level: options?.level ?? 'basic' });
+  if (!base) return null;
+
+  const grammar = dict.modifiers ?? {};
+  const [bl, bc, bh] = toLch(toOklabQuery(base.color));
+  const lightnessStep = options?.lightnessStep ?? 0.08;
+  const hueStep = options?.hueStep ?? 12;
+
+  const modifiers: ColorModifier[] = [];
+  let name = base.name;
+  let tint: string | undefined;
+
+  // Hue: innermost, directly attached to the base term
+  const tintName = qc >= (bc >= ACHROMATIC_CHROMA ? ACHROMATIC_CHROMA : TINT_CHROMA)
+    ? pickTint(dict, locale, grammar, base.name, bc >= ACHROMATIC_CHROMA ? bh : undefined, qh, hueStep)
+    : undefined;
+  if (tintName !== undefined && grammar.ish) {
+    name = grammar.ish.replace('{tint}', grammar.tints![tintName]!).replace('{name}', name);
+    modifiers.push('ish');
+    tint = tintName;
+  }
+
+  // Lightness is only meaningful away from the black/white extremes
+  const dl = ql - bl;
+  const canShiftLightness = bc >= ACHROMATIC_CHROMA || (bl > 0.2 && bl < 0.9);
+  const lighter = canShiftLightness && dl >= lightnessStep;
+  const darker = canShiftLightness && dl <= -lightnessStep;
+
+  // Chroma
+  const greyish = bc >= ACHROMATIC_CHROMA && qc < bc * GREYISH_CHROMA_RATIO;
+  const vivid = bc >= ACHROMATIC_CHROMA && qc > bc + VIVID_CHROMA_STEP;
+
+  if (lighter && greyish && apply(grammar, 'pale', base.name)) {
+    name = grammar.pale!.replace('{name}', name);
+    modifiers.push('pale');
+  } else {
+    if (greyish && apply(grammar, 'greyish', base.name)) {
+      name = grammar.greyish!.replace('{name}', name);
+      modifiers.push('greyish');
+    } else if (vivid && apply(grammar, 'vivid', base.name)) {
+      name = grammar.vivid!.replace('{name}', name);
+      modifiers.push('vivid');
+    }
+    if (lighter && apply(grammar, 'light', base.name)) {
+      name = grammar.light!.replace('{name}', name);
+      modifiers.push('light');
+    } else if (darker && apply(grammar, 'dark', base.name)) {
+      name = grammar.dark!.replace('{name}', name);
+      modifiers.push('dark');
+    }
+  }
+
+  return { name, base, modifiers, ...(tint !== undefined ? { tint } : {}) };
+}
+
+/**
+ * Choose the base term to modify. Among the nearest names, prefers one in the
+ * query's hue family — an achromatic term for a near-neutral query, otherwise a
+ * chromatic term close to the query hue — so lightness and chroma offsets are
+ * expressed by modifiers rather than by a wrong hue. Falls back to the chromatic
+ * term closest in hue, then to the plain nearest name.
+ *
+ * @param color - The query color.
+ * @param locale - The locale reference, passed through for tree caching.
+ * @param queryChroma - The query's OkLCH chroma.
+ * @param queryHue - The query's OkLCH hue.
+ * @param options - Naming options for the candidate search.
+ * @returns The base term, or `null` if the locale has no names.
+ */
+function pickBase(
+  color: Color,
+  locale: LocaleInput,
+  queryChroma: number,
+  queryHue: number,
+  options: NamingOptions,
+): ColorName | null {
+  const candidates = nearestColors(color, locale, BASE_CANDIDATES, options);
+  let closestHue: ColorName | undefined;
+  let closestGap = Infinity;
+
+  for (const candidate of candidates) {
+    const [, cc, ch] = toLch(toOklabQuery(candidate.color));
+    if (queryChroma < ACHROMATIC_CHROMA) {
+      if (cc < ACHROMATIC_CHROMA) return candidate;
+    } else if (cc >= ACHROMATIC_CHROMA) {
+      const gap = Math.abs(hueDiff(queryHue, ch));
+      if (gap <= BASE_HUE_WINDOW) return candidate;
+      if (gap < closestGap) {
+        closestGap = gap;
+        closestHue = candidate;
+      }
+    }
+  }
+  return closestHue ?? candidates[0] ?? null;
+}
+
+/**
+ * Convert an OkLab tuple to OkLCH.
+ *
+ * @param lab - An `[l, a, b]` tuple in OkLab space.
+ * @returns An `[l, c, h]` tuple with the hue in degrees `[0, 360)`.
+ */
+function toLch(lab: [number, number, number]): [number, number, number] {
+  const [l, a, b] = lab;
+  const h = (Math.atan2(b, a) * 180) / Math.PI;
+  return [l, Math.sqrt(a * a + b * b), h < 0 ? h + 360 : h];
+}
+
+/**
+ * Signed shortest angular difference `to - from`, in degrees `(-180, 180]`.
+ *
+ * @param from - Start hue in degrees.
+ * @param to - End hue in degrees.
+ * @returns The signed difference.
+ */
+function hueDiff(from: number, to: number): number {
+  let d = (to - from) % 360;
+  if (d > 180) d -= 360;
+  if (d <= -180) d += 360;
+  return d;
+}
+
+/**
+ * Check whether a lightness/chroma modifier may be applied: the locale must
+ * have a template for it and the base term must not already contain its word
+ * (or that of any modifier in the same group).
+ *
+ * @param grammar - The locale's modifier grammar.
+ * @param modifier - The modifier to apply.
+ * @param baseName - The base term.
+ * @returns `true` if the modifier should be applied.
+ */
+function apply(grammar: ColorModifierGrammar, modifier: 'light' | 'dark' | 'pale' | 'vivid' | 'greyish', baseName: string): boolean {
+  if (!grammar[modifier]) return false;
+  const group = modifier === 'vivid' || modifier === 'greyish'
+    ? (['vivid', 'greyish', 'pale'] as const)
+    : (['light', 'dark', 'pale'] as const);
+  const lower = baseName.toLowerCase();
+  for (const m of group) {
+    const word = grammar[m]?.replace('{name}', '').replace(/^[\s-]+|[\s-]+$/g, '').toLowerCase();
+    if (word && lower.includes(word)) return false;
+  }
+  return true;
+}
+
+/**
+ * Choose the term whose tint form describes the query's hue offset.
+ *
+ * For a chromatic base, picks the tinted term adjacent to the base on the side
+ * the query leans towards ("bluish green" for a green shifted towards blue).
+ * For an achromatic base, picks the tinted term closest in hue to the query
+ * ("bluish grey").
+ *
+ * @param dict - The dictionary the base term came from.
+ * @param locale - The locale reference `dict` was resolved from, to pick the name index cache.
+ * @param grammar - The locale's modifier grammar.
+ * @param baseName - The base term.
+ * @param baseHue - The base term's hue, or `undefined` if it is achromatic.
+ * @param queryHue - The query's hue.
+ * @param hueStep - Minimum hue offset that triggers a tint.
+ * @returns The tinting term name, or `undefined` for none.
+ */
+function pickTint(
+  dict: ColorDictionary,
+  locale: LocaleInput,
+  grammar: ColorModifierGrammar,
+  baseName: string,
+  baseHue: number | undefined,
+  queryHue: number,
+  hueStep: number,
+): string | undefined {
+  if (!grammar.ish || !grammar.tints) return undefined;
+
+  const offset = baseHue === undefined ? 0 : hueDiff(baseHue, queryHue);
+  if (baseHue !== undefined && Math.abs(offset) < hueStep) return undefined;
+
+  let best: string | undefined;
+  let bestGap = Infinity;
+
+  for (const tintName of Object.keys(grammar.tints)) {
+    if (tintName === baseName) continue;
+    const entry = findEntry(tintName, locale, dict);
+    if (!entry) continue;
+    const colors = getNameSet(dict, entry.level)!.colors;
+    const offset = entry.index * 3;
+    const [, tc, th] = toLch([colors[offset]!, colors[offset + 1]!, colors[offset + 2]!]);
+    if (tc < ACHROMATIC_CHROMA) continue;
+
+    let gap: number;
+    if (baseHue === undefined) {
+      gap = Math.abs(hueDiff(queryHue, th));
+      if (gap > BASE_HUE_WINDOW) continue;
+    } else {
+      const d = hueDiff(baseHue, th);
+      if (Math.sign(d) !== Math.sign(offset) || Math.abs(d) > MAX_TINT_HUE) continue;
+      gap = Math.abs(d);
+    }
+
+    if (gap < bestGap) {
+      bestGap = gap;
+      best = tintName;
+    }
+  }
+
+  return best;
+}
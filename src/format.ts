@@ -0,0 +1,133 @@
+import { Color } from './Color.ts';
+import { findName, getLevels, resolveDict, resolveTreeCache, toOklabQuery, type TreeCache } from './naming.ts';
+import type {
+  ColorDictionary,
+  ColorNameFormatOptions,
+  ColorNamePart,
+  LocaleInput,
+  NamingOptions,
+  ResolvedColorNameFormatOptions,
+} from './types.ts';
+
+/**
+ * Format a locale reference for an error message, e.g. `'xx', 'yy-ZZ'`.
+ *
+ * @param locale - A locale tag, `Intl.Locale`, list of either, or a ColorDictionary object.
+ * @returns The quoted tags, comma-separated.
+ */
+function formatLocale(locale: LocaleInput): string {
+  const tags = typeof locale === 'string' || locale instanceof Intl.Locale
+    ? [locale]
+    : 'locale' in locale ? [locale.locale] : locale;
+  return tags.map((tag) => `'${tag.toString()}'`).join(', ');
+}
+
+/**
+ * Locale-bound color name formatter, modelled on `Intl.DisplayNames`.
+ *
+ * The locale is negotiated once at construction time (with the same BCP 47
+ * fallback as {@link nameColor}), and the resolved dictionary and its k-d trees
+ * are reused by every call. Construct one per locale and reuse it. Tiers are
+ * selected per call, so names merged into the locale later with
+ * {@link useLocale} are found too; a dictionary registered with the
+ * `'replace'` strategy needs a new formatter.
+ *
+ * @example
+ * ```ts
+ * const fmt = new ColorNameFormat('en-US', { style: 'long' });
+ * fmt.format('#ff6347');        // 'tomato (#ff6347)'
+ * fmt.formatToParts('#ff6347'); // [{ type: 'name', value: 'tomato' }, ...]
+ * fmt.resolvedOptions().locale; // 'en'
+ * ```
+ */
+export class ColorNameFormat {
+  readonly #dict: ColorDictionary;
+  readonly #cache: TreeCache;
+  /** The naming options passed to every search, with the tier selection as given. */
+  readonly #naming: NamingOptions;
+  readonly #options: Omit<ResolvedColorNameFormatOptions, 'tiers'>;
+
+  /**
+   * Create a formatter for a locale.
+   *
+   * @param locale - A locale tag, `Intl.Locale`, list of either, or a ColorDictionary object.
+   * @param options - Naming and presentation options.
+   * @throws {RangeError} If no registered locale matches `locale`.
+   */
+  constructor(locale: LocaleInput, options: ColorNameFormatOptions = {}) {
+    const dict = resolveDict(locale);
+    if (!dict) {
+      throw new RangeError(`No color dictionary registered for locale: ${formatLocale(locale)}`);
+    }
+    this.#dict = dict;
+    // Registered locales share the registry's cache (keyed by name set, so a
+    // dictionary replaced later gets its own trees); inline dictionaries get a
+    // cache owned by this formatter.
+    this.#cache = resolveTreeCache(locale) ?? new WeakMap();
+    this.#options = {
+      locale: dict.locale,
+      level: options.level,
+      cascade: options.cascade ?? false,
+      threshold: options.threshold,
+      metric: options.metric ?? 'oklab',
+      grammar: options.grammar,
+      lchWeights: options.lchWeights,
+      region: options.region,
+      confidence: options.confidence ?? false,
+      grid: options.grid ?? false,
+      fallback: options.fallback ?? 'hex',
+      style: options.style ?? 'short',
+    };
+    this.#naming = { ...this.#options, tiers: options.tiers, include: options.include, exclude: options.exclude };
+  }
+
+  /**
+   * Format a color as its name in this formatter's locale.
+   *
+   * @param color - The color to name, as a Color instance or CSS string.
+   * @returns The formatted name, the hex fallback, or `undefined` if the color
+   *   cannot be parsed (or has no name and `fallback` is `'none'`).
+   */
+  format(color: Color | string): string | undefined {
+    const parts = this.formatToParts(color);
+    return parts.length > 0 ? parts.map((p) => p.value).join('') : undefined;
+  }
+
+  /**
+   * Format a color as a list of typed parts, for custom rendering
+   * (e.g. styling the name and hex code separately).
+   *
+   * @param color - The color to name, as a Color instance or CSS string.
+   * @returns The formatted parts, or an empty array when {@link format} would return `undefined`.
+   */
+  formatToParts(color: Color | string): ColorNamePart[] {
+    const c = typeof color === 'string' ? Color.parse(color) : color;
+    if (!c) return [];
+
+    const match = findName(this.#dict, toOklabQuery(c), this.#naming, this.#cache);
+    const hex = c.toHex();
+
+    if (!match) {
+      return this.#options.fallback === 'hex' && hex ? [{ type: 'code', value: hex }] : [];
+    }
+
+    const parts: ColorNamePart[] = [{ type: 'name', value: match.name }];
+    if (this.#options.style === 'long' && hex) {
+      parts.push(
+        { type: 'literal', value: ' (' },
+        { type: 'code', value: hex },
+        { type: 'literal', value: ')' },
+      );
+    }
+    return parts;
+  }
+
+  /**
+   * The locale and options this formatter resolved to.
+   *
+   * @returns A fresh copy of the resolved options, with the tiers the next call would search.
+   */
+  resolvedOptions(): ResolvedColorNameFormatOptions {
+    return { ...this.#options, tiers: getLevels(this.#dict, this.#naming) };
+  }
+}
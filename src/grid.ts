@@ -0,0 +1,115 @@
+/**
+ * A precomputed OkLab lookup grid for O(1) nearest-name queries.
+ *
+ * The OkLab box `L ∈ [0, 1]`, `a, b ∈ [-0.4, 0.4]` (enough for sRGB and
+ * Display P3) is divided into `resolution³` voxels, and each voxel lists the
+ * points that can be nearest to some color inside it. With `d` the distance
+ * from the voxel's center to its nearest point and `r` the voxel's
+ * half-diagonal, every color in the voxel is within `d + r` of that point, so
+ * only points within `d + 2r` of the center can beat it. Most voxels away from
+ * a Voronoi boundary list a single point; a query compares the few listed
+ * points and gets the exact answer.
+ *
+ * Voxels that straddle boundaries between many points list none (see
+ * {@link MAX_CANDIDATES}), and queries there or outside the box are misses,
+ * for which the caller falls back to the exact k-d tree search.
+ */
+import type { KDTree, NearestResult } from './kdtree.ts';
+
+/** Default number of voxels along each axis. */
+const DEFAULT_RESOLUTION = 32;
+/** Most candidates listed for a voxel; voxels with more fall back to the tree. */
+const MAX_CANDIDATES = 8;
+/** Lower corner of the gridded OkLab box. */
+const MIN = [0, -0.4, -0.4] as const;
+/** Extent of the gridded OkLab box along each axis. */
+const SPAN = [1, 0.8, 0.8] as const;
+/** Margin absorbing float32 rounding in the candidate radius. */
+const EPSILON = 1e-6;
+
+export class LookupGrid {
+  /** The gridded points, 3 floats per point. */
+  readonly #points: Float32Array;
+  /** Voxels per axis. */
+  readonly #resolution: number;
+  /** Start of each voxel's candidates in {@link LookupGrid.#candidates}, plus a final end offset. */
+  readonly #offsets: Int32Array;
+  /** Candidate point indices of every voxel, concatenated. */
+  readonly #candidates: Int32Array;
+
+  /**
+   * Build a grid over a tree's points, with one nearest and one radius query per voxel.
+   *
+   * @param tree - A k-d tree over `points`.
+   * @param points - Flat array of `[l, a, b, l, a, b, ...]` coordinates, indexed like the tree.
+   * @param resolution - Voxels along each axis (`32` by default, i.e. 32,768 voxels).
+   */
+  constructor(tree: KDTree, points: Float32Array, resolution = DEFAULT_RESOLUTION) {
+    this.#points = points;
+    this.#resolution = resolution;
+    this.#offsets = new Int32Array(resolution ** 3 + 1);
+
+    const step = SPAN.map((span) => span / resolution);
+    const reach = Math.hypot(step[0]!, step[1]!, step[2]!) + EPSILON;
+    const center: [number, number, number] = [0, 0, 0];
+    const candidates: number[] = [];
+
+    for (let x = 0, cell = 0; x < resolution; x++) {
+      center[0] = MIN[0] + (x + 0.5) * step[0]!;
+      for (let y = 0; y < resolution; y++) {
+        center[1] = MIN[1] + (y + 0.5) * step[1]!;
+        for (let z = 0; z < resolution; z++, cell++) {
+          center[2] = MIN[2] + (z + 0.5) * step[2]!;
+          const nearest = tree.nearest(center);
+          if (nearest.index >= 0) {
+            const within = tree.withinRadius(center, nearest.distance + reach);
+            if (within.length <= MAX_CANDIDATES) {
+              for (const { index } of within) candidates.push(index);
+            }
+          }
+          this.#offsets[cell + 1] = candidates.length;
+        }
+      }
+    }
+    this.#candidates = new Int32Array(candidates);
+  }
+
+  /** The fraction of voxels answered from the grid, from 0 to 1. */
+  get coverage(): number {
+    let hits = 0;
+    for (let cell = 0; cell < this.#offsets.length - 1; cell++) {
+      if (this.#offsets[cell + 1]! > this.#offsets[cell]!) hits++;
+    }
+    return hits / (this.#offsets.length - 1);
+  }
+
+  /**
+   * Find the nearest point to a query among its voxel's candidates.
+   *
+   * @param query - An `[l, a, b]` tuple in OkLab space.
+   * @returns The nearest point's index and Euclidean distance, or `null` if
+   *   the query lies outside the grid or in a voxel without candidates.
+   */
+  lookup(query: [number, number, number]): NearestResult | null {
+    const resolution = this.#resolution;
+    const x = Math.floor(((query[0] - MIN[0]) / SPAN[0]) * resolution);
+    const y = Math.floor(((query[1] - MIN[1]) / SPAN[1]) * resolution);
+    const z = Math.floor(((query[2] - MIN[2]) / SPAN[2]) * resolution);
+    if (x < 0 || y < 0 || z < 0 || x >= resolution || y >= resolution || z >= resolution) return null;
+
+    const cell = (x * resolution + y) * resolution + z;
+    const end = this.#offsets[cell + 1]!;
+    let best: NearestResult | null = null;
+    for (let i = this.#offsets[cell]!; i < end; i++) {
+      const index = this.#candidates[i]!;
+      const offset = index * 3;
+      const distance = Math.hypot(
+        query[0] - this.#points[offset]!,
+        query[1] - this.#points[offset + 1]!,
+        query[2] - this.#points[offset + 2]!,
+      );
+      if (!best || distance < best.distance) best = { index, distance };
+    }
+    return best;
+  }
+}
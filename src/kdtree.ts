@@ -2,28 +2,67 @@
  * A 3-dimensional k-d tree for fast nearest-neighbor search in OkLab space.
  * Each point is `[l, a, b]` and carries an associated index back into the name array.
  *
- * The tree is built once at construction time with O(n log n) cost, then supports
- * O(log n) nearest-neighbor queries via branch-and-bound pruning.
+ * The tree is implicit: points are stored in tree order in a flat Float32Array,
+ * and the node over a range `[lo, hi)` is the point at its midpoint, with the
+ * left subtree in `[lo, mid)` and the right subtree in `[mid + 1, hi)`. Only
+ * the original index and split axis of each node are stored alongside, so
+ * building allocates three typed arrays and no per-node objects.
+ *
+ * The tree is built once at construction time in O(n log n) by median
+ * selection, then supports O(log n) nearest-neighbor queries via
+ * branch-and-bound pruning, plus radius and box range queries. Traversal is
+ * iterative over a preallocated stack.
+ *
+ * Because the layout is flat, a built tree can be serialized to a compact
+ * binary format and restored without rebuilding (see {@link KDTree.serialize}).
+ *
+ * Nearest-neighbor and radius queries can also measure distance cylindrically,
+ * weighting lightness, chroma and hue differences separately (see
+ * {@link LchWeights}). The weighted distance is bounded below by the scaled
+ * distance to each splitting plane, so pruning stays exact.
+ *
+ * Points can be inserted and removed after construction. Inserted points are
+ * kept in a small pending list scanned linearly, removed points are marked
+ * dead in place, and the tree is rebuilt once either grows past its limit.
  */
+import type { LchWeights } from './types.ts';
 
-interface KDNode {
-  point: [number, number, number];
-  index: number;
-  left: KDNode | null;
-  right: KDNode | null;
-  axis: number;
-}
+/** "KDT1" in ASCII: identifies a serialized tree and its format version. */
+const MAGIC = 0x3154444b;
+/** Serialized header: magic and point count, both little-endian uint32. */
+const HEADER_BYTES = 8;
+/** Pending inserts always allowed before a rebuild; above this, the limit grows as `√size`. */
+const MIN_PENDING = 16;
+/** Plane distance scale for plain Euclidean queries. */
+const UNIT_SCALE: readonly number[] = [1, 1, 1];
 
 /** Result of a nearest-neighbor query, containing the matched index and its distance. */
 export interface NearestResult {
   /** Index into the original points/names array. */
   index: number;
-  /** Euclidean distance in OkLab space from the query point. */
+  /** Euclidean distance in OkLab space from the query point, or the weighted OkLCh distance when weights were given. */
   distance: number;
 }
 
 export class KDTree {
-  #root: KDNode | null;
+  /** Point coordinates in tree order, 3 floats per node. */
+  #coords!: Float32Array;
+  /** Original index of the point at each tree position. */
+  #indices!: Int32Array;
+  /** Split axis (0 = l, 1 = a, 2 = b) of the node at each tree position. */
+  #axes!: Uint8Array;
+  /** Traversal stack of `[lo, hi)` ranges, sized for the tree's depth. */
+  #stack!: Int32Array;
+  /** Squared distance from the query to each stacked range's splitting plane. */
+  #planes!: Float64Array;
+  /** Whether the point at each tree position has been removed. */
+  #dead!: Uint8Array;
+  /** Number of removed points still in the tree layout. */
+  #deadCount = 0;
+  /** Coordinates of points inserted since the last build, 3 per point. */
+  #pendingCoords: number[] = [];
+  /** Original indices of points inserted since the last build. */
+  #pendingIndices: number[] = [];
 
   /**
    * Build a k-d tree from a flat Float32Array of OkLab points.
@@ -33,34 +72,157 @@ export class KDTree {
    * @param count - The number of points (i.e. `points.length / 3`).
    */
   constructor(points: Float32Array, count: number) {
-    const items: { point: [number, number, number]; index: number }[] = [];
-    for (let i = 0; i < count; i++) {
-      const offset = i * 3;
-      items.push({
-        point: [points[offset]!, points[offset + 1]!, points[offset + 2]!],
-        index: i,
-      });
-    }
-    this.#root = this.#build(items, 0);
-  }
-
-  #build(
-    items: { point: [number, number, number]; index: number }[],
-    depth: number,
-  ): KDNode | null {
-    if (items.length === 0) return null;
-
-    const axis = depth % 3;
-    items.sort((a, b) => a.point[axis]! - b.point[axis]!);
-    const mid = items.length >> 1;
-
-    return {
-      point: items[mid]!.point,
-      index: items[mid]!.index,
-      axis,
-      left: this.#build(items.slice(0, mid), depth + 1),
-      right: this.#build(items.slice(mid + 1), depth + 1),
-    };
+    const { coords, order, axes } = build(points, count);
+    this.#adopt(coords, order, axes);
+  }
+
+  /** The number of points in the tree. */
+  get size(): number {
+    return this.#indices.length - this.#deadCount + this.#pendingIndices.length;
+  }
+
+  /**
+   * Add a point. It is searchable immediately; the tree is rebuilt once
+   * enough points are pending.
+   *
+   * @param point - An `[l, a, b]` tuple in OkLab space.
+   * @param index - The index reported for the point in query results.
+   */
+  insert(point: [number, number, number], index: number): void {
+    this.#pendingCoords.push(point[0], point[1], point[2]);
+    this.#pendingIndices.push(index);
+    if (this.#pendingIndices.length > Math.max(MIN_PENDING, Math.sqrt(this.size))) this.rebalance();
+  }
+
+  /**
+   * Remove a point by its index. The tree is rebuilt once half its points
+   * have been removed.
+   *
+   * @param index - The index of the point to remove.
+   * @returns `true` if a point was removed, `false` if none had that index.
+   */
+  remove(index: number): boolean {
+    const pending = this.#pendingIndices.indexOf(index);
+    if (pending >= 0) {
+      this.#pendingIndices.splice(pending, 1);
+      this.#pendingCoords.splice(pending * 3, 3);
+      return true;
+    }
+
+    for (let position = 0; position < this.#indices.length; position++) {
+      if (this.#indices[position] !== index || this.#dead[position]) continue;
+      this.#dead[position] = 1;
+      if (++this.#deadCount > this.#indices.length >> 1) this.rebalance();
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Rebuild the tree from its current points, folding in pending inserts and
+   * dropping removed points. Called automatically by {@link KDTree.insert}
+   * and {@link KDTree.remove}.
+   */
+  rebalance(): void {
+    if (this.#deadCount === 0 && this.#pendingIndices.length === 0) return;
+
+    const count = this.size;
+    const points = new Float32Array(count * 3);
+    const ids = new Int32Array(count);
+    let n = 0;
+    for (let position = 0; position < this.#indices.length; position++) {
+      if (this.#dead[position]) continue;
+      points.set(this.#coords.subarray(position * 3, position * 3 + 3), n * 3);
+      ids[n++] = this.#indices[position]!;
+    }
+    points.set(this.#pendingCoords, n * 3);
+    ids.set(this.#pendingIndices, n);
+
+    const { coords, order, axes } = build(points, count);
+    for (let i = 0; i < count; i++) order[i] = ids[order[i]!]!;
+    this.#adopt(coords, order, axes);
+  }
+
+  /**
+   * Take over a tree layout and allocate the traversal stack for its depth.
+   *
+   * @param coords - Point coordinates in tree order.
+   * @param indices - Original index of the point at each tree position.
+   * @param axes - Split axis of the node at each tree position.
+   */
+  #adopt(coords: Float32Array, indices: Int32Array, axes: Uint8Array): void {
+    this.#coords = coords;
+    this.#indices = indices;
+    this.#axes = axes;
+    this.#dead = new Uint8Array(indices.length);
+    this.#deadCount = 0;
+    this.#pendingCoords = [];
+    this.#pendingIndices = [];
+    const depth = Math.ceil(Math.log2(indices.length + 1)) + 1;
+    this.#stack = new Int32Array(depth * 4);
+    this.#planes = new Float64Array(depth * 2);
+  }
+
+  /**
+   * Serialize the tree to a compact little-endian binary format: an 8-byte
+   * header (magic, point count), then the coordinates as float32, the original
+   * indices as int32 and the split axes as bytes, all in tree order.
+   * Pending inserts and removals are folded in first.
+   *
+   * @returns The serialized tree (`8 + 17 × count` bytes).
+   *
+   * @example
+   * ```ts
+   * const bytes = new KDTree(set.colors, set.names.length).serialize();
+   * const tree = KDTree.deserialize(bytes); // no rebuild
+   * ```
+   */
+  serialize(): ArrayBuffer {
+    this.rebalance();
+    const count = this.#indices.length;
+    const buffer = new ArrayBuffer(HEADER_BYTES + count * 17);
+    const view = new DataView(buffer);
+    view.setUint32(0, MAGIC, true);
+    view.setUint32(4, count, true);
+
+    let offset = HEADER_BYTES;
+    for (let i = 0; i < count * 3; i++, offset += 4) view.setFloat32(offset, this.#coords[i]!, true);
+    for (let i = 0; i < count; i++, offset += 4) view.setInt32(offset, this.#indices[i]!, true);
+    new Uint8Array(buffer, offset, count).set(this.#axes);
+    return buffer;
+  }
+
+  /**
+   * Restore a tree produced by {@link KDTree.serialize} without rebuilding it.
+   *
+   * @param data - The serialized tree, as an `ArrayBuffer` or a byte view of one.
+   * @returns The tree, or `null` if the data is not a serialized tree.
+   */
+  static deserialize(data: ArrayBuffer | ArrayBufferView): KDTree | null {
+    const view = ArrayBuffer.isView(data)
+      ? new DataView(data.buffer, data.byteOffset, data.byteLength)
+      : new DataView(data);
+    if (view.byteLength < HEADER_BYTES || view.getUint32(0, true) !== MAGIC) return null;
+    const count = view.getUint32(4, true);
+    if (view.byteLength !== HEADER_BYTES + count * 17) return null;
+
+    const coords = new Float32Array(count * 3);
+    const indices = new Int32Array(count);
+    const axes = new Uint8Array(count);
+    let offset = HEADER_BYTES;
+    for (let i = 0; i < count * 3; i++, offset += 4) coords[i] = view.getFloat32(offset, true);
+    for (let i = 0; i < count; i++, offset += 4) {
+      indices[i] = view.getInt32(offset, true);
+      if (indices[i]! < 0) return null;
+    }
+    for (let i = 0; i < count; i++, offset++) {
+      axes[i] = view.getUint8(offset);
+      if (axes[i]! > 2) return null;
+    }
+
+    const tree = new KDTree(coords, 0);
+    tree.#adopt(coords, indices, axes);
+    return tree;
   }
 
   /**
@@ -68,36 +230,54 @@ export class KDTree {
    * Uses branch-and-bound pruning to skip subtrees that cannot contain a closer match.
    *
    * @param query - An `[l, a, b]` tuple in OkLab space.
-   * @returns The index and Euclidean distance of the nearest point.
+   * @param weights - Optional `[L, C, h]` weights for a cylindrical OkLCh distance.
+   * @returns The index and distance of the nearest point.
    *   Returns `{ index: -1, distance: Infinity }` if the tree is empty.
    */
-  nearest(query: [number, number, number]): NearestResult {
+  nearest(query: [number, number, number], weights?: LchWeights): NearestResult {
+    const coords = this.#coords;
+    const stack = this.#stack;
+    const planes = this.#planes;
+    const scale = planeScale(weights);
     let bestDist = Infinity;
     let bestIndex = -1;
 
-    const search = (node: KDNode | null) => {
-      if (!node) return;
+    let top = 0;
+    stack[0] = 0;
+    stack[1] = this.#indices.length;
+    planes[0] = 0;
 
-      const dist = sqDist(query, node.point);
-      if (dist < bestDist) {
+    while (top >= 0) {
+      const lo = stack[top * 2]!;
+      const hi = stack[top * 2 + 1]!;
+      const plane = planes[top]!;
+      top--;
+
+      // Only search a far branch if its splitting plane is closer than the current best
+      if (hi <= lo || plane >= bestDist) continue;
+
+      const mid = (lo + hi) >> 1;
+      const dist = sqDist(query, coords, mid, weights);
+      if (dist < bestDist && !this.#dead[mid]) {
         bestDist = dist;
-        bestIndex = node.index;
+        bestIndex = this.#indices[mid]!;
       }
 
-      const axis = node.axis;
-      const diff = query[axis]! - node.point[axis]!;
-      const near = diff <= 0 ? node.left : node.right;
-      const far = diff <= 0 ? node.right : node.left;
-
-      search(near);
+      const axis = this.#axes[mid]!;
+      const diff = query[axis]! - coords[mid * 3 + axis]!;
+      // Push far first so the near side is searched first
+      top = push(stack, planes, top, diff <= 0 ? mid + 1 : lo, diff <= 0 ? hi : mid, diff * diff * scale[axis]!);
+      top = push(stack, planes, top, diff <= 0 ? lo : mid + 1, diff <= 0 ? mid : hi, 0);
+    }
 
-      // Only search the far branch if the splitting plane is closer than the current best
-      if (diff * diff < bestDist) {
-        search(far);
+    const pending = this.#pendingIndices;
+    for (let i = 0; i < pending.length; i++) {
+      const dist = sqDist(query, this.#pendingCoords, i, weights);
+      if (dist < bestDist) {
+        bestDist = dist;
+        bestIndex = pending[i]!;
       }
-    };
-
-    search(this.#root);
+    }
 
     return { index: bestIndex, distance: Math.sqrt(bestDist) };
   }
@@ -108,77 +288,339 @@ export class KDTree {
    *
    * @param query - An `[l, a, b]` tuple in OkLab space.
    * @param n - The maximum number of neighbors to return.
+   * @param weights - Optional `[L, C, h]` weights for a cylindrical OkLCh distance.
    * @returns An array of up to `n` results sorted by distance (closest first).
    */
-  nearestN(query: [number, number, number], n: number): NearestResult[] {
-    // Max-heap of size n (worst = first)
-    const heap: { index: number; dist: number }[] = [];
+  nearestN(query: [number, number, number], n: number, weights?: LchWeights): NearestResult[] {
+    const coords = this.#coords;
+    const stack = this.#stack;
+    const planes = this.#planes;
+    const scale = planeScale(weights);
 
-    const search = (node: KDNode | null) => {
-      if (!node) return;
+    // Max-heap of size n (worst = first)
+    const capacity = Math.max(0, Math.min(n, this.size));
+    const heapDist = new Float64Array(capacity);
+    const heapIndex = new Int32Array(capacity);
+    let size = 0;
+    const offer = (dist: number, index: number) => {
+      if (size < capacity) {
+        heapDist[size] = dist;
+        heapIndex[size] = index;
+        heapUp(heapDist, heapIndex, size++);
+      } else if (dist < heapDist[0]!) {
+        heapDist[0] = dist;
+        heapIndex[0] = index;
+        heapDown(heapDist, heapIndex, 0, size);
+      }
+    };
 
-      const dist = sqDist(query, node.point);
+    let top = 0;
+    stack[0] = 0;
+    stack[1] = capacity > 0 ? this.#indices.length : 0;
+    planes[0] = 0;
 
-      if (heap.length < n) {
-        heap.push({ index: node.index, dist });
-        heapUp(heap, heap.length - 1);
-      } else if (dist < heap[0]!.dist) {
-        heap[0] = { index: node.index, dist };
-        heapDown(heap, 0, heap.length);
-      }
+    while (top >= 0) {
+      const lo = stack[top * 2]!;
+      const hi = stack[top * 2 + 1]!;
+      const plane = planes[top]!;
+      top--;
 
-      const axis = node.axis;
-      const diff = query[axis]! - node.point[axis]!;
-      const near = diff <= 0 ? node.left : node.right;
-      const far = diff <= 0 ? node.right : node.left;
+      const maxDist = size < capacity ? Infinity : heapDist[0]!;
+      if (hi <= lo || plane >= maxDist) continue;
 
-      search(near);
+      const mid = (lo + hi) >> 1;
+      if (!this.#dead[mid]) offer(sqDist(query, coords, mid, weights), this.#indices[mid]!);
 
-      const maxDist = heap.length < n ? Infinity : heap[0]!.dist;
-      if (diff * diff < maxDist) {
-        search(far);
-      }
-    };
+      const axis = this.#axes[mid]!;
+      const diff = query[axis]! - coords[mid * 3 + axis]!;
+      top = push(stack, planes, top, diff <= 0 ? mid + 1 : lo, diff <= 0 ? hi : mid, diff * diff * scale[axis]!);
+      top = push(stack, planes, top, diff <= 0 ? lo : mid + 1, diff <= 0 ? mid : hi, 0);
+    }
 
-    search(this.#root);
+    const pending = this.#pendingIndices;
+    for (let i = 0; i < pending.length && capacity > 0; i++) {
+      offer(sqDist(query, this.#pendingCoords, i, weights), pending[i]!);
+    }
 
     // Extract sorted results
     const results: NearestResult[] = [];
-    for (const item of heap) {
-      results.push({ index: item.index, distance: Math.sqrt(item.dist) });
+    for (let i = 0; i < size; i++) {
+      results.push({ index: heapIndex[i]!, distance: Math.sqrt(heapDist[i]!) });
     }
     results.sort((a, b) => a.distance - b.distance);
     return results;
   }
+
+  /**
+   * Find every point within a given distance of the query point.
+   * Prunes subtrees whose splitting plane is farther than the radius.
+   *
+   * @param query - An `[l, a, b]` tuple in OkLab space.
+   * @param radius - The maximum distance (inclusive).
+   * @param weights - Optional `[L, C, h]` weights for a cylindrical OkLCh distance.
+   * @returns An array of results sorted by distance (closest first).
+   */
+  withinRadius(query: [number, number, number], radius: number, weights?: LchWeights): NearestResult[] {
+    const coords = this.#coords;
+    const stack = this.#stack;
+    const planes = this.#planes;
+    const scale = planeScale(weights);
+    const maxDist = radius * radius;
+    const results: NearestResult[] = [];
+
+    let top = 0;
+    stack[0] = 0;
+    stack[1] = this.#indices.length;
+    planes[0] = 0;
+
+    while (top >= 0) {
+      const lo = stack[top * 2]!;
+      const hi = stack[top * 2 + 1]!;
+      const plane = planes[top]!;
+      top--;
+      if (hi <= lo || plane > maxDist) continue;
+
+      const mid = (lo + hi) >> 1;
+      const dist = sqDist(query, coords, mid, weights);
+      if (dist <= maxDist && !this.#dead[mid]) {
+        results.push({ index: this.#indices[mid]!, distance: Math.sqrt(dist) });
+      }
+
+      const axis = this.#axes[mid]!;
+      const diff = query[axis]! - coords[mid * 3 + axis]!;
+      top = push(stack, planes, top, lo, mid, diff <= 0 ? 0 : diff * diff * scale[axis]!);
+      top = push(stack, planes, top, mid + 1, hi, diff >= 0 ? 0 : diff * diff * scale[axis]!);
+    }
+
+    const pending = this.#pendingIndices;
+    for (let i = 0; i < pending.length; i++) {
+      const dist = sqDist(query, this.#pendingCoords, i, weights);
+      if (dist <= maxDist) results.push({ index: pending[i]!, distance: Math.sqrt(dist) });
+    }
+
+    results.sort((a, b) => a.distance - b.distance);
+    return results;
+  }
+
+  /**
+   * Find every point inside an axis-aligned box.
+   *
+   * @param min - The lower `[l, a, b]` corner (inclusive).
+   * @param max - The upper `[l, a, b]` corner (inclusive).
+   * @returns The indices of the points inside the box, in ascending order.
+   */
+  withinBox(min: [number, number, number], max: [number, number, number]): number[] {
+    const coords = this.#coords;
+    const stack = this.#stack;
+    const results: number[] = [];
+
+    let top = 0;
+    stack[0] = 0;
+    stack[1] = this.#indices.length;
+
+    while (top >= 0) {
+      const lo = stack[top * 2]!;
+      const hi = stack[top * 2 + 1]!;
+      top--;
+      if (hi <= lo) continue;
+
+      const mid = (lo + hi) >> 1;
+      const l = coords[mid * 3]!;
+      const a = coords[mid * 3 + 1]!;
+      const b = coords[mid * 3 + 2]!;
+      if (inBox(l, a, b, min, max) && !this.#dead[mid]) {
+        results.push(this.#indices[mid]!);
+      }
+
+      const axis = this.#axes[mid]!;
+      const value = coords[mid * 3 + axis]!;
+      if (min[axis]! <= value) {
+        top++;
+        stack[top * 2] = lo;
+        stack[top * 2 + 1] = mid;
+      }
+      if (max[axis]! >= value) {
+        top++;
+        stack[top * 2] = mid + 1;
+        stack[top * 2 + 1] = hi;
+      }
+    }
+
+    const pending = this.#pendingCoords;
+    for (let i = 0; i < this.#pendingIndices.length; i++) {
+      if (inBox(pending[i * 3]!, pending[i * 3 + 1]!, pending[i * 3 + 2]!, min, max)) {
+        results.push(this.#pendingIndices[i]!);
+      }
+    }
+
+    return results.sort((a, b) => a - b);
+  }
+}
+
+/**
+ * Lay out points as an implicit k-d tree: each range is partitioned around
+ * its median on the axis for its depth, cycling L → a → b.
+ *
+ * @param points - Flat array of `[l, a, b, l, a, b, ...]` coordinates.
+ * @param count - The number of points.
+ * @returns The coordinates in tree order, the point index at each tree
+ *   position, and the split axis at each tree position.
+ */
+function build(points: Float32Array, count: number): { coords: Float32Array; order: Int32Array; axes: Uint8Array } {
+  const order = new Int32Array(count);
+  for (let i = 0; i < count; i++) order[i] = i;
+  const axes = new Uint8Array(count);
+
+  const ranges: number[] = [0, count, 0];
+  while (ranges.length > 0) {
+    const axis = ranges.pop()!;
+    const hi = ranges.pop()!;
+    const lo = ranges.pop()!;
+    if (hi <= lo) continue;
+
+    const mid = (lo + hi) >> 1;
+    select(points, order, lo, hi - 1, mid, axis);
+    axes[mid] = axis;
+
+    const next = axis === 2 ? 0 : axis + 1;
+    ranges.push(lo, mid, next, mid + 1, hi, next);
+  }
+
+  const coords = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    coords.set(points.subarray(order[i]! * 3, order[i]! * 3 + 3), i * 3);
+  }
+  return { coords, order, axes };
+}
+
+/**
+ * Whether a point lies inside an axis-aligned box (bounds inclusive).
+ *
+ * @param l - The point's L coordinate.
+ * @param a - The point's a coordinate.
+ * @param b - The point's b coordinate.
+ * @param min - The box's lower corner.
+ * @param max - The box's upper corner.
+ * @returns `true` if the point is inside the box.
+ */
+function inBox(l: number, a: number, b: number, min: [number, number, number], max: [number, number, number]): boolean {
+  return l >= min[0] && l <= max[0] && a >= min[1] && a <= max[1] && b >= min[2] && b <= max[2];
+}
+
+/**
+ * Push a non-empty `[lo, hi)` range onto a traversal stack.
+ *
+ * @param stack - The range stack, two entries per range.
+ * @param planes - Squared plane distances, one per range.
+ * @param top - The current top of the stack.
+ * @param lo - The range start (inclusive).
+ * @param hi - The range end (exclusive).
+ * @param plane - Squared distance from the query to the range's splitting plane.
+ * @returns The new top of the stack.
+ */
+function push(stack: Int32Array, planes: Float64Array, top: number, lo: number, hi: number, plane: number): number {
+  if (hi <= lo) return top;
+  top++;
+  stack[top * 2] = lo;
+  stack[top * 2 + 1] = hi;
+  planes[top] = plane;
+  return top;
+}
+
+/**
+ * Reorder `order[lo..hi]` so that the point at position `k` is the one that
+ * would be there if sorted by `axis`, with smaller-or-equal values before it
+ * and greater-or-equal values after it (Hoare's quickselect).
+ *
+ * @param points - The flat point coordinates.
+ * @param order - Point indices to reorder.
+ * @param lo - The first position (inclusive).
+ * @param hi - The last position (inclusive).
+ * @param k - The position to select.
+ * @param axis - The coordinate to compare.
+ */
+function select(points: Float32Array, order: Int32Array, lo: number, hi: number, k: number, axis: number): void {
+  while (hi > lo) {
+    const pivot = points[order[(lo + hi) >> 1]! * 3 + axis]!;
+    let i = lo;
+    let j = hi;
+    while (i <= j) {
+      while (points[order[i]! * 3 + axis]! < pivot) i++;
+      while (points[order[j]! * 3 + axis]! > pivot) j--;
+      if (i <= j) {
+        const swap = order[i]!;
+        order[i] = order[j]!;
+        order[j] = swap;
+        i++;
+        j--;
+      }
+    }
+    if (k <= j) hi = j;
+    else if (k >= i) lo = i;
+    else return;
+  }
 }
 
 /**
- * Squared Euclidean distance between two 3D points.
+ * Squared distance from a query to the point at a tree position.
  * Uses squared distance to avoid the `Math.sqrt` cost during tree traversal;
  * the actual distance is only computed in the final result.
  *
- * @param a - First point `[l, a, b]`.
- * @param b - Second point `[l, a, b]`.
- * @returns The squared Euclidean distance.
+ * With weights, the distance is cylindrical: `wL·ΔL² + wC·ΔC² + wh·ΔH²`,
+ * where ΔH is the CIE hue difference `2·√(C₁C₂)·sin(Δh/2)`. Since
+ * `ΔC² + ΔH² = Δa² + Δb²`, unit weights give the Euclidean distance.
+ *
+ * @param query - The query point `[l, a, b]`.
+ * @param coords - Flat point coordinates (the tree's, or its pending inserts).
+ * @param position - The position of the point.
+ * @param weights - Optional `[L, C, h]` weights.
+ * @returns The squared distance.
+ */
+function sqDist(
+  query: [number, number, number],
+  coords: ArrayLike<number>,
+  position: number,
+  weights?: LchWeights,
+): number {
+  const a = coords[position * 3 + 1]!;
+  const b = coords[position * 3 + 2]!;
+  const dl = query[0] - coords[position * 3]!;
+  const da = query[1] - a;
+  const db = query[2] - b;
+  if (!weights) return dl * dl + da * da + db * db;
+
+  const dc = Math.sqrt(query[1] * query[1] + query[2] * query[2]) - Math.sqrt(a * a + b * b);
+  const dh2 = Math.max(0, da * da + db * db - dc * dc);
+  return weights[0] * dl * dl + weights[1] * dc * dc + weights[2] * dh2;
+}
+
+/**
+ * Per-axis factors that turn the squared distance to a splitting plane into a
+ * lower bound on the (weighted) squared distance to any point beyond it.
+ * Lightness planes scale by `wL`; since `ΔC² + ΔH² = Δa² + Δb²`, a and b
+ * planes scale by the smaller of the chroma and hue weights.
+ *
+ * @param weights - Optional `[L, C, h]` weights.
+ * @returns The `[l, a, b]` plane scales.
  */
-function sqDist(a: [number, number, number], b: [number, number, number]): number {
-  const dl = a[0]! - b[0]!;
-  const da = a[1]! - b[1]!;
-  const db = a[2]! - b[2]!;
-  return dl * dl + da * da + db * db;
+function planeScale(weights: LchWeights | undefined): readonly number[] {
+  if (!weights) return UNIT_SCALE;
+  const chroma = Math.min(weights[1], weights[2]);
+  return [weights[0], chroma, chroma];
 }
 
 /**
- * Bubble an element up in a max-heap (keyed by `dist`) to restore the heap property.
+ * Bubble an element up in a max-heap (keyed by distance) to restore the heap property.
  *
- * @param heap - The heap array.
+ * @param dist - Heap keys.
+ * @param pos - Heap values, moved along with their keys.
  * @param i - The index of the element to bubble up.
  */
-function heapUp(heap: { dist: number }[], i: number) {
+function heapUp(dist: Float64Array, pos: Int32Array, i: number) {
   while (i > 0) {
     const parent = (i - 1) >> 1;
-    if (heap[i]!.dist > heap[parent]!.dist) {
-      [heap[i], heap[parent]] = [heap[parent]!, heap[i]!];
+    if (dist[i]! > dist[parent]!) {
+      swap(dist, pos, i, parent);
       i = parent;
     } else {
       break;
@@ -187,24 +629,42 @@ function heapUp(heap: { dist: number }[], i: number) {
 }
 
 /**
- * Sift an element down in a max-heap (keyed by `dist`) to restore the heap property.
+ * Sift an element down in a max-heap (keyed by distance) to restore the heap property.
  *
- * @param heap - The heap array.
+ * @param dist - Heap keys.
+ * @param pos - Heap values, moved along with their keys.
  * @param i - The index of the element to sift down.
  * @param size - The number of elements in the heap.
  */
-function heapDown(heap: { dist: number }[], i: number, size: number) {
+function heapDown(dist: Float64Array, pos: Int32Array, i: number, size: number) {
   while (true) {
     let largest = i;
     const left = 2 * i + 1;
     const right = 2 * i + 2;
-    if (left < size && heap[left]!.dist > heap[largest]!.dist) largest = left;
-    if (right < size && heap[right]!.dist > heap[largest]!.dist) largest = right;
+    if (left < size && dist[left]! > dist[largest]!) largest = left;
+    if (right < size && dist[right]! > dist[largest]!) largest = right;
     if (largest !== i) {
-      [heap[i], heap[largest]] = [heap[largest]!, heap[i]!];
+      swap(dist, pos, i, largest);
       i = largest;
     } else {
       break;
     }
   }
 }
+
+/**
+ * Swap two heap entries.
+ *
+ * @param dist - Heap keys.
+ * @param pos - Heap values.
+ * @param i - The first entry.
+ * @param j - The second entry.
+ */
+function swap(dist: Float64Array, pos: Int32Array, i: number, j: number) {
+  const d = dist[i]!;
+  dist[i] = dist[j]!;
+  dist[j] = d;
+  const p = pos[i]!;
+  pos[i] = pos[j]!;
+  pos[j] = p;
+}
@@ -31,6 +31,134 @@ export const de: ColorDictionary = {
       0.836237, -0.178595, 0.139974,
       0.404618, -0.012532, -0.208618,
     ]),
+    forms: {
+      'blau': [
+        { form: 'blauer', gender: 'masculine', number: 'singular', case: 'nominative' },
+        { form: 'blauen', gender: 'masculine', number: 'singular', case: 'genitive' },
+        { form: 'blauem', gender: 'masculine', number: 'singular', case: 'dative' },
+        { form: 'blauen', gender: 'masculine', number: 'singular', case: 'accusative' },
+        { form: 'blaue', gender: 'feminine', number: 'singular', case: 'nominative' },
+        { form: 'blauer', gender: 'feminine', number: 'singular', case: 'genitive' },
+        { form: 'blauer', gender: 'feminine', number: 'singular', case: 'dative' },
+        { form: 'blaue', gender: 'feminine', number: 'singular', case: 'accusative' },
+        { form: 'blaues', gender: 'neuter', number: 'singular', case: 'nominative' },
+        { form: 'blauen', gender: 'neuter', number: 'singular', case: 'genitive' },
+        { form: 'blauem', gender: 'neuter', number: 'singular', case: 'dative' },
+        { form: 'blaues', gender: 'neuter', number: 'singular', case: 'accusative' },
+        { form: 'blaue', number: 'plural', case: 'nominative' },
+        { form: 'blauer', number: 'plural', case: 'genitive' },
+        { form: 'blauen', number: 'plural', case: 'dative' },
+        { form: 'blaue', number: 'plural', case: 'accusative' },
+      ],
+      'grün': [
+        { form: 'grüner', gender: 'masculine', number: 'singular', case: 'nominative' },
+        { form: 'grünen', gender: 'masculine', number: 'singular', case: 'genitive' },
+        { form: 'grünem', gender: 'masculine', number: 'singular', case: 'dative' },
+        { form: 'grünen', gender: 'masculine', number: 'singular', case: 'accusative' },
+        { form: 'grüne', gender: 'feminine', number: 'singular', case: 'nominative' },
+        { form: 'grüner', gender: 'feminine', number: 'singular', case: 'genitive' },
+        { form: 'grüner', gender: 'feminine', number: 'singular', case: 'dative' },
+        { form: 'grüne', gender: 'feminine', number: 'singular', case: 'accusative' },
+        { form: 'grünes', gender: 'neuter', number: 'singular', case: 'nominative' },
+        { form: 'grünen', gender: 'neuter', number: 'singular', case: 'genitive' },
+        { form: 'grünem', gender: 'neuter', number: 'singular', case: 'dative' },
+        { form: 'grünes', gender: 'neuter', number: 'singular', case: 'accusative' },
+        { form: 'grüne', number: 'plural', case: 'nominative' },
+        { form: 'grüner', number: 'plural', case: 'genitive' },
+        { form: 'grünen', number: 'plural', case: 'dative' },
+        { form: 'grüne', number: 'plural', case: 'accusative' },
+      ],
+      'rot': [
+        { form: 'roter', gender: 'masculine', number: 'singular', case: 'nominative' },
+        { form: 'roten', gender: 'masculine', number: 'singular', case: 'genitive' },
+        { form: 'rotem', gender: 'masculine', number: 'singular', case: 'dative' },
+        { form: 'roten', gender: 'masculine', number: 'singular', case: 'accusative' },
+        { form: 'rote', gender: 'feminine', number: 'singular', case: 'nominative' },
+        { form: 'roter', gender: 'feminine', number: 'singular', case: 'genitive' },
+        { form: 'roter', gender: 'feminine', number: 'singular', case: 'dative' },
+        { form: 'rote', gender: 'feminine', number: 'singular', case: 'accusative' },
+        { form: 'rotes', gender: 'neuter', number: 'singular', case: 'nominative' },
+        { form: 'roten', gender: 'neuter', number: 'singular', case: 'genitive' },
+        { form: 'rotem', gender: 'neuter', number: 'singular', case: 'dative' },
+        { form: 'rotes', gender: 'neuter', number: 'singular', case: 'accusative' },
+        { form: 'rote', number: 'plural', case: 'nominative' },
+        { form: 'roter', number: 'plural', case: 'genitive' },
+        { form: 'roten', number: 'plural', case: 'dative' },
+        { form: 'rote', number: 'plural', case: 'accusative' },
+      ],
+      'hellblau': [
+        { form: 'hellblauer', gender: 'masculine', number: 'singular', case: 'nominative' },
+        { form: 'hellblauen', gender: 'masculine', number: 'singular', case: 'genitive' },
+        { form: 'hellblauem', gender: 'masculine', number: 'singular', case: 'dative' },
+        { form: 'hellblauen', gender: 'masculine', number: 'singular', case: 'accusative' },
+        { form: 'hellblaue', gender: 'feminine', number: 'singular', case: 'nominative' },
+        { form: 'hellblauer', gender: 'feminine', number: 'singular', case: 'genitive' },
+        { form: 'hellblauer', gender: 'feminine', number: 'singular', case: 'dative' },
+        { form: 'hellblaue', gender: 'feminine', number: 'singular', case: 'accusative' },
+        { form: 'hellblaues', gender: 'neuter', number: 'singular', case: 'nominative' },
+        { form: 'hellblauen', gender: 'neuter', number: 'singular', case: 'genitive' },
+        { form: 'hellblauem', gender: 'neuter', number: 'singular', case: 'dative' },
+        { form: 'hellblaues', gender: 'neuter', number: 'singular', case: 'accusative' },
+        { form: 'hellblaue', number: 'plural', case: 'nominative' },
+        { form: 'hellblauer', number: 'plural', case: 'genitive' },
+        { form: 'hellblauen', number: 'plural', case: 'dative' },
+        { form: 'hellblaue', number: 'plural', case: 'accusative' },
+      ],
+      'gelb': [
+        { form: 'gelber', gender: 'masculine', number: 'singular', case: 'nominative' },
+        { form: 'gelben', gender: 'masculine', number: 'singular', case: 'genitive' },
+        { form: 'gelbem', gender: 'masculine', number: 'singular', case: 'dative' },
+        { form: 'gelben', gender: 'masculine', number: 'singular', case: 'accusative' },
+        { form: 'gelbe', gender: 'feminine', number: 'singular', case: 'nominative' },
+        { form: 'gelber', gender: 'feminine', number: 'singular', case: 'genitive' },
+        { form: 'gelber', gender: 'feminine', number: 'singular', case: 'dative' },
+        { form: 'gelbe', gender: 'feminine', number: 'singular', case: 'accusative' },
+        { form: 'gelbes', gender: 'neuter', number: 'singular', case: 'nominative' },
+        { form: 'gelben', gender: 'neuter', number: 'singular', case: 'genitive' },
+        { form: 'gelbem', gender: 'neuter', number: 'singular', case: 'dative' },
+        { form: 'gelbes', gender: 'neuter', number: 'singular', case: 'accusative' },
+        { form: 'gelbe', number: 'plural', case: 'nominative' },
+        { form: 'gelber', number: 'plural', case: 'genitive' },
+        { form: 'gelben', number: 'plural', case: 'dative' },
+        { form: 'gelbe', number: 'plural', case: 'accusative' },
+      ],
+      'hellgrün': [
+        { form: 'hellgrüner', gender: 'masculine', number: 'singular', case: 'nominative' },
+        { form: 'hellgrünen', gender: 'masculine', number: 'singular', case: 'genitive' },
+        { form: 'hellgrünem', gender: 'masculine', number: 'singular', case: 'dative' },
+        { form: 'hellgrünen', gender: 'masculine', number: 'singular', case: 'accusative' },
+        { form: 'hellgrüne', gender: 'feminine', number: 'singular', case: 'nominative' },
+        { form: 'hellgrüner', gender: 'feminine', number: 'singular', case: 'genitive' },
+        { form: 'hellgrüner', gender: 'feminine', number: 'singular', case: 'dative' },
+        { form: 'hellgrüne', gender: 'feminine', number: 'singular', case: 'accusative' },
+        { form: 'hellgrünes', gender: 'neuter', number: 'singular', case: 'nominative' },
+        { form: 'hellgrünen', gender: 'neuter', number: 'singular', case: 'genitive' },
+        { form: 'hellgrünem', gender: 'neuter', number: 'singular', case: 'dative' },
+        { form: 'hellgrünes', gender: 'neuter', number: 'singular', case: 'accusative' },
+        { form: 'hellgrüne', number: 'plural', case: 'nominative' },
+        { form: 'hellgrüner', number: 'plural', case: 'genitive' },
+        { form: 'hellgrünen', number: 'plural', case: 'dative' },
+        { form: 'hellgrüne', number: 'plural', case: 'accusative' },
+      ],
+      'dunkelblau': [
+        { form: 'dunkelblauer', gender: 'masculine', number: 'singular', case: 'nominative' },
+        { form: 'dunkelblauen', gender: 'masculine', number: 'singular', case: 'genitive' },
+        { form: 'dunkelblauem', gender: 'masculine', number: 'singular', case: 'dative' },
+        { form: 'dunkelblauen', gender: 'masculine', number: 'singular', case: 'accusative' },
+        { form: 'dunkelblaue', gender: 'feminine', number: 'singular', case: 'nominative' },
+        { form: 'dunkelblauer', gender: 'feminine', number: 'singular', case: 'genitive' },
+        { form: 'dunkelblauer', gender: 'feminine', number: 'singular', case: 'dative' },
+        { form: 'dunkelblaue', gender: 'feminine', number: 'singular', case: 'accusative' },
+        { form: 'dunkelblaues', gender: 'neuter', number: 'singular', case: 'nominative' },
+        { form: 'dunkelblauen', gender: 'neuter', number: 'singular', case: 'genitive' },
+        { form: 'dunkelblauem', gender: 'neuter', number: 'singular', case: 'dative' },
+        { form: 'dunkelblaues', gender: 'neuter', number: 'singular', case: 'accusative' },
+        { form: 'dunkelblaue', number: 'plural', case: 'nominative' },
+        { form: 'dunkelblauer', number: 'plural', case: 'genitive' },
+        { form: 'dunkelblauen', number: 'plural', case: 'dative' },
+        { form: 'dunkelblaue', number: 'plural', case: 'accusative' },
+      ],
+    },
   },
   extended: {
     names: [
@@ -78,4 +206,19 @@ export const de: ColorDictionary = {
       0.469309, 0.117141, 0.056554,
     ]),
   },
+  modifiers: {
+    light: 'hell{name}',
+    dark: 'dunkel{name}',
+    pale: 'blass{name}',
+    vivid: 'leuchtend {name}',
+    greyish: 'grau{name}',
+    ish: '{tint}{name}',
+    tints: {
+      'rot': 'rötlich',
+      'blau': 'bläulich',
+      'grün': 'grünlich',
+      'gelb': 'gelblich',
+      'braun': 'bräunlich',
+    },
+  },
 };
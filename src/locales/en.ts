@@ -324,5 +324,95 @@ export const en: ColorDictionary = {
       // yellowgreen
       0.784852, -0.109642, 0.147442,
     ]),
+    tree: new Uint8Array([
+      75, 68, 84, 49, 130, 0, 0, 0, 171, 93, 147, 62, 215, 77, 169, 188, 62, 33, 75, 190, 244, 83, 196, 62, 252, 142, 225, 188, 47, 79, 135, 190,
+      44, 212, 138, 62, 141, 127, 159, 188, 175, 92, 63, 190, 28, 10, 11, 63, 217, 152, 183, 189, 23, 156, 193, 188, 51, 82, 15, 63, 222, 172, 65, 188,
+      229, 94, 64, 190, 53, 39, 11, 63, 133, 233, 59, 61, 217, 236, 40, 190, 85, 132, 147, 62, 71, 4, 227, 59, 235, 230, 18, 190, 196, 36, 212, 62,
+      111, 70, 13, 61, 128, 182, 245, 189, 242, 150, 19, 63, 63, 227, 194, 189, 65, 131, 205, 188, 221, 233, 38, 63, 109, 1, 97, 189, 212, 96, 58, 190,
+      158, 94, 65, 63, 155, 0, 195, 189, 95, 96, 246, 189, 60, 135, 22, 63, 186, 47, 39, 189, 171, 122, 185, 189, 7, 180, 44, 63, 69, 102, 174, 188,
+      80, 25, 15, 190, 190, 190, 26, 63, 185, 54, 84, 61, 252, 82, 63, 190, 24, 120, 30, 63, 131, 109, 68, 188, 147, 114, 247, 188, 88, 174, 23, 63,
+      2, 241, 58, 188, 113, 118, 235, 188, 200, 93, 40, 63, 53, 208, 124, 189, 223, 50, 167, 188, 236, 138, 17, 63, 154, 65, 220, 189, 185, 227, 77, 61,
+      192, 61, 223, 62, 44, 12, 241, 189, 105, 254, 184, 61, 79, 204, 14, 63, 229, 213, 9, 190, 38, 138, 208, 61, 238, 180, 253, 62, 159, 172, 88, 189,
+      227, 25, 148, 61, 43, 81, 206, 62, 154, 181, 20, 189, 165, 218, 39, 188, 156, 83, 5, 63, 0, 0, 0, 0, 0, 0, 0, 0, 118, 166, 20, 63,
+      163, 91, 47, 189, 23, 243, 243, 61, 201, 119, 25, 63, 252, 168, 166, 189, 112, 177, 226, 61, 140, 242, 48, 63, 166, 13, 231, 189, 110, 190, 145, 188,
+      96, 29, 47, 63, 210, 167, 5, 190, 173, 79, 121, 61, 116, 235, 61, 63, 121, 148, 58, 190, 109, 113, 13, 62, 176, 56, 64, 63, 23, 71, 133, 189,
+      194, 133, 60, 61, 113, 28, 60, 63, 0, 0, 0, 0, 0, 0, 0, 0, 15, 238, 38, 63, 132, 188, 158, 60, 24, 233, 5, 62, 6, 103, 64, 63,
+      37, 34, 124, 60, 14, 162, 21, 62, 172, 87, 49, 63, 59, 195, 84, 61, 234, 234, 142, 60, 211, 164, 8, 63, 21, 114, 5, 62, 124, 213, 90, 190,
+      131, 134, 10, 63, 38, 55, 26, 62, 66, 64, 46, 190, 12, 143, 173, 62, 2, 216, 192, 61, 84, 54, 28, 190, 85, 107, 225, 62, 37, 150, 180, 61,
+      165, 19, 9, 190, 3, 38, 32, 63, 252, 251, 28, 62, 70, 97, 7, 190, 36, 209, 3, 63, 79, 231, 42, 62, 116, 11, 77, 190, 181, 194, 228, 62,
+      108, 7, 51, 62, 28, 152, 220, 189, 118, 169, 13, 63, 68, 78, 95, 62, 152, 137, 34, 189, 112, 125, 32, 63, 107, 71, 145, 61, 170, 154, 16, 190,
+      208, 11, 67, 63, 92, 56, 32, 62, 47, 111, 206, 189, 236, 190, 51, 63, 179, 154, 30, 62, 196, 210, 192, 189, 93, 140, 45, 63, 35, 134, 13, 62,
+      97, 56, 215, 58, 172, 113, 58, 63, 182, 214, 71, 62, 111, 214, 224, 188, 232, 160, 51, 63, 234, 147, 140, 62, 59, 55, 45, 190, 232, 160, 51, 63,
+      234, 147, 140, 62, 59, 55, 45, 190, 210, 169, 39, 63, 52, 157, 133, 62, 118, 54, 100, 188, 19, 130, 57, 63, 139, 166, 3, 62, 235, 114, 74, 61,
+      139, 141, 29, 63, 60, 164, 8, 62, 255, 93, 95, 61, 134, 199, 6, 63, 177, 219, 167, 61, 222, 141, 165, 61, 154, 10, 241, 62, 79, 4, 145, 61,
+      22, 24, 178, 61, 198, 221, 192, 62, 88, 32, 10, 62, 141, 155, 154, 61, 113, 57, 18, 63, 197, 112, 85, 62, 218, 27, 156, 61, 15, 186, 204, 62,
+      212, 158, 18, 62, 75, 29, 164, 61, 197, 88, 254, 62, 63, 55, 36, 62, 67, 2, 166, 61, 232, 103, 34, 63, 79, 231, 202, 61, 118, 27, 244, 61,
+      60, 48, 64, 63, 13, 56, 171, 61, 11, 156, 140, 61, 14, 158, 45, 63, 148, 161, 106, 61, 71, 86, 222, 61, 167, 35, 64, 63, 27, 218, 192, 61,
+      79, 5, 28, 62, 94, 48, 60, 63, 106, 77, 3, 62, 44, 73, 222, 61, 23, 41, 60, 63, 100, 232, 8, 62, 1, 246, 145, 61, 105, 59, 50, 63,
+      14, 50, 41, 62, 152, 25, 214, 61, 205, 2, 41, 63, 143, 111, 63, 62, 19, 15, 8, 62, 45, 121, 68, 63, 31, 73, 201, 188, 45, 96, 194, 61,
+      36, 157, 69, 63, 216, 244, 0, 190, 177, 50, 26, 189, 219, 107, 73, 63, 14, 50, 233, 189, 97, 196, 190, 188, 123, 132, 82, 63, 192, 90, 5, 190,
+      88, 1, 62, 188, 229, 212, 70, 63, 83, 178, 220, 189, 94, 104, 174, 60, 217, 151, 80, 63, 105, 28, 106, 189, 113, 90, 112, 189, 22, 20, 82, 63,
+      103, 69, 84, 189, 29, 232, 161, 189, 153, 73, 80, 63, 8, 32, 53, 188, 233, 100, 41, 189, 22, 50, 91, 63, 76, 85, 26, 189, 39, 216, 255, 188,
+      113, 5, 96, 63, 230, 62, 57, 189, 134, 141, 178, 188, 59, 200, 103, 63, 217, 7, 25, 190, 204, 95, 33, 189, 59, 200, 103, 63, 217, 7, 25, 190,
+      204, 95, 33, 189, 48, 43, 104, 63, 35, 216, 120, 189, 200, 148, 143, 188, 231, 84, 122, 63, 103, 101, 251, 188, 40, 70, 22, 188, 229, 43, 125, 63,
+      135, 110, 118, 188, 84, 200, 149, 187, 115, 189, 125, 63, 204, 155, 67, 188, 245, 102, 84, 59, 155, 30, 124, 63, 132, 243, 169, 188, 210, 166, 106, 60,
+      29, 61, 106, 63, 195, 14, 3, 190, 203, 244, 203, 60, 255, 230, 93, 63, 60, 189, 66, 190, 47, 22, 166, 61, 106, 251, 95, 63, 165, 192, 82, 190,
+      161, 105, 233, 61, 3, 207, 93, 63, 86, 128, 111, 190, 83, 206, 55, 62, 145, 186, 97, 63, 109, 85, 66, 190, 156, 140, 58, 62, 114, 53, 94, 63,
+      97, 54, 1, 190, 124, 38, 187, 61, 16, 236, 72, 63, 252, 139, 224, 189, 9, 251, 22, 62, 109, 3, 99, 63, 76, 166, 138, 188, 102, 192, 57, 62,
+      71, 232, 99, 63, 68, 20, 67, 190, 147, 86, 60, 62, 152, 78, 103, 63, 188, 179, 6, 190, 126, 30, 195, 61, 106, 218, 105, 63, 108, 150, 203, 188,
+      128, 126, 223, 61, 148, 189, 105, 63, 15, 185, 25, 190, 144, 22, 55, 62, 205, 201, 107, 63, 67, 26, 149, 188, 192, 34, 159, 61, 44, 244, 125, 63,
+      193, 0, 66, 188, 97, 139, 29, 61, 15, 154, 121, 63, 71, 231, 124, 188, 225, 178, 74, 61, 194, 81, 122, 63, 249, 217, 72, 188, 130, 27, 105, 61,
+      201, 172, 118, 63, 103, 10, 29, 188, 244, 106, 0, 61, 188, 234, 93, 63, 0, 0, 0, 0, 0, 0, 0, 0, 184, 203, 78, 63, 0, 0, 0, 0,
+      0, 0, 0, 0, 76, 253, 100, 63, 0, 0, 0, 0, 0, 0, 0, 0, 152, 79, 110, 63, 25, 86, 241, 59, 178, 75, 212, 188, 77, 133, 72, 63,
+      175, 33, 184, 61, 206, 85, 115, 189, 177, 82, 85, 63, 125, 9, 21, 61, 180, 85, 201, 188, 108, 238, 88, 63, 149, 127, 173, 61, 160, 252, 93, 60,
+      160, 164, 112, 63, 37, 202, 222, 60, 164, 111, 82, 60, 249, 162, 121, 63, 188, 65, 180, 187, 216, 215, 58, 188, 209, 91, 120, 63, 0, 0, 0, 0,
+      0, 0, 0, 0, 196, 121, 124, 63, 154, 7, 176, 58, 145, 238, 103, 60, 157, 42, 123, 63, 253, 188, 41, 59, 28, 205, 17, 188, 205, 228, 119, 63,
+      232, 18, 142, 60, 227, 197, 194, 186, 250, 42, 125, 63, 188, 4, 167, 59, 29, 91, 207, 58, 81, 220, 121, 63, 148, 80, 250, 59, 15, 38, 69, 60,
+      40, 210, 117, 63, 57, 241, 213, 59, 163, 232, 129, 60, 72, 169, 104, 63, 4, 115, 244, 59, 70, 9, 122, 61, 141, 67, 73, 63, 151, 172, 138, 60,
+      32, 12, 124, 61, 82, 153, 106, 63, 223, 24, 130, 60, 183, 239, 145, 61, 85, 246, 77, 63, 209, 8, 182, 60, 95, 210, 152, 61, 224, 71, 105, 63,
+      201, 200, 217, 60, 206, 80, 92, 61, 135, 51, 75, 63, 145, 183, 188, 61, 234, 120, 172, 61, 7, 180, 72, 63, 185, 24, 131, 61, 38, 111, 224, 61,
+      181, 251, 109, 63, 34, 223, 37, 60, 207, 192, 136, 61, 72, 248, 126, 63, 205, 60, 185, 187, 206, 222, 153, 60, 87, 235, 120, 63, 148, 189, 37, 59,
+      6, 100, 175, 60, 102, 48, 122, 63, 90, 104, 103, 187, 175, 235, 23, 61, 187, 68, 117, 63, 93, 253, 216, 59, 100, 87, 26, 61, 104, 90, 114, 63,
+      213, 236, 1, 60, 206, 51, 246, 60, 230, 204, 114, 63, 64, 78, 24, 60, 128, 17, 52, 61, 167, 207, 110, 63, 245, 72, 131, 60, 163, 59, 72, 61,
+      18, 0, 0, 0, 77, 0, 0, 0, 90, 0, 0, 0, 122, 0, 0, 0, 107, 0, 0, 0, 116, 0, 0, 0, 85, 0, 0, 0, 31, 0, 0, 0,
+      19, 0, 0, 0, 38, 0, 0, 0, 36, 0, 0, 0, 120, 0, 0, 0, 14, 0, 0, 0, 81, 0, 0, 0, 68, 0, 0, 0, 117, 0, 0, 0,
+      10, 0, 0, 0, 111, 0, 0, 0, 22, 0, 0, 0, 41, 0, 0, 0, 25, 0, 0, 0, 32, 0, 0, 0, 37, 0, 0, 0, 92, 0, 0, 0,
+      93, 0, 0, 0, 66, 0, 0, 0, 80, 0, 0, 0, 72, 0, 0, 0, 30, 0, 0, 0, 21, 0, 0, 0, 20, 0, 0, 0, 46, 0, 0, 0,
+      106, 0, 0, 0, 8, 0, 0, 0, 27, 0, 0, 0, 51, 0, 0, 0, 105, 0, 0, 0, 78, 0, 0, 0, 34, 0, 0, 0, 24, 0, 0, 0,
+      84, 0, 0, 0, 79, 0, 0, 0, 126, 0, 0, 0, 95, 0, 0, 0, 99, 0, 0, 0, 49, 0, 0, 0, 42, 0, 0, 0, 74, 0, 0, 0,
+      35, 0, 0, 0, 59, 0, 0, 0, 50, 0, 0, 0, 113, 0, 0, 0, 108, 0, 0, 0, 75, 0, 0, 0, 16, 0, 0, 0, 28, 0, 0, 0,
+      39, 0, 0, 0, 12, 0, 0, 0, 29, 0, 0, 0, 102, 0, 0, 0, 26, 0, 0, 0, 13, 0, 0, 0, 109, 0, 0, 0, 124, 0, 0, 0,
+      94, 0, 0, 0, 23, 0, 0, 0, 33, 0, 0, 0, 83, 0, 0, 0, 125, 0, 0, 0, 76, 0, 0, 0, 115, 0, 0, 0, 67, 0, 0, 0,
+      69, 0, 0, 0, 58, 0, 0, 0, 104, 0, 0, 0, 2, 0, 0, 0, 17, 0, 0, 0, 98, 0, 0, 0, 60, 0, 0, 0, 4, 0, 0, 0,
+      86, 0, 0, 0, 48, 0, 0, 0, 3, 0, 0, 0, 82, 0, 0, 0, 119, 0, 0, 0, 71, 0, 0, 0, 56, 0, 0, 0, 63, 0, 0, 0,
+      129, 0, 0, 0, 45, 0, 0, 0, 11, 0, 0, 0, 97, 0, 0, 0, 53, 0, 0, 0, 47, 0, 0, 0, 96, 0, 0, 0, 70, 0, 0, 0,
+      61, 0, 0, 0, 57, 0, 0, 0, 5, 0, 0, 0, 62, 0, 0, 0, 114, 0, 0, 0, 43, 0, 0, 0, 54, 0, 0, 0, 103, 0, 0, 0,
+      123, 0, 0, 0, 64, 0, 0, 0, 87, 0, 0, 0, 0, 0, 0, 0, 128, 0, 0, 0, 40, 0, 0, 0, 44, 0, 0, 0, 55, 0, 0, 0,
+      118, 0, 0, 0, 112, 0, 0, 0, 73, 0, 0, 0, 127, 0, 0, 0, 121, 0, 0, 0, 89, 0, 0, 0, 9, 0, 0, 0, 101, 0, 0, 0,
+      65, 0, 0, 0, 110, 0, 0, 0, 88, 0, 0, 0, 52, 0, 0, 0, 91, 0, 0, 0, 15, 0, 0, 0, 100, 0, 0, 0, 1, 0, 0, 0,
+      7, 0, 0, 0, 6, 0, 0, 0, 1, 0, 2, 0, 1, 0, 2, 0, 0, 0, 2, 0, 1, 0, 2, 0, 2, 0, 2, 0, 1, 0, 2, 0,
+      0, 0, 2, 0, 1, 0, 2, 0, 1, 1, 0, 2, 0, 1, 0, 2, 0, 0, 0, 2, 0, 1, 0, 2, 0, 2, 0, 2, 0, 1, 0, 2,
+      0, 0, 0, 2, 0, 1, 0, 2, 0, 0, 1, 0, 2, 0, 1, 0, 2, 0, 0, 0, 2, 0, 1, 0, 2, 0, 2, 0, 2, 0, 1, 0,
+      2, 0, 0, 0, 2, 0, 1, 0, 2, 0, 1, 0, 2, 0, 1, 0, 2, 0, 0, 0, 2, 0, 1, 0, 2, 0, 2, 0, 2, 0, 1, 0,
+      2, 0, 0, 0, 2, 0, 1, 0, 2, 0,
+    ]),
+  },
+  modifiers: {
+    light: 'light {name}',
+    dark: 'dark {name}',
+    pale: 'pale {name}',
+    vivid: 'vivid {name}',
+    greyish: 'greyish {name}',
+    ish: '{tint} {name}',
+    tints: {
+      'red': 'reddish',
+      'green': 'greenish',
+      'yellow': 'yellowish',
+      'blue': 'bluish',
+      'brown': 'brownish',
+      'orange': 'orangish',
+      'pink': 'pinkish',
+      'purple': 'purplish',
+    },
   },
 };
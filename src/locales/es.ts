@@ -31,6 +31,35 @@ export const es: ColorDictionary = {
       0.781457, -0.106591, -0.080104,
       0.617564, 0.246149, -0.066996,
     ]),
+    forms: {
+      'verde': [
+        { form: 'verdes', number: 'plural' },
+      ],
+      'azul': [
+        { form: 'azules', number: 'plural' },
+      ],
+      'morado': [
+        { form: 'morado', gender: 'masculine', number: 'singular' },
+        { form: 'morada', gender: 'feminine', number: 'singular' },
+        { form: 'morados', gender: 'masculine', number: 'plural' },
+        { form: 'moradas', gender: 'feminine', number: 'plural' },
+      ],
+      'rojo': [
+        { form: 'rojo', gender: 'masculine', number: 'singular' },
+        { form: 'roja', gender: 'feminine', number: 'singular' },
+        { form: 'rojos', gender: 'masculine', number: 'plural' },
+        { form: 'rojas', gender: 'feminine', number: 'plural' },
+      ],
+      'amarillo': [
+        { form: 'amarillo', gender: 'masculine', number: 'singular' },
+        { form: 'amarilla', gender: 'feminine', number: 'singular' },
+        { form: 'amarillos', gender: 'masculine', number: 'plural' },
+        { form: 'amarillas', gender: 'feminine', number: 'plural' },
+      ],
+      'celeste': [
+        { form: 'celestes', number: 'plural' },
+      ],
+    },
   },
   extended: {
     names: [
@@ -78,4 +107,21 @@ export const es: ColorDictionary = {
       0.457238, -0.016659, -0.253278,
     ]),
   },
+  modifiers: {
+    light: '{name} claro',
+    dark: '{name} oscuro',
+    pale: '{name} pálido',
+    vivid: '{name} vivo',
+    greyish: '{name} grisáceo',
+    ish: '{name} {tint}',
+    tints: {
+      'rojo': 'rojizo',
+      'verde': 'verdoso',
+      'azul': 'azulado',
+      'amarillo': 'amarillento',
+      'morado': 'amoratado',
+      'rosa': 'rosado',
+      'naranja': 'anaranjado',
+    },
+  },
 };
@@ -31,6 +31,38 @@ export const fr: ColorDictionary = {
       0.769729, -0.094656, -0.097983,
       0.633333, 0.254669, -0.072489,
     ]),
+    forms: {
+      'bleu': [
+        { form: 'bleu', gender: 'masculine', number: 'singular' },
+        { form: 'bleue', gender: 'feminine', number: 'singular' },
+        { form: 'bleus', gender: 'masculine', number: 'plural' },
+        { form: 'bleues', gender: 'feminine', number: 'plural' },
+      ],
+      'vert': [
+        { form: 'vert', gender: 'masculine', number: 'singular' },
+        { form: 'verte', gender: 'feminine', number: 'singular' },
+        { form: 'verts', gender: 'masculine', number: 'plural' },
+        { form: 'vertes', gender: 'feminine', number: 'plural' },
+      ],
+      'violet': [
+        { form: 'violet', gender: 'masculine', number: 'singular' },
+        { form: 'violette', gender: 'feminine', number: 'singular' },
+        { form: 'violets', gender: 'masculine', number: 'plural' },
+        { form: 'violettes', gender: 'feminine', number: 'plural' },
+      ],
+      'rose': [
+        { form: 'roses', number: 'plural' },
+      ],
+      'rouge': [
+        { form: 'rouges', number: 'plural' },
+      ],
+      'jaune': [
+        { form: 'jaunes', number: 'plural' },
+      ],
+      'mauve': [
+        { form: 'mauves', number: 'plural' },
+      ],
+    },
   },
   extended: {
     names: [
@@ -78,4 +110,21 @@ export const fr: ColorDictionary = {
       0.462344, 0.144095, 0.038434,
     ]),
   },
+  modifiers: {
+    light: '{name} clair',
+    dark: '{name} foncé',
+    pale: '{name} pâle',
+    vivid: '{name} vif',
+    greyish: '{name} grisâtre',
+    ish: '{name} {tint}',
+    tints: {
+      'rouge': 'rougeâtre',
+      'vert': 'verdâtre',
+      'bleu': 'bleuâtre',
+      'jaune': 'jaunâtre',
+      'violet': 'violacé',
+      'rose': 'rosâtre',
+      'orange': 'orangé',
+    },
+  },
 };
@@ -78,4 +78,21 @@ export const it: ColorDictionary = {
       0.825715, -0.123014, -0.073318,
     ]),
   },
+  modifiers: {
+    light: '{name} chiaro',
+    dark: '{name} scuro',
+    pale: '{name} pallido',
+    vivid: '{name} acceso',
+    greyish: '{name} grigiastro',
+    ish: '{name} {tint}',
+    tints: {
+      'rosso': 'rossastro',
+      'verde': 'verdastro',
+      'blu': 'bluastro',
+      'giallo': 'giallastro',
+      'viola': 'violaceo',
+      'arancione': 'aranciato',
+      'rosa': 'rosato',
+    },
+  },
 };
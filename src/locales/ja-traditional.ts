@@ -203,5 +203,59 @@ export const ja_traditional: ColorDictionary = {
       0.325037, 0, 0,
       0.233731, 0.018057, 0.017536,
     ]),
+    tree: new Uint8Array([
+      75, 68, 84, 49, 97, 0, 0, 0, 7, 153, 228, 62, 26, 20, 205, 188, 183, 155, 16, 190, 154, 96, 184, 62, 78, 97, 37, 188, 209, 146, 199, 189,
+      186, 75, 234, 62, 45, 34, 74, 189, 61, 181, 154, 189, 236, 79, 162, 62, 206, 55, 34, 188, 53, 94, 186, 189, 159, 232, 122, 62, 189, 109, 38, 60,
+      200, 206, 187, 189, 198, 166, 245, 61, 198, 51, 40, 61, 80, 109, 48, 189, 252, 53, 249, 62, 215, 109, 208, 60, 154, 235, 244, 189, 33, 5, 19, 63,
+      167, 8, 176, 189, 44, 40, 76, 189, 143, 255, 38, 63, 226, 2, 208, 189, 17, 196, 57, 189, 91, 97, 18, 63, 34, 226, 134, 189, 42, 225, 137, 189,
+      181, 107, 10, 63, 13, 23, 57, 188, 121, 174, 239, 189, 187, 97, 35, 63, 8, 34, 11, 61, 201, 58, 188, 189, 73, 245, 21, 63, 176, 227, 63, 186,
+      108, 204, 235, 186, 64, 107, 166, 62, 0, 0, 0, 0, 0, 0, 0, 0, 109, 145, 188, 62, 234, 177, 173, 189, 74, 96, 51, 61, 1, 223, 133, 62,
+      75, 228, 130, 60, 169, 78, 135, 60, 46, 87, 111, 62, 70, 236, 147, 60, 168, 167, 143, 60, 22, 52, 229, 62, 202, 106, 58, 61, 6, 100, 47, 61,
+      212, 243, 238, 62, 205, 34, 148, 189, 118, 55, 15, 61, 227, 251, 2, 63, 215, 194, 236, 189, 6, 45, 100, 61, 85, 193, 24, 63, 99, 95, 18, 190,
+      47, 48, 171, 61, 85, 81, 16, 63, 126, 26, 55, 189, 93, 108, 90, 61, 148, 21, 35, 63, 74, 97, 94, 188, 230, 174, 165, 60, 124, 15, 19, 63,
+      37, 61, 140, 60, 26, 225, 141, 61, 151, 174, 4, 63, 159, 172, 88, 61, 94, 190, 213, 189, 131, 222, 251, 62, 124, 10, 192, 61, 63, 225, 108, 189,
+      167, 122, 234, 62, 210, 29, 132, 61, 89, 53, 8, 61, 37, 31, 147, 62, 171, 208, 192, 61, 120, 8, 99, 189, 215, 24, 220, 62, 19, 183, 234, 61,
+      234, 66, 108, 189, 233, 42, 165, 62, 202, 84, 1, 62, 2, 214, 170, 60, 183, 235, 1, 63, 55, 140, 130, 61, 183, 95, 190, 189, 132, 13, 3, 63,
+      222, 228, 215, 61, 82, 158, 185, 189, 92, 171, 9, 63, 214, 144, 152, 61, 149, 181, 77, 189, 28, 205, 29, 63, 186, 107, 25, 62, 67, 227, 9, 61,
+      173, 246, 40, 63, 73, 189, 71, 62, 185, 138, 69, 188, 27, 190, 25, 63, 61, 126, 31, 62, 217, 237, 179, 59, 35, 101, 219, 62, 9, 26, 147, 61,
+      108, 234, 60, 61, 5, 77, 203, 62, 192, 120, 134, 61, 3, 95, 81, 61, 235, 84, 233, 62, 228, 191, 192, 61, 167, 88, 117, 61, 2, 44, 218, 62,
+      81, 217, 208, 61, 106, 219, 144, 61, 211, 18, 3, 63, 63, 196, 38, 62, 59, 53, 151, 61, 120, 237, 226, 62, 87, 124, 227, 61, 153, 188, 161, 61,
+      208, 95, 8, 63, 120, 150, 48, 62, 129, 124, 169, 61, 246, 9, 24, 63, 160, 252, 93, 61, 134, 115, 141, 61, 172, 169, 40, 63, 7, 179, 9, 62,
+      128, 40, 8, 62, 77, 191, 24, 63, 211, 247, 10, 62, 9, 51, 109, 61, 110, 110, 36, 63, 255, 91, 25, 62, 129, 95, 3, 62, 110, 110, 36, 63,
+      255, 91, 25, 62, 129, 95, 3, 62, 8, 28, 45, 63, 210, 194, 53, 62, 236, 49, 145, 188, 57, 154, 59, 63, 10, 130, 167, 189, 106, 247, 43, 189,
+      80, 171, 76, 63, 14, 161, 138, 189, 84, 224, 228, 188, 171, 177, 64, 63, 204, 68, 145, 189, 215, 190, 0, 60, 30, 251, 89, 63, 181, 135, 61, 189,
+      18, 20, 63, 189, 132, 184, 74, 63, 14, 73, 45, 189, 207, 187, 145, 189, 125, 118, 52, 63, 24, 180, 144, 186, 7, 66, 178, 185, 116, 207, 98, 63,
+      14, 161, 202, 188, 185, 79, 142, 188, 85, 51, 99, 63, 127, 108, 18, 189, 172, 142, 156, 188, 188, 201, 127, 63, 77, 104, 146, 186, 82, 152, 119, 59,
+      201, 146, 101, 63, 156, 80, 136, 186, 228, 75, 168, 185, 204, 210, 118, 63, 0, 0, 0, 0, 0, 0, 0, 0, 104, 7, 124, 63, 20, 34, 96, 186,
+      78, 39, 217, 59, 183, 66, 64, 63, 13, 165, 150, 189, 39, 222, 129, 60, 101, 225, 59, 63, 110, 82, 209, 189, 0, 229, 47, 61, 71, 204, 80, 63,
+      227, 51, 185, 189, 118, 167, 43, 62, 126, 224, 82, 63, 114, 224, 85, 189, 173, 222, 161, 61, 8, 170, 70, 63, 118, 108, 68, 189, 29, 204, 134, 61,
+      86, 211, 77, 63, 122, 55, 22, 189, 142, 175, 221, 61, 161, 248, 85, 63, 105, 200, 56, 189, 141, 70, 30, 62, 215, 81, 105, 63, 131, 224, 241, 188,
+      255, 120, 15, 62, 130, 142, 86, 63, 242, 93, 170, 189, 219, 193, 40, 62, 20, 7, 100, 63, 61, 213, 161, 188, 153, 156, 58, 62, 253, 105, 119, 63,
+      107, 186, 158, 186, 79, 2, 155, 60, 20, 7, 100, 63, 61, 213, 161, 188, 153, 156, 58, 62, 235, 26, 65, 63, 168, 170, 208, 57, 179, 120, 177, 186,
+      59, 54, 78, 63, 20, 119, 60, 60, 40, 210, 61, 189, 140, 46, 63, 63, 158, 207, 128, 60, 252, 169, 113, 61, 234, 122, 82, 63, 8, 32, 149, 61,
+      161, 185, 14, 61, 8, 28, 45, 63, 210, 194, 53, 62, 236, 49, 145, 188, 96, 35, 57, 63, 239, 2, 165, 61, 177, 219, 231, 60, 234, 122, 82, 63,
+      8, 32, 149, 61, 161, 185, 14, 61, 184, 204, 105, 63, 13, 28, 80, 60, 190, 221, 146, 187, 192, 148, 121, 63, 79, 63, 40, 60, 136, 44, 82, 59,
+      189, 198, 118, 63, 16, 63, 127, 60, 9, 81, 62, 58, 14, 192, 82, 63, 201, 142, 141, 61, 151, 56, 114, 57, 10, 191, 84, 63, 23, 244, 158, 61,
+      99, 68, 162, 59, 36, 126, 93, 63, 223, 252, 134, 60, 38, 227, 152, 61, 177, 54, 50, 63, 28, 123, 214, 61, 165, 132, 16, 62, 104, 89, 55, 63,
+      146, 120, 185, 61, 17, 224, 20, 62, 177, 54, 50, 63, 28, 123, 214, 61, 165, 132, 16, 62, 31, 188, 46, 63, 226, 232, 10, 62, 202, 106, 186, 61,
+      11, 123, 46, 63, 234, 61, 5, 62, 19, 239, 224, 61, 44, 239, 58, 63, 199, 71, 11, 60, 3, 204, 156, 61, 247, 147, 61, 63, 241, 240, 158, 60,
+      194, 133, 252, 61, 43, 217, 85, 63, 191, 39, 86, 60, 200, 179, 43, 62, 150, 93, 80, 63, 135, 140, 199, 60, 199, 14, 42, 62, 76, 169, 63, 63,
+      81, 188, 202, 61, 158, 39, 158, 61, 136, 99, 65, 63, 172, 202, 126, 61, 228, 101, 29, 62, 61, 0, 0, 0, 62, 0, 0, 0, 64, 0, 0, 0,
+      63, 0, 0, 0, 65, 0, 0, 0, 94, 0, 0, 0, 68, 0, 0, 0, 52, 0, 0, 0, 51, 0, 0, 0, 53, 0, 0, 0, 60, 0, 0, 0,
+      67, 0, 0, 0, 85, 0, 0, 0, 95, 0, 0, 0, 47, 0, 0, 0, 83, 0, 0, 0, 96, 0, 0, 0, 82, 0, 0, 0, 46, 0, 0, 0,
+      45, 0, 0, 0, 44, 0, 0, 0, 43, 0, 0, 0, 86, 0, 0, 0, 81, 0, 0, 0, 70, 0, 0, 0, 75, 0, 0, 0, 19, 0, 0, 0,
+      69, 0, 0, 0, 73, 0, 0, 0, 76, 0, 0, 0, 71, 0, 0, 0, 72, 0, 0, 0, 74, 0, 0, 0, 8, 0, 0, 0, 6, 0, 0, 0,
+      9, 0, 0, 0, 20, 0, 0, 0, 84, 0, 0, 0, 18, 0, 0, 0, 21, 0, 0, 0, 17, 0, 0, 0, 22, 0, 0, 0, 13, 0, 0, 0,
+      80, 0, 0, 0, 25, 0, 0, 0, 14, 0, 0, 0, 23, 0, 0, 0, 24, 0, 0, 0, 7, 0, 0, 0, 54, 0, 0, 0, 57, 0, 0, 0,
+      49, 0, 0, 0, 58, 0, 0, 0, 59, 0, 0, 0, 87, 0, 0, 0, 56, 0, 0, 0, 55, 0, 0, 0, 93, 0, 0, 0, 89, 0, 0, 0,
+      91, 0, 0, 0, 90, 0, 0, 0, 50, 0, 0, 0, 48, 0, 0, 0, 38, 0, 0, 0, 40, 0, 0, 0, 42, 0, 0, 0, 41, 0, 0, 0,
+      37, 0, 0, 0, 36, 0, 0, 0, 39, 0, 0, 0, 35, 0, 0, 0, 92, 0, 0, 0, 34, 0, 0, 0, 88, 0, 0, 0, 66, 0, 0, 0,
+      77, 0, 0, 0, 11, 0, 0, 0, 5, 0, 0, 0, 10, 0, 0, 0, 12, 0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 1, 0, 0, 0,
+      4, 0, 0, 0, 3, 0, 0, 0, 79, 0, 0, 0, 28, 0, 0, 0, 29, 0, 0, 0, 27, 0, 0, 0, 15, 0, 0, 0, 26, 0, 0, 0,
+      78, 0, 0, 0, 31, 0, 0, 0, 33, 0, 0, 0, 32, 0, 0, 0, 16, 0, 0, 0, 30, 0, 0, 0, 0, 2, 0, 1, 0, 2, 0, 0,
+      2, 1, 0, 2, 2, 0, 2, 1, 0, 2, 0, 0, 2, 1, 0, 2, 1, 0, 2, 1, 0, 2, 0, 0, 2, 1, 0, 2, 2, 0, 2, 1,
+      0, 2, 0, 0, 2, 1, 0, 2, 0, 0, 2, 0, 1, 0, 2, 0, 0, 2, 1, 0, 2, 2, 0, 2, 1, 0, 2, 0, 0, 2, 1, 0,
+      2, 1, 0, 2, 1, 0, 2, 0, 0, 2, 1, 0, 2, 2, 0, 2, 1, 0, 2, 0, 0, 2, 1, 0, 2,
+    ]),
   },
 };
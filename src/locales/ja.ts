@@ -78,4 +78,20 @@ export const ja: ColorDictionary = {
       0.687934, 0.273186, -0.149944,
     ]),
   },
+  modifiers: {
+    light: '明るい{name}',
+    dark: '暗い{name}',
+    pale: '淡い{name}',
+    vivid: '鮮やかな{name}',
+    greyish: '灰みの{name}',
+    ish: '{tint}{name}',
+    tints: {
+      '赤': '赤みがかった',
+      '青': '青みがかった',
+      '緑': '緑がかった',
+      '黄色': '黄みがかった',
+      '紫': '紫がかった',
+      'ピンク': 'ピンクがかった',
+    },
+  },
 };
@@ -78,4 +78,22 @@ export const nl: ColorDictionary = {
       0.669965, 0.094823, -0.124376,
     ]),
   },
+  modifiers: {
+    light: 'licht{name}',
+    dark: 'donker{name}',
+    pale: 'bleek{name}',
+    vivid: 'fel{name}',
+    greyish: 'grijs{name}',
+    ish: '{tint}{name}',
+    tints: {
+      'rood': 'rood',
+      'blauw': 'blauw',
+      'groen': 'groen',
+      'geel': 'geel',
+      'bruin': 'bruin',
+      'oranje': 'oranje',
+      'paars': 'paars',
+      'roze': 'roze',
+    },
+  },
 };
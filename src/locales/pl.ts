@@ -31,6 +31,294 @@ export const pl: ColorDictionary = {
       0.383067, -0.00635, -0.195922,
       0.475671, -0.024362, -0.26658,
     ]),
+    forms: {
+      'niebieski': [
+        { form: 'niebieski', gender: 'masculine', number: 'singular', case: 'nominative' },
+        { form: 'niebieskiego', gender: 'masculine', number: 'singular', case: 'genitive' },
+        { form: 'niebieskiemu', gender: 'masculine', number: 'singular', case: 'dative' },
+        { form: 'niebieski', gender: 'masculine', number: 'singular', case: 'accusative' },
+        { form: 'niebieskim', gender: 'masculine', number: 'singular', case: 'instrumental' },
+        { form: 'niebieskim', gender: 'masculine', number: 'singular', case: 'locative' },
+        { form: 'niebieska', gender: 'feminine', number: 'singular', case: 'nominative' },
+        { form: 'niebieskiej', gender: 'feminine', number: 'singular', case: 'genitive' },
+        { form: 'niebieskiej', gender: 'feminine', number: 'singular', case: 'dative' },
+        { form: 'niebieską', gender: 'feminine', number: 'singular', case: 'accusative' },
+        { form: 'niebieską', gender: 'feminine', number: 'singular', case: 'instrumental' },
+        { form: 'niebieskiej', gender: 'feminine', number: 'singular', case: 'locative' },
+        { form: 'niebieskie', gender: 'neuter', number: 'singular', case: 'nominative' },
+        { form: 'niebieskiego', gender: 'neuter', number: 'singular', case: 'genitive' },
+        { form: 'niebieskiemu', gender: 'neuter', number: 'singular', case: 'dative' },
+        { form: 'niebieskie', gender: 'neuter', number: 'singular', case: 'accusative' },
+        { form: 'niebieskim', gender: 'neuter', number: 'singular', case: 'instrumental' },
+        { form: 'niebieskim', gender: 'neuter', number: 'singular', case: 'locative' },
+        { form: 'niebieskie', number: 'plural', case: 'nominative' },
+        { form: 'niebieskich', number: 'plural', case: 'genitive' },
+        { form: 'niebieskim', number: 'plural', case: 'dative' },
+        { form: 'niebieskie', number: 'plural', case: 'accusative' },
+        { form: 'niebieskimi', number: 'plural', case: 'instrumental' },
+        { form: 'niebieskich', number: 'plural', case: 'locative' },
+      ],
+      'zielony': [
+        { form: 'zielony', gender: 'masculine', number: 'singular', case: 'nominative' },
+        { form: 'zielonego', gender: 'masculine', number: 'singular', case: 'genitive' },
+        { form: 'zielonemu', gender: 'masculine', number: 'singular', case: 'dative' },
+        { form: 'zielony', gender: 'masculine', number: 'singular', case: 'accusative' },
+        { form: 'zielonym', gender: 'masculine', number: 'singular', case: 'instrumental' },
+        { form: 'zielonym', gender: 'masculine', number: 'singular', case: 'locative' },
+        { form: 'zielona', gender: 'feminine', number: 'singular', case: 'nominative' },
+        { form: 'zielonej', gender: 'feminine', number: 'singular', case: 'genitive' },
+        { form: 'zielonej', gender: 'feminine', number: 'singular', case: 'dative' },
+        { form: 'zieloną', gender: 'feminine', number: 'singular', case: 'accusative' },
+        { form: 'zieloną', gender: 'feminine', number: 'singular', case: 'instrumental' },
+        { form: 'zielonej', gender: 'feminine', number: 'singular', case: 'locative' },
+        { form: 'zielone', gender: 'neuter', number: 'singular', case: 'nominative' },
+        { form: 'zielonego', gender: 'neuter', number: 'singular', case: 'genitive' },
+        { form: 'zielonemu', gender: 'neuter', number: 'singular', case: 'dative' },
+        { form: 'zielone', gender: 'neuter', number: 'singular', case: 'accusative' },
+        { form: 'zielonym', gender: 'neuter', number: 'singular', case: 'instrumental' },
+        { form: 'zielonym', gender: 'neuter', number: 'singular', case: 'locative' },
+        { form: 'zielone', number: 'plural', case: 'nominative' },
+        { form: 'zielonych', number: 'plural', case: 'genitive' },
+        { form: 'zielonym', number: 'plural', case: 'dative' },
+        { form: 'zielone', number: 'plural', case: 'accusative' },
+        { form: 'zielonymi', number: 'plural', case: 'instrumental' },
+        { form: 'zielonych', number: 'plural', case: 'locative' },
+      ],
+      'fioletowy': [
+        { form: 'fioletowy', gender: 'masculine', number: 'singular', case: 'nominative' },
+        { form: 'fioletowego', gender: 'masculine', number: 'singular', case: 'genitive' },
+        { form: 'fioletowemu', gender: 'masculine', number: 'singular', case: 'dative' },
+        { form: 'fioletowy', gender: 'masculine', number: 'singular', case: 'accusative' },
+        { form: 'fioletowym', gender: 'masculine', number: 'singular', case: 'instrumental' },
+        { form: 'fioletowym', gender: 'masculine', number: 'singular', case: 'locative' },
+        { form: 'fioletowa', gender: 'feminine', number: 'singular', case: 'nominative' },
+        { form: 'fioletowej', gender: 'feminine', number: 'singular', case: 'genitive' },
+        { form: 'fioletowej', gender: 'feminine', number: 'singular', case: 'dative' },
+        { form: 'fioletową', gender: 'feminine', number: 'singular', case: 'accusative' },
+        { form: 'fioletową', gender: 'feminine', number: 'singular', case: 'instrumental' },
+        { form: 'fioletowej', gender: 'feminine', number: 'singular', case: 'locative' },
+        { form: 'fioletowe', gender: 'neuter', number: 'singular', case: 'nominative' },
+        { form: 'fioletowego', gender: 'neuter', number: 'singular', case: 'genitive' },
+        { form: 'fioletowemu', gender: 'neuter', number: 'singular', case: 'dative' },
+        { form: 'fioletowe', gender: 'neuter', number: 'singular', case: 'accusative' },
+        { form: 'fioletowym', gender: 'neuter', number: 'singular', case: 'instrumental' },
+        { form: 'fioletowym', gender: 'neuter', number: 'singular', case: 'locative' },
+        { form: 'fioletowe', number: 'plural', case: 'nominative' },
+        { form: 'fioletowych', number: 'plural', case: 'genitive' },
+        { form: 'fioletowym', number: 'plural', case: 'dative' },
+        { form: 'fioletowe', number: 'plural', case: 'accusative' },
+        { form: 'fioletowymi', number: 'plural', case: 'instrumental' },
+        { form: 'fioletowych', number: 'plural', case: 'locative' },
+      ],
+      'różowy': [
+        { form: 'różowy', gender: 'masculine', number: 'singular', case: 'nominative' },
+        { form: 'różowego', gender: 'masculine', number: 'singular', case: 'genitive' },
+        { form: 'różowemu', gender: 'masculine', number: 'singular', case: 'dative' },
+        { form: 'różowy', gender: 'masculine', number: 'singular', case: 'accusative' },
+        { form: 'różowym', gender: 'masculine', number: 'singular', case: 'instrumental' },
+        { form: 'różowym', gender: 'masculine', number: 'singular', case: 'locative' },
+        { form: 'różowa', gender: 'feminine', number: 'singular', case: 'nominative' },
+        { form: 'różowej', gender: 'feminine', number: 'singular', case: 'genitive' },
+        { form: 'różowej', gender: 'feminine', number: 'singular', case: 'dative' },
+        { form: 'różową', gender: 'feminine', number: 'singular', case: 'accusative' },
+        { form: 'różową', gender: 'feminine', number: 'singular', case: 'instrumental' },
+        { form: 'różowej', gender: 'feminine', number: 'singular', case: 'locative' },
+        { form: 'różowe', gender: 'neuter', number: 'singular', case: 'nominative' },
+        { form: 'różowego', gender: 'neuter', number: 'singular', case: 'genitive' },
+        { form: 'różowemu', gender: 'neuter', number: 'singular', case: 'dative' },
+        { form: 'różowe', gender: 'neuter', number: 'singular', case: 'accusative' },
+        { form: 'różowym', gender: 'neuter', number: 'singular', case: 'instrumental' },
+        { form: 'różowym', gender: 'neuter', number: 'singular', case: 'locative' },
+        { form: 'różowe', number: 'plural', case: 'nominative' },
+        { form: 'różowych', number: 'plural', case: 'genitive' },
+        { form: 'różowym', number: 'plural', case: 'dative' },
+        { form: 'różowe', number: 'plural', case: 'accusative' },
+        { form: 'różowymi', number: 'plural', case: 'instrumental' },
+        { form: 'różowych', number: 'plural', case: 'locative' },
+      ],
+      'pomarańczowy': [
+        { form: 'pomarańczowy', gender: 'masculine', number: 'singular', case: 'nominative' },
+        { form: 'pomarańczowego', gender: 'masculine', number: 'singular', case: 'genitive' },
+        { form: 'pomarańczowemu', gender: 'masculine', number: 'singular', case: 'dative' },
+        { form: 'pomarańczowy', gender: 'masculine', number: 'singular', case: 'accusative' },
+        { form: 'pomarańczowym', gender: 'masculine', number: 'singular', case: 'instrumental' },
+        { form: 'pomarańczowym', gender: 'masculine', number: 'singular', case: 'locative' },
+        { form: 'pomarańczowa', gender: 'feminine', number: 'singular', case: 'nominative' },
+        { form: 'pomarańczowej', gender: 'feminine', number: 'singular', case: 'genitive' },
+        { form: 'pomarańczowej', gender: 'feminine', number: 'singular', case: 'dative' },
+        { form: 'pomarańczową', gender: 'feminine', number: 'singular', case: 'accusative' },
+        { form: 'pomarańczową', gender: 'feminine', number: 'singular', case: 'instrumental' },
+        { form: 'pomarańczowej', gender: 'feminine', number: 'singular', case: 'locative' },
+        { form: 'pomarańczowe', gender: 'neuter', number: 'singular', case: 'nominative' },
+        { form: 'pomarańczowego', gender: 'neuter', number: 'singular', case: 'genitive' },
+        { form: 'pomarańczowemu', gender: 'neuter', number: 'singular', case: 'dative' },
+        { form: 'pomarańczowe', gender: 'neuter', number: 'singular', case: 'accusative' },
+        { form: 'pomarańczowym', gender: 'neuter', number: 'singular', case: 'instrumental' },
+        { form: 'pomarańczowym', gender: 'neuter', number: 'singular', case: 'locative' },
+        { form: 'pomarańczowe', number: 'plural', case: 'nominative' },
+        { form: 'pomarańczowych', number: 'plural', case: 'genitive' },
+        { form: 'pomarańczowym', number: 'plural', case: 'dative' },
+        { form: 'pomarańczowe', number: 'plural', case: 'accusative' },
+        { form: 'pomarańczowymi', number: 'plural', case: 'instrumental' },
+        { form: 'pomarańczowych', number: 'plural', case: 'locative' },
+      ],
+      'czerwony': [
+        { form: 'czerwony', gender: 'masculine', number: 'singular', case: 'nominative' },
+        { form: 'czerwonego', gender: 'masculine', number: 'singular', case: 'genitive' },
+        { form: 'czerwonemu', gender: 'masculine', number: 'singular', case: 'dative' },
+        { form: 'czerwony', gender: 'masculine', number: 'singular', case: 'accusative' },
+        { form: 'czerwonym', gender: 'masculine', number: 'singular', case: 'instrumental' },
+        { form: 'czerwonym', gender: 'masculine', number: 'singular', case: 'locative' },
+        { form: 'czerwona', gender: 'feminine', number: 'singular', case: 'nominative' },
+        { form: 'czerwonej', gender: 'feminine', number: 'singular', case: 'genitive' },
+        { form: 'czerwonej', gender: 'feminine', number: 'singular', case: 'dative' },
+        { form: 'czerwoną', gender: 'feminine', number: 'singular', case: 'accusative' },
+        { form: 'czerwoną', gender: 'feminine', number: 'singular', case: 'instrumental' },
+        { form: 'czerwonej', gender: 'feminine', number: 'singular', case: 'locative' },
+        { form: 'czerwone', gender: 'neuter', number: 'singular', case: 'nominative' },
+        { form: 'czerwonego', gender: 'neuter', number: 'singular', case: 'genitive' },
+        { form: 'czerwonemu', gender: 'neuter', number: 'singular', case: 'dative' },
+        { form: 'czerwone', gender: 'neuter', number: 'singular', case: 'accusative' },
+        { form: 'czerwonym', gender: 'neuter', number: 'singular', case: 'instrumental' },
+        { form: 'czerwonym', gender: 'neuter', number: 'singular', case: 'locative' },
+        { form: 'czerwone', number: 'plural', case: 'nominative' },
+        { form: 'czerwonych', number: 'plural', case: 'genitive' },
+        { form: 'czerwonym', number: 'plural', case: 'dative' },
+        { form: 'czerwone', number: 'plural', case: 'accusative' },
+        { form: 'czerwonymi', number: 'plural', case: 'instrumental' },
+        { form: 'czerwonych', number: 'plural', case: 'locative' },
+      ],
+      'żółty': [
+        { form: 'żółty', gender: 'masculine', number: 'singular', case: 'nominative' },
+        { form: 'żółtego', gender: 'masculine', number: 'singular', case: 'genitive' },
+        { form: 'żółtemu', gender: 'masculine', number: 'singular', case: 'dative' },
+        { form: 'żółty', gender: 'masculine', number: 'singular', case: 'accusative' },
+        { form: 'żółtym', gender: 'masculine', number: 'singular', case: 'instrumental' },
+        { form: 'żółtym', gender: 'masculine', number: 'singular', case: 'locative' },
+        { form: 'żółta', gender: 'feminine', number: 'singular', case: 'nominative' },
+        { form: 'żółtej', gender: 'feminine', number: 'singular', case: 'genitive' },
+        { form: 'żółtej', gender: 'feminine', number: 'singular', case: 'dative' },
+        { form: 'żółtą', gender: 'feminine', number: 'singular', case: 'accusative' },
+        { form: 'żółtą', gender: 'feminine', number: 'singular', case: 'instrumental' },
+        { form: 'żółtej', gender: 'feminine', number: 'singular', case: 'locative' },
+        { form: 'żółte', gender: 'neuter', number: 'singular', case: 'nominative' },
+        { form: 'żółtego', gender: 'neuter', number: 'singular', case: 'genitive' },
+        { form: 'żółtemu', gender: 'neuter', number: 'singular', case: 'dative' },
+        { form: 'żółte', gender: 'neuter', number: 'singular', case: 'accusative' },
+        { form: 'żółtym', gender: 'neuter', number: 'singular', case: 'instrumental' },
+        { form: 'żółtym', gender: 'neuter', number: 'singular', case: 'locative' },
+        { form: 'żółte', number: 'plural', case: 'nominative' },
+        { form: 'żółtych', number: 'plural', case: 'genitive' },
+        { form: 'żółtym', number: 'plural', case: 'dative' },
+        { form: 'żółte', number: 'plural', case: 'accusative' },
+        { form: 'żółtymi', number: 'plural', case: 'instrumental' },
+        { form: 'żółtych', number: 'plural', case: 'locative' },
+      ],
+      'turkusowy': [
+        { form: 'turkusowy', gender: 'masculine', number: 'singular', case: 'nominative' },
+        { form: 'turkusowego', gender: 'masculine', number: 'singular', case: 'genitive' },
+        { form: 'turkusowemu', gender: 'masculine', number: 'singular', case: 'dative' },
+        { form: 'turkusowy', gender: 'masculine', number: 'singular', case: 'accusative' },
+        { form: 'turkusowym', gender: 'masculine', number: 'singular', case: 'instrumental' },
+        { form: 'turkusowym', gender: 'masculine', number: 'singular', case: 'locative' },
+        { form: 'turkusowa', gender: 'feminine', number: 'singular', case: 'nominative' },
+        { form: 'turkusowej', gender: 'feminine', number: 'singular', case: 'genitive' },
+        { form: 'turkusowej', gender: 'feminine', number: 'singular', case: 'dative' },
+        { form: 'turkusową', gender: 'feminine', number: 'singular', case: 'accusative' },
+        { form: 'turkusową', gender: 'feminine', number: 'singular', case: 'instrumental' },
+        { form: 'turkusowej', gender: 'feminine', number: 'singular', case: 'locative' },
+        { form: 'turkusowe', gender: 'neuter', number: 'singular', case: 'nominative' },
+        { form: 'turkusowego', gender: 'neuter', number: 'singular', case: 'genitive' },
+        { form: 'turkusowemu', gender: 'neuter', number: 'singular', case: 'dative' },
+        { form: 'turkusowe', gender: 'neuter', number: 'singular', case: 'accusative' },
+        { form: 'turkusowym', gender: 'neuter', number: 'singular', case: 'instrumental' },
+        { form: 'turkusowym', gender: 'neuter', number: 'singular', case: 'locative' },
+        { form: 'turkusowe', number: 'plural', case: 'nominative' },
+        { form: 'turkusowych', number: 'plural', case: 'genitive' },
+        { form: 'turkusowym', number: 'plural', case: 'dative' },
+        { form: 'turkusowe', number: 'plural', case: 'accusative' },
+        { form: 'turkusowymi', number: 'plural', case: 'instrumental' },
+        { form: 'turkusowych', number: 'plural', case: 'locative' },
+      ],
+      'błękitny': [
+        { form: 'błękitny', gender: 'masculine', number: 'singular', case: 'nominative' },
+        { form: 'błękitnego', gender: 'masculine', number: 'singular', case: 'genitive' },
+        { form: 'błękitnemu', gender: 'masculine', number: 'singular', case: 'dative' },
+        { form: 'błękitny', gender: 'masculine', number: 'singular', case: 'accusative' },
+        { form: 'błękitnym', gender: 'masculine', number: 'singular', case: 'instrumental' },
+        { form: 'błękitnym', gender: 'masculine', number: 'singular', case: 'locative' },
+        { form: 'błękitna', gender: 'feminine', number: 'singular', case: 'nominative' },
+        { form: 'błękitnej', gender: 'feminine', number: 'singular', case: 'genitive' },
+        { form: 'błękitnej', gender: 'feminine', number: 'singular', case: 'dative' },
+        { form: 'błękitną', gender: 'feminine', number: 'singular', case: 'accusative' },
+        { form: 'błękitną', gender: 'feminine', number: 'singular', case: 'instrumental' },
+        { form: 'błękitnej', gender: 'feminine', number: 'singular', case: 'locative' },
+        { form: 'błękitne', gender: 'neuter', number: 'singular', case: 'nominative' },
+        { form: 'błękitnego', gender: 'neuter', number: 'singular', case: 'genitive' },
+        { form: 'błękitnemu', gender: 'neuter', number: 'singular', case: 'dative' },
+        { form: 'błękitne', gender: 'neuter', number: 'singular', case: 'accusative' },
+        { form: 'błękitnym', gender: 'neuter', number: 'singular', case: 'instrumental' },
+        { form: 'błękitnym', gender: 'neuter', number: 'singular', case: 'locative' },
+        { form: 'błękitne', number: 'plural', case: 'nominative' },
+        { form: 'błękitnych', number: 'plural', case: 'genitive' },
+        { form: 'błękitnym', number: 'plural', case: 'dative' },
+        { form: 'błękitne', number: 'plural', case: 'accusative' },
+        { form: 'błękitnymi', number: 'plural', case: 'instrumental' },
+        { form: 'błękitnych', number: 'plural', case: 'locative' },
+      ],
+      'granatowy': [
+        { form: 'granatowy', gender: 'masculine', number: 'singular', case: 'nominative' },
+        { form: 'granatowego', gender: 'masculine', number: 'singular', case: 'genitive' },
+        { form: 'granatowemu', gender: 'masculine', number: 'singular', case: 'dative' },
+        { form: 'granatowy', gender: 'masculine', number: 'singular', case: 'accusative' },
+        { form: 'granatowym', gender: 'masculine', number: 'singular', case: 'instrumental' },
+        { form: 'granatowym', gender: 'masculine', number: 'singular', case: 'locative' },
+        { form: 'granatowa', gender: 'feminine', number: 'singular', case: 'nominative' },
+        { form: 'granatowej', gender: 'feminine', number: 'singular', case: 'genitive' },
+        { form: 'granatowej', gender: 'feminine', number: 'singular', case: 'dative' },
+        { form: 'granatową', gender: 'feminine', number: 'singular', case: 'accusative' },
+        { form: 'granatową', gender: 'feminine', number: 'singular', case: 'instrumental' },
+        { form: 'granatowej', gender: 'feminine', number: 'singular', case: 'locative' },
+        { form: 'granatowe', gender: 'neuter', number: 'singular', case: 'nominative' },
+        { form: 'granatowego', gender: 'neuter', number: 'singular', case: 'genitive' },
+        { form: 'granatowemu', gender: 'neuter', number: 'singular', case: 'dative' },
+        { form: 'granatowe', gender: 'neuter', number: 'singular', case: 'accusative' },
+        { form: 'granatowym', gender: 'neuter', number: 'singular', case: 'instrumental' },
+        { form: 'granatowym', gender: 'neuter', number: 'singular', case: 'locative' },
+        { form: 'granatowe', number: 'plural', case: 'nominative' },
+        { form: 'granatowych', number: 'plural', case: 'genitive' },
+        { form: 'granatowym', number: 'plural', case: 'dative' },
+        { form: 'granatowe', number: 'plural', case: 'accusative' },
+        { form: 'granatowymi', number: 'plural', case: 'instrumental' },
+        { form: 'granatowych', number: 'plural', case: 'locative' },
+      ],
+      'ciemny niebieski': [
+        { form: 'ciemny niebieski', gender: 'masculine', number: 'singular', case: 'nominative' },
+        { form: 'ciemnego niebieskiego', gender: 'masculine', number: 'singular', case: 'genitive' },
+        { form: 'ciemnemu niebieskiemu', gender: 'masculine', number: 'singular', case: 'dative' },
+        { form: 'ciemny niebieski', gender: 'masculine', number: 'singular', case: 'accusative' },
+        { form: 'ciemnym niebieskim', gender: 'masculine', number: 'singular', case: 'instrumental' },
+        { form: 'ciemnym niebieskim', gender: 'masculine', number: 'singular', case: 'locative' },
+        { form: 'ciemna niebieska', gender: 'feminine', number: 'singular', case: 'nominative' },
+        { form: 'ciemnej niebieskiej', gender: 'feminine', number: 'singular', case: 'genitive' },
+        { form: 'ciemnej niebieskiej', gender: 'feminine', number: 'singular', case: 'dative' },
+        { form: 'ciemną niebieską', gender: 'feminine', number: 'singular', case: 'accusative' },
+        { form: 'ciemną niebieską', gender: 'feminine', number: 'singular', case: 'instrumental' },
+        { form: 'ciemnej niebieskiej', gender: 'feminine', number: 'singular', case: 'locative' },
+        { form: 'ciemne niebieskie', gender: 'neuter', number: 'singular', case: 'nominative' },
+        { form: 'ciemnego niebieskiego', gender: 'neuter', number: 'singular', case: 'genitive' },
+        { form: 'ciemnemu niebieskiemu', gender: 'neuter', number: 'singular', case: 'dative' },
+        { form: 'ciemne niebieskie', gender: 'neuter', number: 'singular', case: 'accusative' },
+        { form: 'ciemnym niebieskim', gender: 'neuter', number: 'singular', case: 'instrumental' },
+        { form: 'ciemnym niebieskim', gender: 'neuter', number: 'singular', case: 'locative' },
+        { form: 'ciemne niebieskie', number: 'plural', case: 'nominative' },
+        { form: 'ciemnych niebieskich', number: 'plural', case: 'genitive' },
+        { form: 'ciemnym niebieskim', number: 'plural', case: 'dative' },
+        { form: 'ciemne niebieskie', number: 'plural', case: 'accusative' },
+        { form: 'ciemnymi niebieskimi', number: 'plural', case: 'instrumental' },
+        { form: 'ciemnych niebieskich', number: 'plural', case: 'locative' },
+      ],
+    },
   },
   extended: {
     names: [
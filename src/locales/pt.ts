@@ -78,4 +78,21 @@ export const pt: ColorDictionary = {
       0.692034, -0.075167, -0.142222,
     ]),
   },
+  modifiers: {
+    light: '{name} claro',
+    dark: '{name} escuro',
+    pale: '{name} pálido',
+    vivid: '{name} vivo',
+    greyish: '{name} acinzentado',
+    ish: '{name} {tint}',
+    tints: {
+      'vermelho': 'avermelhado',
+      'verde': 'esverdeado',
+      'azul': 'azulado',
+      'amarelo': 'amarelado',
+      'roxo': 'arroxeado',
+      'rosa': 'rosado',
+      'laranja': 'alaranjado',
+    },
+  },
 };
@@ -31,6 +31,294 @@ export const ru: ColorDictionary = {
       0.856734, -0.178931, 0.166844,
       0.500493, 0.04573, 0.073858,
     ]),
+    forms: {
+      'синий': [
+        { form: 'синий', gender: 'masculine', number: 'singular', case: 'nominative' },
+        { form: 'синего', gender: 'masculine', number: 'singular', case: 'genitive' },
+        { form: 'синему', gender: 'masculine', number: 'singular', case: 'dative' },
+        { form: 'синий', gender: 'masculine', number: 'singular', case: 'accusative' },
+        { form: 'синим', gender: 'masculine', number: 'singular', case: 'instrumental' },
+        { form: 'синем', gender: 'masculine', number: 'singular', case: 'prepositional' },
+        { form: 'синяя', gender: 'feminine', number: 'singular', case: 'nominative' },
+        { form: 'синей', gender: 'feminine', number: 'singular', case: 'genitive' },
+        { form: 'синей', gender: 'feminine', number: 'singular', case: 'dative' },
+        { form: 'синюю', gender: 'feminine', number: 'singular', case: 'accusative' },
+        { form: 'синей', gender: 'feminine', number: 'singular', case: 'instrumental' },
+        { form: 'синей', gender: 'feminine', number: 'singular', case: 'prepositional' },
+        { form: 'синее', gender: 'neuter', number: 'singular', case: 'nominative' },
+        { form: 'синего', gender: 'neuter', number: 'singular', case: 'genitive' },
+        { form: 'синему', gender: 'neuter', number: 'singular', case: 'dative' },
+        { form: 'синее', gender: 'neuter', number: 'singular', case: 'accusative' },
+        { form: 'синим', gender: 'neuter', number: 'singular', case: 'instrumental' },
+        { form: 'синем', gender: 'neuter', number: 'singular', case: 'prepositional' },
+        { form: 'синие', number: 'plural', case: 'nominative' },
+        { form: 'синих', number: 'plural', case: 'genitive' },
+        { form: 'синим', number: 'plural', case: 'dative' },
+        { form: 'синие', number: 'plural', case: 'accusative' },
+        { form: 'синими', number: 'plural', case: 'instrumental' },
+        { form: 'синих', number: 'plural', case: 'prepositional' },
+      ],
+      'зеленый': [
+        { form: 'зеленый', gender: 'masculine', number: 'singular', case: 'nominative' },
+        { form: 'зеленого', gender: 'masculine', number: 'singular', case: 'genitive' },
+        { form: 'зеленому', gender: 'masculine', number: 'singular', case: 'dative' },
+        { form: 'зеленый', gender: 'masculine', number: 'singular', case: 'accusative' },
+        { form: 'зеленым', gender: 'masculine', number: 'singular', case: 'instrumental' },
+        { form: 'зеленом', gender: 'masculine', number: 'singular', case: 'prepositional' },
+        { form: 'зеленая', gender: 'feminine', number: 'singular', case: 'nominative' },
+        { form: 'зеленой', gender: 'feminine', number: 'singular', case: 'genitive' },
+        { form: 'зеленой', gender: 'feminine', number: 'singular', case: 'dative' },
+        { form: 'зеленую', gender: 'feminine', number: 'singular', case: 'accusative' },
+        { form: 'зеленой', gender: 'feminine', number: 'singular', case: 'instrumental' },
+        { form: 'зеленой', gender: 'feminine', number: 'singular', case: 'prepositional' },
+        { form: 'зеленое', gender: 'neuter', number: 'singular', case: 'nominative' },
+        { form: 'зеленого', gender: 'neuter', number: 'singular', case: 'genitive' },
+        { form: 'зеленому', gender: 'neuter', number: 'singular', case: 'dative' },
+        { form: 'зеленое', gender: 'neuter', number: 'singular', case: 'accusative' },
+        { form: 'зеленым', gender: 'neuter', number: 'singular', case: 'instrumental' },
+        { form: 'зеленом', gender: 'neuter', number: 'singular', case: 'prepositional' },
+        { form: 'зеленые', number: 'plural', case: 'nominative' },
+        { form: 'зеленых', number: 'plural', case: 'genitive' },
+        { form: 'зеленым', number: 'plural', case: 'dative' },
+        { form: 'зеленые', number: 'plural', case: 'accusative' },
+        { form: 'зелеными', number: 'plural', case: 'instrumental' },
+        { form: 'зеленых', number: 'plural', case: 'prepositional' },
+      ],
+      'голубой': [
+        { form: 'голубой', gender: 'masculine', number: 'singular', case: 'nominative' },
+        { form: 'голубого', gender: 'masculine', number: 'singular', case: 'genitive' },
+        { form: 'голубому', gender: 'masculine', number: 'singular', case: 'dative' },
+        { form: 'голубой', gender: 'masculine', number: 'singular', case: 'accusative' },
+        { form: 'голубым', gender: 'masculine', number: 'singular', case: 'instrumental' },
+        { form: 'голубом', gender: 'masculine', number: 'singular', case: 'prepositional' },
+        { form: 'голубая', gender: 'feminine', number: 'singular', case: 'nominative' },
+        { form: 'голубой', gender: 'feminine', number: 'singular', case: 'genitive' },
+        { form: 'голубой', gender: 'feminine', number: 'singular', case: 'dative' },
+        { form: 'голубую', gender: 'feminine', number: 'singular', case: 'accusative' },
+        { form: 'голубой', gender: 'feminine', number: 'singular', case: 'instrumental' },
+        { form: 'голубой', gender: 'feminine', number: 'singular', case: 'prepositional' },
+        { form: 'голубое', gender: 'neuter', number: 'singular', case: 'nominative' },
+        { form: 'голубого', gender: 'neuter', number: 'singular', case: 'genitive' },
+        { form: 'голубому', gender: 'neuter', number: 'singular', case: 'dative' },
+        { form: 'голубое', gender: 'neuter', number: 'singular', case: 'accusative' },
+        { form: 'голубым', gender: 'neuter', number: 'singular', case: 'instrumental' },
+        { form: 'голубом', gender: 'neuter', number: 'singular', case: 'prepositional' },
+        { form: 'голубые', number: 'plural', case: 'nominative' },
+        { form: 'голубых', number: 'plural', case: 'genitive' },
+        { form: 'голубым', number: 'plural', case: 'dative' },
+        { form: 'голубые', number: 'plural', case: 'accusative' },
+        { form: 'голубыми', number: 'plural', case: 'instrumental' },
+        { form: 'голубых', number: 'plural', case: 'prepositional' },
+      ],
+      'фиолетовый': [
+        { form: 'фиолетовый', gender: 'masculine', number: 'singular', case: 'nominative' },
+        { form: 'фиолетового', gender: 'masculine', number: 'singular', case: 'genitive' },
+        { form: 'фиолетовому', gender: 'masculine', number: 'singular', case: 'dative' },
+        { form: 'фиолетовый', gender: 'masculine', number: 'singular', case: 'accusative' },
+        { form: 'фиолетовым', gender: 'masculine', number: 'singular', case: 'instrumental' },
+        { form: 'фиолетовом', gender: 'masculine', number: 'singular', case: 'prepositional' },
+        { form: 'фиолетовая', gender: 'feminine', number: 'singular', case: 'nominative' },
+        { form: 'фиолетовой', gender: 'feminine', number: 'singular', case: 'genitive' },
+        { form: 'фиолетовой', gender: 'feminine', number: 'singular', case: 'dative' },
+        { form: 'фиолетовую', gender: 'feminine', number: 'singular', case: 'accusative' },
+        { form: 'фиолетовой', gender: 'feminine', number: 'singular', case: 'instrumental' },
+        { form: 'фиолетовой', gender: 'feminine', number: 'singular', case: 'prepositional' },
+        { form: 'фиолетовое', gender: 'neuter', number: 'singular', case: 'nominative' },
+        { form: 'фиолетового', gender: 'neuter', number: 'singular', case: 'genitive' },
+        { form: 'фиолетовому', gender: 'neuter', number: 'singular', case: 'dative' },
+        { form: 'фиолетовое', gender: 'neuter', number: 'singular', case: 'accusative' },
+        { form: 'фиолетовым', gender: 'neuter', number: 'singular', case: 'instrumental' },
+        { form: 'фиолетовом', gender: 'neuter', number: 'singular', case: 'prepositional' },
+        { form: 'фиолетовые', number: 'plural', case: 'nominative' },
+        { form: 'фиолетовых', number: 'plural', case: 'genitive' },
+        { form: 'фиолетовым', number: 'plural', case: 'dative' },
+        { form: 'фиолетовые', number: 'plural', case: 'accusative' },
+        { form: 'фиолетовыми', number: 'plural', case: 'instrumental' },
+        { form: 'фиолетовых', number: 'plural', case: 'prepositional' },
+      ],
+      'розовый': [
+        { form: 'розовый', gender: 'masculine', number: 'singular', case: 'nominative' },
+        { form: 'розового', gender: 'masculine', number: 'singular', case: 'genitive' },
+        { form: 'розовому', gender: 'masculine', number: 'singular', case: 'dative' },
+        { form: 'розовый', gender: 'masculine', number: 'singular', case: 'accusative' },
+        { form: 'розовым', gender: 'masculine', number: 'singular', case: 'instrumental' },
+        { form: 'розовом', gender: 'masculine', number: 'singular', case: 'prepositional' },
+        { form: 'розовая', gender: 'feminine', number: 'singular', case: 'nominative' },
+        { form: 'розовой', gender: 'feminine', number: 'singular', case: 'genitive' },
+        { form: 'розовой', gender: 'feminine', number: 'singular', case: 'dative' },
+        { form: 'розовую', gender: 'feminine', number: 'singular', case: 'accusative' },
+        { form: 'розовой', gender: 'feminine', number: 'singular', case: 'instrumental' },
+        { form: 'розовой', gender: 'feminine', number: 'singular', case: 'prepositional' },
+        { form: 'розовое', gender: 'neuter', number: 'singular', case: 'nominative' },
+        { form: 'розового', gender: 'neuter', number: 'singular', case: 'genitive' },
+        { form: 'розовому', gender: 'neuter', number: 'singular', case: 'dative' },
+        { form: 'розовое', gender: 'neuter', number: 'singular', case: 'accusative' },
+        { form: 'розовым', gender: 'neuter', number: 'singular', case: 'instrumental' },
+        { form: 'розовом', gender: 'neuter', number: 'singular', case: 'prepositional' },
+        { form: 'розовые', number: 'plural', case: 'nominative' },
+        { form: 'розовых', number: 'plural', case: 'genitive' },
+        { form: 'розовым', number: 'plural', case: 'dative' },
+        { form: 'розовые', number: 'plural', case: 'accusative' },
+        { form: 'розовыми', number: 'plural', case: 'instrumental' },
+        { form: 'розовых', number: 'plural', case: 'prepositional' },
+      ],
+      'красный': [
+        { form: 'красный', gender: 'masculine', number: 'singular', case: 'nominative' },
+        { form: 'красного', gender: 'masculine', number: 'singular', case: 'genitive' },
+        { form: 'красному', gender: 'masculine', number: 'singular', case: 'dative' },
+        { form: 'красный', gender: 'masculine', number: 'singular', case: 'accusative' },
+        { form: 'красным', gender: 'masculine', number: 'singular', case: 'instrumental' },
+        { form: 'красном', gender: 'masculine', number: 'singular', case: 'prepositional' },
+        { form: 'красная', gender: 'feminine', number: 'singular', case: 'nominative' },
+        { form: 'красной', gender: 'feminine', number: 'singular', case: 'genitive' },
+        { form: 'красной', gender: 'feminine', number: 'singular', case: 'dative' },
+        { form: 'красную', gender: 'feminine', number: 'singular', case: 'accusative' },
+        { form: 'красной', gender: 'feminine', number: 'singular', case: 'instrumental' },
+        { form: 'красной', gender: 'feminine', number: 'singular', case: 'prepositional' },
+        { form: 'красное', gender: 'neuter', number: 'singular', case: 'nominative' },
+        { form: 'красного', gender: 'neuter', number: 'singular', case: 'genitive' },
+        { form: 'красному', gender: 'neuter', number: 'singular', case: 'dative' },
+        { form: 'красное', gender: 'neuter', number: 'singular', case: 'accusative' },
+        { form: 'красным', gender: 'neuter', number: 'singular', case: 'instrumental' },
+        { form: 'красном', gender: 'neuter', number: 'singular', case: 'prepositional' },
+        { form: 'красные', number: 'plural', case: 'nominative' },
+        { form: 'красных', number: 'plural', case: 'genitive' },
+        { form: 'красным', number: 'plural', case: 'dative' },
+        { form: 'красные', number: 'plural', case: 'accusative' },
+        { form: 'красными', number: 'plural', case: 'instrumental' },
+        { form: 'красных', number: 'plural', case: 'prepositional' },
+      ],
+      'оранжевый': [
+        { form: 'оранжевый', gender: 'masculine', number: 'singular', case: 'nominative' },
+        { form: 'оранжевого', gender: 'masculine', number: 'singular', case: 'genitive' },
+        { form: 'оранжевому', gender: 'masculine', number: 'singular', case: 'dative' },
+        { form: 'оранжевый', gender: 'masculine', number: 'singular', case: 'accusative' },
+        { form: 'оранжевым', gender: 'masculine', number: 'singular', case: 'instrumental' },
+        { form: 'оранжевом', gender: 'masculine', number: 'singular', case: 'prepositional' },
+        { form: 'оранжевая', gender: 'feminine', number: 'singular', case: 'nominative' },
+        { form: 'оранжевой', gender: 'feminine', number: 'singular', case: 'genitive' },
+        { form: 'оранжевой', gender: 'feminine', number: 'singular', case: 'dative' },
+        { form: 'оранжевую', gender: 'feminine', number: 'singular', case: 'accusative' },
+        { form: 'оранжевой', gender: 'feminine', number: 'singular', case: 'instrumental' },
+        { form: 'оранжевой', gender: 'feminine', number: 'singular', case: 'prepositional' },
+        { form: 'оранжевое', gender: 'neuter', number: 'singular', case: 'nominative' },
+        { form: 'оранжевого', gender: 'neuter', number: 'singular', case: 'genitive' },
+        { form: 'оранжевому', gender: 'neuter', number: 'singular', case: 'dative' },
+        { form: 'оранжевое', gender: 'neuter', number: 'singular', case: 'accusative' },
+        { form: 'оранжевым', gender: 'neuter', number: 'singular', case: 'instrumental' },
+        { form: 'оранжевом', gender: 'neuter', number: 'singular', case: 'prepositional' },
+        { form: 'оранжевые', number: 'plural', case: 'nominative' },
+        { form: 'оранжевых', number: 'plural', case: 'genitive' },
+        { form: 'оранжевым', number: 'plural', case: 'dative' },
+        { form: 'оранжевые', number: 'plural', case: 'accusative' },
+        { form: 'оранжевыми', number: 'plural', case: 'instrumental' },
+        { form: 'оранжевых', number: 'plural', case: 'prepositional' },
+      ],
+      'желтый': [
+        { form: 'желтый', gender: 'masculine', number: 'singular', case: 'nominative' },
+        { form: 'желтого', gender: 'masculine', number: 'singular', case: 'genitive' },
+        { form: 'желтому', gender: 'masculine', number: 'singular', case: 'dative' },
+        { form: 'желтый', gender: 'masculine', number: 'singular', case: 'accusative' },
+        { form: 'желтым', gender: 'masculine', number: 'singular', case: 'instrumental' },
+        { form: 'желтом', gender: 'masculine', number: 'singular', case: 'prepositional' },
+        { form: 'желтая', gender: 'feminine', number: 'singular', case: 'nominative' },
+        { form: 'желтой', gender: 'feminine', number: 'singular', case: 'genitive' },
+        { form: 'желтой', gender: 'feminine', number: 'singular', case: 'dative' },
+        { form: 'желтую', gender: 'feminine', number: 'singular', case: 'accusative' },
+        { form: 'желтой', gender: 'feminine', number: 'singular', case: 'instrumental' },
+        { form: 'желтой', gender: 'feminine', number: 'singular', case: 'prepositional' },
+        { form: 'желтое', gender: 'neuter', number: 'singular', case: 'nominative' },
+        { form: 'желтого', gender: 'neuter', number: 'singular', case: 'genitive' },
+        { form: 'желтому', gender: 'neuter', number: 'singular', case: 'dative' },
+        { form: 'желтое', gender: 'neuter', number: 'singular', case: 'accusative' },
+        { form: 'желтым', gender: 'neuter', number: 'singular', case: 'instrumental' },
+        { form: 'желтом', gender: 'neuter', number: 'singular', case: 'prepositional' },
+        { form: 'желтые', number: 'plural', case: 'nominative' },
+        { form: 'желтых', number: 'plural', case: 'genitive' },
+        { form: 'желтым', number: 'plural', case: 'dative' },
+        { form: 'желтые', number: 'plural', case: 'accusative' },
+        { form: 'желтыми', number: 'plural', case: 'instrumental' },
+        { form: 'желтых', number: 'plural', case: 'prepositional' },
+      ],
+      'бирюзовый': [
+        { form: 'бирюзовый', gender: 'masculine', number: 'singular', case: 'nominative' },
+        { form: 'бирюзового', gender: 'masculine', number: 'singular', case: 'genitive' },
+        { form: 'бирюзовому', gender: 'masculine', number: 'singular', case: 'dative' },
+        { form: 'бирюзовый', gender: 'masculine', number: 'singular', case: 'accusative' },
+        { form: 'бирюзовым', gender: 'masculine', number: 'singular', case: 'instrumental' },
+        { form: 'бирюзовом', gender: 'masculine', number: 'singular', case: 'prepositional' },
+        { form: 'бирюзовая', gender: 'feminine', number: 'singular', case: 'nominative' },
+        { form: 'бирюзовой', gender: 'feminine', number: 'singular', case: 'genitive' },
+        { form: 'бирюзовой', gender: 'feminine', number: 'singular', case: 'dative' },
+        { form: 'бирюзовую', gender: 'feminine', number: 'singular', case: 'accusative' },
+        { form: 'бирюзовой', gender: 'feminine', number: 'singular', case: 'instrumental' },
+        { form: 'бирюзовой', gender: 'feminine', number: 'singular', case: 'prepositional' },
+        { form: 'бирюзовое', gender: 'neuter', number: 'singular', case: 'nominative' },
+        { form: 'бирюзового', gender: 'neuter', number: 'singular', case: 'genitive' },
+        { form: 'бирюзовому', gender: 'neuter', number: 'singular', case: 'dative' },
+        { form: 'бирюзовое', gender: 'neuter', number: 'singular', case: 'accusative' },
+        { form: 'бирюзовым', gender: 'neuter', number: 'singular', case: 'instrumental' },
+        { form: 'бирюзовом', gender: 'neuter', number: 'singular', case: 'prepositional' },
+        { form: 'бирюзовые', number: 'plural', case: 'nominative' },
+        { form: 'бирюзовых', number: 'plural', case: 'genitive' },
+        { form: 'бирюзовым', number: 'plural', case: 'dative' },
+        { form: 'бирюзовые', number: 'plural', case: 'accusative' },
+        { form: 'бирюзовыми', number: 'plural', case: 'instrumental' },
+        { form: 'бирюзовых', number: 'plural', case: 'prepositional' },
+      ],
+      'салатовый': [
+        { form: 'салатовый', gender: 'masculine', number: 'singular', case: 'nominative' },
+        { form: 'салатового', gender: 'masculine', number: 'singular', case: 'genitive' },
+        { form: 'салатовому', gender: 'masculine', number: 'singular', case: 'dative' },
+        { form: 'салатовый', gender: 'masculine', number: 'singular', case: 'accusative' },
+        { form: 'салатовым', gender: 'masculine', number: 'singular', case: 'instrumental' },
+        { form: 'салатовом', gender: 'masculine', number: 'singular', case: 'prepositional' },
+        { form: 'салатовая', gender: 'feminine', number: 'singular', case: 'nominative' },
+        { form: 'салатовой', gender: 'feminine', number: 'singular', case: 'genitive' },
+        { form: 'салатовой', gender: 'feminine', number: 'singular', case: 'dative' },
+        { form: 'салатовую', gender: 'feminine', number: 'singular', case: 'accusative' },
+        { form: 'салатовой', gender: 'feminine', number: 'singular', case: 'instrumental' },
+        { form: 'салатовой', gender: 'feminine', number: 'singular', case: 'prepositional' },
+        { form: 'салатовое', gender: 'neuter', number: 'singular', case: 'nominative' },
+        { form: 'салатового', gender: 'neuter', number: 'singular', case: 'genitive' },
+        { form: 'салатовому', gender: 'neuter', number: 'singular', case: 'dative' },
+        { form: 'салатовое', gender: 'neuter', number: 'singular', case: 'accusative' },
+        { form: 'салатовым', gender: 'neuter', number: 'singular', case: 'instrumental' },
+        { form: 'салатовом', gender: 'neuter', number: 'singular', case: 'prepositional' },
+        { form: 'салатовые', number: 'plural', case: 'nominative' },
+        { form: 'салатовых', number: 'plural', case: 'genitive' },
+        { form: 'салатовым', number: 'plural', case: 'dative' },
+        { form: 'салатовые', number: 'plural', case: 'accusative' },
+        { form: 'салатовыми', number: 'plural', case: 'instrumental' },
+        { form: 'салатовых', number: 'plural', case: 'prepositional' },
+      ],
+      'коричневый': [
+        { form: 'коричневый', gender: 'masculine', number: 'singular', case: 'nominative' },
+        { form: 'коричневого', gender: 'masculine', number: 'singular', case: 'genitive' },
+        { form: 'коричневому', gender: 'masculine', number: 'singular', case: 'dative' },
+        { form: 'коричневый', gender: 'masculine', number: 'singular', case: 'accusative' },
+        { form: 'коричневым', gender: 'masculine', number: 'singular', case: 'instrumental' },
+        { form: 'коричневом', gender: 'masculine', number: 'singular', case: 'prepositional' },
+        { form: 'коричневая', gender: 'feminine', number: 'singular', case: 'nominative' },
+        { form: 'коричневой', gender: 'feminine', number: 'singular', case: 'genitive' },
+        { form: 'коричневой', gender: 'feminine', number: 'singular', case: 'dative' },
+        { form: 'коричневую', gender: 'feminine', number: 'singular', case: 'accusative' },
+        { form: 'коричневой', gender: 'feminine', number: 'singular', case: 'instrumental' },
+        { form: 'коричневой', gender: 'feminine', number: 'singular', case: 'prepositional' },
+        { form: 'коричневое', gender: 'neuter', number: 'singular', case: 'nominative' },
+        { form: 'коричневого', gender: 'neuter', number: 'singular', case: 'genitive' },
+        { form: 'коричневому', gender: 'neuter', number: 'singular', case: 'dative' },
+        { form: 'коричневое', gender: 'neuter', number: 'singular', case: 'accusative' },
+        { form: 'коричневым', gender: 'neuter', number: 'singular', case: 'instrumental' },
+        { form: 'коричневом', gender: 'neuter', number: 'singular', case: 'prepositional' },
+        { form: 'коричневые', number: 'plural', case: 'nominative' },
+        { form: 'коричневых', number: 'plural', case: 'genitive' },
+        { form: 'коричневым', number: 'plural', case: 'dative' },
+        { form: 'коричневые', number: 'plural', case: 'accusative' },
+        { form: 'коричневыми', number: 'plural', case: 'instrumental' },
+        { form: 'коричневых', number: 'plural', case: 'prepositional' },
+      ],
+    },
   },
   extended: {
     names: [
@@ -78,4 +366,21 @@ export const ru: ColorDictionary = {
       0.630457, -0.056824, -0.17765,
     ]),
   },
+  modifiers: {
+    light: 'светло-{name}',
+    dark: 'темно-{name}',
+    pale: 'бледно-{name}',
+    vivid: 'ярко-{name}',
+    greyish: 'серо-{name}',
+    ish: '{tint}-{name}',
+    tints: {
+      'красный': 'красновато',
+      'зеленый': 'зеленовато',
+      'синий': 'синевато',
+      'голубой': 'голубовато',
+      'желтый': 'желтовато',
+      'коричневый': 'коричневато',
+      'розовый': 'розовато',
+    },
+  },
 };
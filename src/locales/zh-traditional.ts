@@ -163,5 +163,49 @@ export const zh_traditional: ColorDictionary = {
       0.482901, -0.014654, -0.024334,
       0.212297, 0.002437, -0.021825,
     ]),
+    tree: new Uint8Array([
+      75, 68, 84, 49, 77, 0, 0, 0, 115, 245, 171, 62, 205, 231, 220, 188, 74, 64, 236, 189, 131, 247, 213, 62, 116, 179, 63, 189, 142, 147, 162, 189,
+      136, 216, 216, 62, 67, 171, 147, 188, 29, 57, 178, 189, 132, 71, 219, 62, 68, 194, 247, 187, 61, 71, 36, 189, 88, 169, 4, 63, 219, 133, 230, 59,
+      126, 252, 37, 190, 157, 190, 14, 63, 47, 78, 124, 189, 49, 8, 204, 189, 78, 122, 19, 63, 188, 173, 148, 189, 181, 27, 157, 189, 72, 25, 29, 63,
+      191, 212, 79, 189, 62, 37, 135, 189, 88, 169, 4, 63, 219, 133, 230, 59, 126, 252, 37, 190, 85, 23, 16, 63, 143, 141, 128, 189, 216, 211, 14, 189,
+      205, 62, 247, 62, 85, 23, 112, 188, 25, 88, 199, 188, 255, 118, 209, 62, 128, 184, 43, 188, 79, 202, 36, 188, 99, 100, 89, 62, 19, 182, 31, 59,
+      88, 202, 178, 188, 150, 34, 233, 62, 81, 164, 123, 60, 232, 79, 155, 61, 250, 8, 0, 63, 179, 93, 129, 61, 116, 92, 13, 187, 234, 174, 32, 63,
+      118, 84, 181, 189, 130, 201, 13, 61, 29, 113, 0, 63, 249, 162, 221, 189, 215, 104, 57, 61, 0, 139, 32, 63, 30, 79, 75, 189, 11, 181, 102, 61,
+      246, 41, 11, 63, 194, 23, 134, 61, 111, 186, 197, 61, 88, 146, 4, 63, 237, 182, 139, 61, 33, 64, 134, 61, 227, 82, 181, 62, 161, 100, 146, 61,
+      203, 242, 53, 61, 235, 170, 184, 62, 245, 76, 143, 61, 135, 23, 68, 61, 80, 82, 160, 62, 82, 12, 0, 62, 65, 42, 133, 189, 95, 239, 238, 62,
+      201, 232, 16, 62, 201, 58, 92, 61, 217, 179, 239, 62, 75, 33, 16, 62, 9, 26, 35, 190, 78, 213, 1, 63, 133, 121, 143, 61, 250, 125, 255, 188,
+      118, 250, 25, 63, 106, 218, 5, 62, 232, 107, 22, 61, 231, 254, 34, 63, 35, 19, 32, 62, 167, 36, 43, 61, 187, 96, 16, 63, 205, 118, 53, 62,
+      127, 221, 41, 61, 254, 182, 7, 63, 250, 123, 57, 62, 147, 28, 144, 61, 146, 33, 191, 62, 142, 90, 1, 62, 123, 163, 150, 61, 134, 199, 6, 63,
+      177, 219, 167, 61, 222, 141, 165, 61, 208, 95, 8, 63, 120, 150, 48, 62, 129, 124, 169, 61, 193, 198, 1, 63, 241, 158, 67, 62, 38, 138, 144, 61,
+      137, 210, 18, 63, 16, 89, 196, 61, 207, 130, 144, 61, 249, 104, 21, 63, 151, 172, 58, 62, 27, 100, 210, 61, 173, 23, 27, 63, 158, 124, 90, 62,
+      90, 188, 248, 61, 99, 67, 35, 63, 59, 223, 95, 62, 127, 247, 238, 61, 206, 250, 36, 63, 237, 11, 24, 190, 121, 117, 174, 61, 96, 145, 59, 63,
+      161, 216, 234, 189, 9, 164, 68, 60, 185, 26, 37, 63, 181, 23, 1, 190, 105, 53, 36, 61, 119, 103, 53, 63, 121, 35, 147, 189, 31, 45, 78, 188,
+      202, 49, 73, 63, 189, 172, 9, 188, 40, 239, 227, 187, 255, 61, 92, 63, 25, 145, 8, 190, 21, 173, 220, 188, 154, 37, 101, 63, 58, 8, 218, 189,
+      171, 91, 61, 189, 78, 151, 109, 63, 204, 184, 169, 188, 107, 101, 66, 188, 26, 249, 124, 63, 64, 218, 127, 184, 176, 30, 119, 60, 88, 168, 113, 63,
+      248, 222, 95, 58, 151, 26, 161, 60, 121, 87, 77, 63, 109, 144, 41, 190, 87, 176, 77, 61, 116, 124, 48, 63, 108, 234, 60, 190, 62, 177, 14, 62,
+      149, 124, 76, 63, 3, 204, 92, 190, 218, 115, 41, 62, 46, 203, 75, 63, 40, 215, 212, 189, 19, 240, 11, 62, 137, 181, 72, 63, 173, 161, 84, 188,
+      232, 135, 33, 62, 117, 85, 80, 63, 236, 23, 108, 188, 137, 149, 33, 62, 13, 109, 80, 63, 68, 162, 0, 190, 208, 185, 43, 62, 70, 235, 112, 63,
+      140, 104, 59, 189, 54, 116, 51, 62, 73, 131, 91, 63, 48, 189, 125, 188, 55, 24, 42, 62, 220, 213, 95, 63, 223, 138, 68, 188, 179, 207, 51, 62,
+      129, 206, 116, 63, 82, 210, 195, 58, 45, 122, 167, 187, 102, 249, 54, 63, 185, 224, 12, 62, 246, 178, 45, 61, 89, 53, 40, 63, 35, 134, 45, 62,
+      231, 85, 221, 61, 183, 213, 40, 63, 248, 252, 48, 62, 131, 49, 162, 61, 217, 7, 37, 63, 157, 46, 91, 62, 130, 254, 226, 61, 158, 95, 56, 63,
+      162, 36, 20, 62, 113, 90, 48, 61, 2, 100, 64, 63, 46, 114, 15, 61, 242, 93, 170, 189, 124, 209, 90, 63, 93, 25, 20, 61, 100, 234, 46, 187,
+      196, 177, 70, 63, 252, 23, 136, 61, 119, 129, 146, 189, 171, 234, 85, 63, 165, 246, 162, 61, 108, 148, 53, 61, 237, 126, 41, 63, 93, 248, 65, 62,
+      229, 182, 253, 61, 190, 219, 56, 63, 143, 254, 183, 61, 12, 30, 22, 62, 66, 122, 74, 63, 23, 12, 110, 61, 72, 223, 36, 62, 0, 172, 42, 63,
+      111, 246, 55, 62, 44, 128, 9, 62, 55, 112, 43, 63, 111, 101, 57, 62, 170, 73, 0, 62, 224, 216, 83, 63, 10, 18, 91, 60, 111, 129, 20, 62,
+      176, 28, 85, 63, 183, 208, 21, 59, 228, 74, 29, 62, 176, 28, 85, 63, 183, 208, 21, 59, 228, 74, 29, 62, 169, 74, 91, 63, 37, 144, 146, 60,
+      178, 17, 24, 62, 38, 0, 0, 0, 35, 0, 0, 0, 43, 0, 0, 0, 42, 0, 0, 0, 34, 0, 0, 0, 36, 0, 0, 0, 39, 0, 0, 0,
+      37, 0, 0, 0, 41, 0, 0, 0, 40, 0, 0, 0, 75, 0, 0, 0, 72, 0, 0, 0, 76, 0, 0, 0, 60, 0, 0, 0, 69, 0, 0, 0,
+      46, 0, 0, 0, 48, 0, 0, 0, 49, 0, 0, 0, 59, 0, 0, 0, 58, 0, 0, 0, 56, 0, 0, 0, 74, 0, 0, 0, 67, 0, 0, 0,
+      0, 0, 0, 0, 68, 0, 0, 0, 70, 0, 0, 0, 17, 0, 0, 0, 15, 0, 0, 0, 11, 0, 0, 0, 10, 0, 0, 0, 6, 0, 0, 0,
+      57, 0, 0, 0, 7, 0, 0, 0, 9, 0, 0, 0, 55, 0, 0, 0, 8, 0, 0, 0, 16, 0, 0, 0, 13, 0, 0, 0, 50, 0, 0, 0,
+      44, 0, 0, 0, 51, 0, 0, 0, 31, 0, 0, 0, 71, 0, 0, 0, 32, 0, 0, 0, 33, 0, 0, 0, 62, 0, 0, 0, 61, 0, 0, 0,
+      63, 0, 0, 0, 45, 0, 0, 0, 54, 0, 0, 0, 53, 0, 0, 0, 47, 0, 0, 0, 26, 0, 0, 0, 25, 0, 0, 0, 52, 0, 0, 0,
+      23, 0, 0, 0, 24, 0, 0, 0, 27, 0, 0, 0, 73, 0, 0, 0, 18, 0, 0, 0, 5, 0, 0, 0, 12, 0, 0, 0, 2, 0, 0, 0,
+      14, 0, 0, 0, 66, 0, 0, 0, 64, 0, 0, 0, 65, 0, 0, 0, 19, 0, 0, 0, 1, 0, 0, 0, 20, 0, 0, 0, 22, 0, 0, 0,
+      3, 0, 0, 0, 4, 0, 0, 0, 28, 0, 0, 0, 30, 0, 0, 0, 21, 0, 0, 0, 29, 0, 0, 0, 0, 2, 1, 2, 0, 0, 2, 1,
+      2, 2, 0, 2, 1, 2, 0, 0, 2, 1, 2, 1, 0, 2, 1, 2, 0, 0, 2, 1, 2, 2, 0, 2, 1, 2, 0, 2, 1, 2, 0, 0,
+      2, 1, 2, 0, 0, 2, 1, 2, 2, 0, 2, 1, 2, 0, 0, 2, 1, 2, 1, 0, 2, 1, 2, 0, 0, 2, 1, 2, 2, 0, 2, 1,
+      2, 0, 2, 1, 2,
+    ]),
   },
 };
@@ -78,4 +78,21 @@ export const zh: ColorDictionary = {
       0.706588, 0.09258, 0.138035,
     ]),
   },
+  modifiers: {
+    light: '浅{name}',
+    dark: '深{name}',
+    pale: '淡{name}',
+    vivid: '鲜{name}',
+    greyish: '灰{name}',
+    ish: '{tint}{name}',
+    tints: {
+      '红色': '红',
+      '绿色': '绿',
+      '蓝色': '蓝',
+      '黄色': '黄',
+      '紫色': '紫',
+      '棕色': '棕',
+      '粉色': '粉',
+    },
+  },
 };
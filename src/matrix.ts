@@ -0,0 +1,111 @@
+import { listColorNames, listLocales, nearestColors, resolveDict } from './naming.ts';
+import type { LocaleInput, TranslationMatrix, TranslationMatrixOptions, TranslationMatrixRow } from './types.ts';
+
+/** CSV columns, in order. */
+const CSV_HEADER = ['from', 'to', 'source', 'source_level', 'rank', 'target', 'target_level', 'distance'];
+
+/**
+ * Map every name of one locale to its nearest names in another, for reviewing
+ * a color-term glossary per language pair.
+ *
+ * @param from - The source locale (tag, `Intl.Locale`, list, or ColorDictionary).
+ * @param to - The target locale (tag, `Intl.Locale`, list, or ColorDictionary).
+ * @param options - Naming options for the target locale, plus the number of matches per name.
+ * @returns The matrix, or `null` if either locale is not found.
+ *
+ * @example
+ * ```ts
+ * const matrix = translationMatrix('en', 'de', { count: 2 });
+ * matrix?.rows[0]; // { source: 'black', sourceLevel: 'basic', rank: 1, target: 'schwarz', ... }
+ * JSON.stringify(matrix);
+ * ```
+ */
+export function translationMatrix(
+  from: LocaleInput,
+  to: LocaleInput,
+  options?: TranslationMatrixOptions,
+): TranslationMatrix | null {
+  const fromDict = resolveDict(from);
+  const toDict = resolveDict(to);
+  if (!fromDict || !toDict) return null;
+
+  const rows: TranslationMatrixRow[] = [];
+  for (const source of listColorNames(fromDict)) {
+    nearestColors(source.color, to, options?.count ?? 3, options).forEach((target, i) => {
+      rows.push({
+        source: source.name,
+        sourceLevel: source.level,
+        rank: i + 1,
+        target: target.name,
+        targetLevel: target.level,
+        distance: target.distance,
+      });
+    });
+  }
+
+  return { from: fromDict.locale, to: toDict.locale, rows };
+}
+
+/**
+ * Compute the translation matrix for every ordered pair of locales.
+ *
+ * @param locales - The locales to pair up. Defaults to every registered locale.
+ * @param options - Options passed to {@link translationMatrix}.
+ * @returns One matrix per ordered pair of distinct locales that were found.
+ *
+ * @example
+ * ```ts
+ * const matrices = translationMatrices(['en', 'de', 'ja']); // en→de, en→ja, de→en, ...
+ * ```
+ */
+export function translationMatrices(
+  locales: readonly LocaleInput[] = listLocales(),
+  options?: TranslationMatrixOptions,
+): TranslationMatrix[] {
+  const matrices: TranslationMatrix[] = [];
+  for (const from of locales) {
+    for (const to of locales) {
+      if (from === to) continue;
+      const matrix = translationMatrix(from, to, options);
+      if (matrix) matrices.push(matrix);
+    }
+  }
+  return matrices;
+}
+
+/**
+ * Quote a CSV field if it contains a delimiter, quote or line break (RFC 4180).
+ *
+ * @param value - The field value.
+ * @returns The field, quoted when needed.
+ */
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+/**
+ * Serialize translation matrices to CSV, one row per source name and match,
+ * with a header row. Several matrices are concatenated under one header.
+ *
+ * @param matrices - A matrix or list of matrices.
+ * @returns The CSV text, with CRLF line endings.
+ *
+ * @example
+ * ```ts
+ * translationMatrixToCSV(translationMatrix('en', 'de')!);
+ * // from,to,source,source_level,rank,target,target_level,distance
+ * // en,de,black,basic,1,schwarz,extended,0.2513963708457019
+ * ```
+ */
+export function translationMatrixToCSV(matrices: TranslationMatrix | readonly TranslationMatrix[]): string {
+  const lines = [CSV_HEADER.join(',')];
+  for (const { from, to, rows } of Array.isArray(matrices) ? matrices : [matrices]) {
+    for (const row of rows) {
+      lines.push([from, to, row.source, row.sourceLevel, row.rank, row.target, row.targetLevel, row.distance]
+        .map(csvField)
+        .join(','));
+    }
+  }
+  return lines.join('\r\n') + '\r\n';
+}
@@ -0,0 +1,243 @@
+/**
+ * Perceptual color-difference metrics operating on OkLab `[l, a, b]` tuples.
+ *
+ * The naming engine stores every centroid in OkLab, so each metric takes two
+ * OkLab points and converts internally where needed (CIE formulas work on
+ * CIELAB D65, matching culori's `lab65` mode). Conversions are done inline
+ * rather than through culori so metrics work without any extra `useMode()`
+ * registration and without allocating intermediate color objects.
+ */
+import type { DistanceMetric } from './types.ts';
+
+/**
+ * A color-difference function over two OkLab points.
+ * The first argument is the reference ("standard") color — a dictionary
+ * centroid when naming — and the second is the sample being compared.
+ */
+export type DistanceFn = (
+  std: [number, number, number],
+  smp: [number, number, number],
+) => number;
+
+/** CIE D65 reference white, as used by culori's `lab65` mode. */
+const D65_X = 0.3127 / 0.329;
+const D65_Z = (1 - 0.3127 - 0.329) / 0.329;
+const LAB_E = Math.pow(6, 3) / Math.pow(29, 3);
+const LAB_K = Math.pow(29, 3) / Math.pow(3, 3);
+
+/**
+ * Convert an OkLab point to CIELAB (D65).
+ * Goes OkLab → linear sRGB → XYZ-D65 → Lab-D65 using culori's matrices.
+ *
+ * @param lab - An `[l, a, b]` tuple in OkLab space.
+ * @returns An `[L, a, b]` tuple in CIELAB D65 (L in 0–100).
+ */
+export function oklabToLab65(lab: [number, number, number]): [number, number, number] {
+  const [l, a, b] = lab;
+  const L = Math.pow(l + 0.3963377773761749 * a + 0.2158037573099136 * b, 3);
+  const M = Math.pow(l - 0.1055613458156586 * a - 0.0638541728258133 * b, 3);
+  const S = Math.pow(l - 0.0894841775298119 * a - 1.2914855480194092 * b, 3);
+
+  const r = 4.0767416360759574 * L - 3.3077115392580616 * M + 0.2309699031821044 * S;
+  const g = -1.2684379732850317 * L + 2.6097573492876887 * M - 0.3413193760026573 * S;
+  const bl = -0.0041960761386756 * L - 0.7034186179359362 * M + 1.7076146940746117 * S;
+
+  const x = 0.4123907992659593 * r + 0.357584339383878 * g + 0.1804807884018343 * bl;
+  const y = 0.2126390058715102 * r + 0.715168678767756 * g + 0.0721923153607337 * bl;
+  const z = 0.0193308187155918 * r + 0.119194779794626 * g + 0.9505321522496607 * bl;
+
+  const f0 = labF(x / D65_X);
+  const f1 = labF(y);
+  const f2 = labF(z / D65_Z);
+  return [116 * f1 - 16, 500 * (f0 - f1), 200 * (f1 - f2)];
+}
+
+/**
+ * The CIELAB companding function.
+ *
+ * @param value - A white-normalized XYZ component.
+ * @returns The companded value.
+ */
+function labF(value: number): number {
+  return value > LAB_E ? Math.cbrt(value) : (LAB_K * value + 16) / 116;
+}
+
+/**
+ * Euclidean distance in OkLab — the library's default metric.
+ *
+ * @param std - Reference OkLab point.
+ * @param smp - Sample OkLab point.
+ * @returns The Euclidean distance.
+ */
+export function deltaEOk(std: [number, number, number], smp: [number, number, number]): number {
+  const dl = std[0] - smp[0];
+  const da = std[1] - smp[1];
+  const db = std[2] - smp[2];
+  return Math.sqrt(dl * dl + da * da + db * db);
+}
+
+/**
+ * Create a weighted Euclidean OkLab metric.
+ *
+ * @param weights - Per-axis multipliers `[wL, wA, wB]` applied to the squared differences.
+ * @returns A distance function.
+ */
+function weightedOklab(weights: [number, number, number]): DistanceFn {
+  const [wl, wa, wb] = weights;
+  return (std, smp) => {
+    const dl = std[0] - smp[0];
+    const da = std[1] - smp[1];
+    const db = std[2] - smp[2];
+    return Math.sqrt(wl * dl * dl + wa * da * da + wb * db * db);
+  };
+}
+
+/**
+ * CIE94 color difference (graphic arts constants).
+ *
+ * @param std - Reference OkLab point.
+ * @param smp - Sample OkLab point.
+ * @returns ΔE94 in CIELAB units.
+ */
+function cie94(std: [number, number, number], smp: [number, number, number]): number {
+  const [lStd, aStd, bStd] = oklabToLab65(std);
+  const [lSmp, aSmp, bSmp] = oklabToLab65(smp);
+  const cStd = Math.sqrt(aStd * aStd + bStd * bStd);
+  const cSmp = Math.sqrt(aSmp * aSmp + bSmp * bSmp);
+
+  const dL2 = (lStd - lSmp) ** 2;
+  const dC2 = (cStd - cSmp) ** 2;
+  const dH2 = Math.max(0, (aStd - aSmp) ** 2 + (bStd - bSmp) ** 2 - dC2);
+
+  return Math.sqrt(dL2 + dC2 / (1 + 0.045 * cStd) ** 2 + dH2 / (1 + 0.015 * cStd) ** 2);
+}
+
+/**
+ * CIEDE2000 color difference, after Sharma, Wu & Dalal (2005).
+ *
+ * @param std - Reference OkLab point.
+ * @param smp - Sample OkLab point.
+ * @returns ΔE2000 in CIELAB units.
+ */
+function ciede2000(std: [number, number, number], smp: [number, number, number]): number {
+  const [lStd, aStd, bStd] = oklabToLab65(std);
+  const [lSmp, aSmp, bSmp] = oklabToLab65(smp);
+  const cStd = Math.sqrt(aStd * aStd + bStd * bStd);
+  const cSmp = Math.sqrt(aSmp * aSmp + bSmp * bSmp);
+
+  const cAvg7 = ((cStd + cSmp) / 2) ** 7;
+  const G = 0.5 * (1 - Math.sqrt(cAvg7 / (cAvg7 + 25 ** 7)));
+
+  const apStd = aStd * (1 + G);
+  const apSmp = aSmp * (1 + G);
+  const cpStd = Math.sqrt(apStd * apStd + bStd * bStd);
+  const cpSmp = Math.sqrt(apSmp * apSmp + bSmp * bSmp);
+
+  let hpStd = apStd === 0 && bStd === 0 ? 0 : Math.atan2(bStd, apStd);
+  if (hpStd < 0) hpStd += 2 * Math.PI;
+  let hpSmp = apSmp === 0 && bSmp === 0 ? 0 : Math.atan2(bSmp, apSmp);
+  if (hpSmp < 0) hpSmp += 2 * Math.PI;
+
+  const dL = lSmp - lStd;
+  const dC = cpSmp - cpStd;
+
+  let dhp = cpStd * cpSmp === 0 ? 0 : hpSmp - hpStd;
+  if (dhp > Math.PI) dhp -= 2 * Math.PI;
+  if (dhp < -Math.PI) dhp += 2 * Math.PI;
+  const dH = 2 * Math.sqrt(cpStd * cpSmp) * Math.sin(dhp / 2);
+
+  const Lp = (lStd + lSmp) / 2;
+  const Cp = (cpStd + cpSmp) / 2;
+
+  let hp: number;
+  if (cpStd * cpSmp === 0) {
+    hp = hpStd + hpSmp;
+  } else {
+    hp = (hpStd + hpSmp) / 2;
+    if (Math.abs(hpStd - hpSmp) > Math.PI) hp -= Math.PI;
+    if (hp < 0) hp += 2 * Math.PI;
+  }
+
+  const Lpm50 = (Lp - 50) ** 2;
+  const T =
+    1 -
+    0.17 * Math.cos(hp - Math.PI / 6) +
+    0.24 * Math.cos(2 * hp) +
+    0.32 * Math.cos(3 * hp + Math.PI / 30) -
+    0.2 * Math.cos(4 * hp - (63 * Math.PI) / 180);
+
+  const Sl = 1 + (0.015 * Lpm50) / Math.sqrt(20 + Lpm50);
+  const Sc = 1 + 0.045 * Cp;
+  const Sh = 1 + 0.015 * Cp * T;
+
+  const deltaTheta = ((30 * Math.PI) / 180) * Math.exp(-((((180 / Math.PI) * hp - 275) / 25) ** 2));
+  const Cp7 = Cp ** 7;
+  const Rc = 2 * Math.sqrt(Cp7 / (Cp7 + 25 ** 7));
+  const Rt = -Math.sin(2 * deltaTheta) * Rc;
+
+  return Math.sqrt(
+    (dL / Sl) ** 2 + (dC / Sc) ** 2 + (dH / Sh) ** 2 + Rt * (dC / Sc) * (dH / Sh),
+  );
+}
+
+/**
+ * Create a CMC l:c color difference function.
+ *
+ * @param l - Lightness weight (`2` for acceptability, `1` for perceptibility).
+ * @param c - Chroma weight.
+ * @returns A distance function yielding ΔE CMC in CIELAB units.
+ */
+function cmc(l: number, c: number): DistanceFn {
+  return (std, smp) => {
+    const [lStd, aStd, bStd] = oklabToLab65(std);
+    const [lSmp, aSmp, bSmp] = oklabToLab65(smp);
+    const cStd = Math.sqrt(aStd * aStd + bStd * bStd);
+    const cSmp = Math.sqrt(aSmp * aSmp + bSmp * bSmp);
+    let hStd = Math.atan2(bStd, aStd);
+    if (hStd < 0) hStd += 2 * Math.PI;
+
+    const dL2 = (lStd - lSmp) ** 2;
+    const dC2 = (cStd - cSmp) ** 2;
+    const dH2 = Math.max(0, (aStd - aSmp) ** 2 + (bStd - bSmp) ** 2 - dC2);
+
+    const F = Math.sqrt(cStd ** 4 / (cStd ** 4 + 1900));
+    const T =
+      hStd >= (164 / 180) * Math.PI && hStd <= (345 / 180) * Math.PI
+        ? 0.56 + Math.abs(0.2 * Math.cos(hStd + (168 / 180) * Math.PI))
+        : 0.36 + Math.abs(0.4 * Math.cos(hStd + (35 / 180) * Math.PI));
+
+    const Sl = lStd < 16 ? 0.511 : (0.040975 * lStd) / (1 + 0.01765 * lStd);
+    const Sc = (0.0638 * cStd) / (1 + 0.0131 * cStd) + 0.638;
+    const Sh = Sc * (F * T + 1 - F);
+
+    return Math.sqrt(dL2 / (l * Sl) ** 2 + dC2 / (c * Sc) ** 2 + dH2 / Sh ** 2);
+  };
+}
+
+const cmcDefault = cmc(2, 1);
+
+/**
+ * Resolve a metric option to a distance function.
+ * Returns `null` for the default Euclidean OkLab metric so callers can keep
+ * using the k-d tree fast path, which is exact only for that metric.
+ * Unrecognized values also fall back to Euclidean OkLab.
+ *
+ * @param metric - The metric option, or `undefined` for the default.
+ * @returns A distance function, or `null` for plain Euclidean OkLab.
+ */
+export function resolveMetric(metric: DistanceMetric | undefined): DistanceFn | null {
+  if (metric === undefined || metric === 'oklab') return null;
+  if (typeof metric === 'string') {
+    switch (metric) {
+      case 'ciede2000': return ciede2000;
+      case 'cie94': return cie94;
+      case 'cmc': return cmcDefault;
+    }
+  } else {
+    switch (metric.type) {
+      case 'cmc': return cmc(metric.l ?? 2, metric.c ?? 1);
+      case 'weighted-oklab': return weightedOklab(metric.weights);
+    }
+  }
+  return null;
+}
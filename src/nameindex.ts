@@ -0,0 +1,97 @@
+/**
+ * A lookup index over a list of color names, for O(1) reverse lookup and
+ * prefix search (autocomplete) without rescanning the names on every call.
+ *
+ * Names are indexed twice: by their lower-cased spelling, and by their
+ * normalized key (see {@link normalizeColorName}). Normalized keys are also
+ * stored in a trie so every name starting with a prefix can be enumerated.
+ * All results are positions into the original names array; when several
+ * names share a key, the first one wins.
+ */
+import { normalizeColorName } from './normalize.ts';
+
+interface TrieNode {
+  children: Map<string, TrieNode>;
+  /** Positions of the names whose normalized key ends at this node. */
+  positions: number[];
+}
+
+export class NameIndex {
+  readonly #exact = new Map<string, number>();
+  readonly #normalized = new Map<string, number>();
+  readonly #root: TrieNode = { children: new Map(), positions: [] };
+  readonly #locale: string | undefined;
+
+  /** Normalized key of each name, parallel to the names array. */
+  readonly keys: readonly string[];
+
+  /**
+   * Build the index.
+   *
+   * @param names - The names to index, in priority order.
+   * @param locale - The locale used for case folding during normalization.
+   */
+  constructor(names: readonly string[], locale?: string) {
+    this.#locale = locale;
+    const keys: string[] = [];
+
+    names.forEach((name, position) => {
+      const lower = name.toLowerCase();
+      if (!this.#exact.has(lower)) this.#exact.set(lower, position);
+
+      const key = normalizeColorName(name, locale);
+      keys.push(key);
+      if (!this.#normalized.has(key)) this.#normalized.set(key, position);
+
+      let node = this.#root;
+      for (const char of key) {
+        let child = node.children.get(char);
+        if (!child) {
+          child = { children: new Map(), positions: [] };
+          node.children.set(char, child);
+        }
+        node = child;
+      }
+      node.positions.push(position);
+    });
+
+    this.keys = keys;
+  }
+
+  /**
+   * Find a name by its case-insensitive spelling, falling back to its normalized key.
+   *
+   * @param name - The name to find.
+   * @returns The position of the name, or `-1` if it is not indexed.
+   */
+  get(name: string): number {
+    return this.#exact.get(name.toLowerCase())
+      ?? this.#normalized.get(normalizeColorName(name, this.#locale))
+      ?? -1;
+  }
+
+  /**
+   * Find every name whose normalized key starts with the normalized prefix.
+   * Shorter keys come first; names with equal keys keep their indexed order.
+   *
+   * @param prefix - The prefix typed so far.
+   * @returns Positions of the matching names.
+   */
+  withPrefix(prefix: string): number[] {
+    let node: TrieNode | undefined = this.#root;
+    for (const char of normalizeColorName(prefix, this.#locale)) {
+      node = node.children.get(char);
+      if (!node) return [];
+    }
+
+    // Breadth-first, so shorter completions are listed first
+    const result: number[] = [];
+    const queue: TrieNode[] = [node];
+    for (let i = 0; i < queue.length; i++) {
+      const current = queue[i]!;
+      result.push(...current.positions);
+      for (const child of current.children.values()) queue.push(child);
+    }
+    return result;
+  }
+}
@@ -1,87 +1,480 @@
 import { Color } from './Color.ts';
-import { KDTree } from './kdtree.ts';
+import { DEFAULT_SPREAD, logWeight, mahalanobis, normalize } from './confidence.ts';
+import { LookupGrid } from './grid.ts';
+import { KDTree, type NearestResult } from './kdtree.ts';
+import { resolveMetric, type DistanceFn } from './metrics.ts';
+import { NameIndex } from './nameindex.ts';
+import { editDistance, normalizeColorName } from './normalize.ts';
 import type {
+  BuiltinTier,
   ColorDictionary,
   ColorName,
+  ColorNameForm,
+  ColorNameMatch,
+  ColorNameProbability,
   ColorNameSet,
+  GrammaticalFeatures,
+  LocaleInput,
   NamingOptions,
+  SearchOptions,
+  SuggestOptions,
+  TierName,
+  TierSelection,
+  TranslateOptions,
+  TranslationCandidate,
+  TranslationReport,
+  TranslationReportOptions,
   TranslationResult,
+  UseLocaleOptions,
 } from './types.ts';
 
-type Level = 'basic' | 'extended' | 'traditional';
-const LEVELS: Level[] = ['basic', 'extended', 'traditional'];
+/** Built-in tiers, in default precedence order. */
+const LEVELS: BuiltinTier[] = ['basic', 'extended', 'traditional'];
 
-const dictionaries: Record<string, ColorDictionary> = {};
-const trees: Map<string, KDTree> = new Map();
+/** Candidates per tier considered when normalizing naming probabilities. */
+const DISTRIBUTION_CANDIDATES = 16;
+
+/** Minimum share of a source basic term's region for a target basic term to be a translation candidate. */
+const CATEGORY_SHARE = 0.2;
+
+/** sRGB cells along each channel sampled to estimate basic term regions for category translation. */
+const CATEGORY_RESOLUTION = 16;
+
+/** OkLab centers of the sRGB cells sampled for category translation, built on first use. */
+let categorySamples: [number, number, number][] | undefined;
+
+/** Number of nearest centroids rescored as regions by the `region` naming modes. */
+const REGION_CANDIDATES = 32;
+
+/** A tier search result with the key it is ranked by. */
+interface RankedResult extends NearestResult {
+  /** Lower is better; equals `distance` except in `'likelihood'` mode. */
+  rank: number;
+}
+
+/**
+ * A {@link ColorNameProbability} that remembers its position in the tier.
+ *
+ * @internal
+ */
+export interface DistributionEntry extends ColorNameProbability {
+  index: number;
+}
+
+/** A name index over every tier of a dictionary, with each position mapped back to its tier entry. */
+interface DictionaryIndex {
+  names: NameIndex;
+  entries: { level: TierName; index: number }[];
+}
+
+/**
+ * Built k-d trees, keyed by the name set they index. A dictionary swapped by
+ * `useLocale` or `removeLocale` brings new name sets, so a stale tree can
+ * never be served for it.
+ *
+ * @internal
+ */
+export type TreeCache = WeakMap<ColorNameSet, KDTree>;
+
+/**
+ * The mutable state behind a set of naming functions: registered dictionaries
+ * and the caches derived from them.
+ *
+ * @internal
+ */
+export interface RegistryState {
+  dictionaries: Record<string, ColorDictionary>;
+  trees: TreeCache;
+  nameIndexes: WeakMap<ColorDictionary, DictionaryIndex>;
+  defaultLocale: string | undefined;
+}
 
 /**
- * Register a locale dictionary. If the locale already exists, new tiers are
- * merged in and cached k-d trees for that locale are invalidated.
+ * Create an empty registry state.
+ *
+ * @internal
+ * @returns A state with no registered dictionaries.
+ */
+export function createRegistryState(): RegistryState {
+  return { dictionaries: {}, trees: new WeakMap(), nameIndexes: new WeakMap(), defaultLocale: undefined };
+}
+
+/** The registry the exported functions operate on; swapped by {@link withRegistry}. */
+let active: RegistryState = createRegistryState();
+
+/**
+ * Bind a function to a registry state: while it runs, every naming function
+ * it calls reads and writes that state instead of the global registry.
+ * Safe because all naming functions are synchronous.
+ *
+ * @internal
+ * @param state - The registry state to use.
+ * @param fn - The function to bind.
+ * @returns A function with the same signature that runs against `state`.
+ */
+export function withRegistry<A extends unknown[], R>(
+  state: RegistryState,
+  fn: (...args: A) => R,
+): (...args: A) => R {
+  return (...args) => {
+    const previous = active;
+    active = state;
+    try {
+      return fn(...args);
+    } finally {
+      active = previous;
+    }
+  };
+}
+
+/**
+ * Drop the name index built for a registered dictionary. Cached k-d trees are
+ * keyed by name set, so they need no invalidation.
+ *
+ * @param dict - The registered dictionary whose caches are stale.
+ */
+function invalidateCaches(dict: ColorDictionary): void {
+  active.nameIndexes.delete(dict);
+}
+
+/**
+ * Register a locale dictionary. If the locale already exists, the `'merge'`
+ * strategy (default) merges each incoming tier into the registered one, while
+ * `'replace'` swaps the whole dictionary. Merging names that are all new
+ * inserts them into the tier's cached k-d tree; otherwise the cached trees
+ * and name index for that locale are invalidated.
+ * Locale keys are matched case-insensitively.
+ *
+ * Merged entries keep their own `source`, so names layered on top of a bundled
+ * locale report where they came from. Names present in both (compared
+ * case-insensitively) are resolved by `options.duplicates`.
  *
  * @param dict - The color dictionary to register. Its `locale` field is used as the key.
+ * @param options - Optional registration options (strategy, duplicates).
  *
  * @example
  * ```ts
  * import { en } from 'internationalized-color/locales/en';
  * useLocale(en);
+ *
+ * // Layer brand colors on top of the CSS names
+ * useLocale({ locale: 'en', source: 'acme', extended: acmeColors });
+ * nameColor('#e4002b', 'en')?.source; // 'acme'
+ *
+ * // Override the bundled English names entirely
+ * useLocale(myEnglish, { strategy: 'replace' });
  * ```
  */
-export function useLocale(dict: ColorDictionary): void {
-  const existing = dictionaries[dict.locale];
-  if (existing) {
-    if (dict.basic && !existing.basic) existing.basic = dict.basic;
-    if (dict.extended && !existing.extended) existing.extended = dict.extended;
-    if (dict.traditional && !existing.traditional) existing.traditional = dict.traditional;
-    // Invalidate cached trees for this locale
-    for (const level of LEVELS) {
-      trees.delete(`${dict.locale}:${level}`);
+export function useLocale(dict: ColorDictionary, options?: UseLocaleOptions): void {
+  const key = dict.locale.toLowerCase();
+  const existing = active.dictionaries[key];
+
+  if (existing && options?.strategy !== 'replace') {
+    active.nameIndexes.delete(existing);
+    for (const level of tierOrder(dict)) {
+      const incoming = getNameSet(dict, level)!;
+      const current = getNameSet(existing, level);
+      // Re-registering the same data (e.g. from several modules) is a no-op
+      if (incoming === current) continue;
+      const merged = current
+        ? mergeNameSets(current, existing.source, incoming, dict.source, options?.duplicates ?? 'replace')
+        : withSources(incoming, dict.source);
+      if (current) updateTree(current, merged);
+      setNameSet(existing, level, merged);
     }
+    if (dict.tierOrder) existing.tierOrder = dict.tierOrder;
+    if (dict.modifiers && !existing.modifiers) existing.modifiers = dict.modifiers;
   } else {
-    dictionaries[dict.locale] = { ...dict };
+    if (existing) invalidateCaches(existing);
+    active.dictionaries[key] = { ...dict };
+  }
+}
+
+/**
+ * Carry a tier's cached k-d tree over to its merged name set. Names appended
+ * after the current ones are inserted in place; any other change (such as a
+ * duplicate replacing an existing name) shifts indices, so the merged set
+ * gets a new tree on first use. Either way the tree no longer indexes the
+ * current set, so it is removed from that set's cache entry.
+ *
+ * @param current - The tier's name set before merging.
+ * @param merged - The tier's name set after merging.
+ */
+function updateTree(current: ColorNameSet, merged: ColorNameSet): void {
+  const tree = active.trees.get(current);
+  if (!tree) return;
+
+  active.trees.delete(current);
+  if (!current.names.every((name, i) => merged.names[i] === name)) return;
+
+  grids.delete(tree);
+  const colors = merged.colors;
+  for (let i = current.names.length; i < merged.names.length; i++) {
+    tree.insert([colors[i * 3]!, colors[i * 3 + 1]!, colors[i * 3 + 2]!], i);
+  }
+  active.trees.set(merged, tree);
+}
+
+/**
+ * Attribute every entry of a name set to a source, unless it already carries
+ * per-entry sources or uses the dictionary's own source.
+ *
+ * @param set - The name set being added to a registered dictionary.
+ * @param source - The source of the dictionary it came from.
+ * @returns A name set whose entries report `source`.
+ */
+function withSources(set: ColorNameSet, source: string): ColorNameSet {
+  if (set.sources) return set;
+  return { ...set, sources: set.names.map(() => source) };
+}
+
+/**
+ * Merge two name sets into a new one, concatenating names and centroids.
+ * Per-name radii and survey statistics are kept if either set has them.
+ * Entries of the other set get the default spread, and in the statistics a
+ * count of 1 and the isotropic covariance of their radius, so they are
+ * modelled as they were before merging.
+ * Neither input is modified, so bundled locale data stays intact.
+ *
+ * @param current - The registered name set.
+ * @param currentSource - Source of the registered dictionary, for entries without their own.
+ * @param incoming - The name set being merged in.
+ * @param incomingSource - Source of the incoming dictionary, for entries without their own.
+ * @param duplicates - How to resolve names present in both sets.
+ * @returns The merged name set.
+ */
+function mergeNameSets(
+  current: ColorNameSet,
+  currentSource: string,
+  incoming: ColorNameSet,
+  incomingSource: string,
+  duplicates: NonNullable<UseLocaleOptions['duplicates']>,
+): ColorNameSet {
+  const incomingNames = new Set(incoming.names.map((n) => n.toLowerCase()));
+  const currentNames = new Set(current.names.map((n) => n.toLowerCase()));
+
+  const names: string[] = [];
+  const sources: string[] = [];
+  const colors: number[] = [];
+  const radii: number[] = [];
+  const counts: number[] = [];
+  const covariances: number[] = [];
+  const forms: Record<string, ColorNameForm[]> = {};
+
+  const append = (set: ColorNameSet, source: string, skip: Set<string> | undefined) => {
+    set.names.forEach((name, i) => {
+      if (skip?.has(name.toLowerCase())) return;
+      names.push(name);
+      sources.push(set.sources?.[i] ?? source);
+      colors.push(set.colors[i * 3]!, set.colors[i * 3 + 1]!, set.colors[i * 3 + 2]!);
+      radii.push(set.radii?.[i] ?? DEFAULT_SPREAD);
+      if (set.stats) {
+        counts.push(set.stats.counts[i]!);
+        for (let k = 0; k < 6; k++) covariances.push(set.stats.covariances[i * 6 + k]!);
+      } else {
+        const variance = radii[radii.length - 1]! ** 2;
+        counts.push(1);
+        covariances.push(variance, 0, 0, variance, 0, variance);
+      }
+      const nameForms = set.forms?.[name];
+      if (nameForms) forms[name] = nameForms;
+    });
+  };
+
+  append(current, currentSource, duplicates === 'replace' ? incomingNames : undefined);
+  append(incoming, incomingSource, duplicates === 'keep-existing' ? currentNames : undefined);
+
+  const merged: ColorNameSet = { names, colors: new Float32Array(colors), sources };
+  if (current.radii || incoming.radii) merged.radii = new Float32Array(radii);
+  if (current.stats || incoming.stats) {
+    merged.stats = { counts: new Uint32Array(counts), covariances: new Float32Array(covariances) };
   }
+  if (Object.keys(forms).length > 0) merged.forms = forms;
+  return merged;
 }
 
 /**
- * Retrieve a previously registered locale dictionary.
+ * Unregister a locale dictionary and drop its cached k-d trees and name index.
+ *
+ * @param locale - The locale identifier it was registered under (case-insensitive).
+ * @returns `true` if a dictionary was removed, `false` if none was registered.
+ *
+ * @example
+ * ```ts
+ * removeLocale('en');
+ * nameColor('#ff0000', 'en'); // null
+ * ```
+ */
+export function removeLocale(locale: string): boolean {
+  const key = locale.toLowerCase();
+  const existing = active.dictionaries[key];
+  if (!existing) return false;
+
+  invalidateCaches(existing);
+  delete active.dictionaries[key];
+  return true;
+}
+
+/**
+ * Retrieve a previously registered locale dictionary by the key it was
+ * registered under, compared case-insensitively (`'EN'` finds `'en'`).
+ * Unlike the naming functions, no BCP 47 fallback is applied, so `'en-US'`
+ * does not find `'en'`.
  *
  * @param locale - The locale identifier (e.g. `'en'`, `'ja'`, `'zh'`).
  * @returns The registered dictionary, or `undefined` if not found.
  */
 export function getLocale(locale: string): ColorDictionary | undefined {
-  return dictionaries[locale];
+  return active.dictionaries[locale.toLowerCase()];
+}
+
+/**
+ * List the locales of every registered dictionary, in registration order.
+ *
+ * @returns The registered locale identifiers (e.g. `['en', 'ja']`).
+ */
+export function listLocales(): string[] {
+  return Object.values(active.dictionaries).map((dict) => dict.locale);
+}
+
+/**
+ * Set the locale used as the last step of every fallback chain, when none of
+ * the requested locales (or their parents) are registered.
+ *
+ * @param locale - A locale tag such as `'en'`, or `undefined` to clear the default.
+ *
+ * @example
+ * ```ts
+ * setDefaultLocale('en');
+ * nameColor('#ff0000', 'xx'); // falls back to English
+ * ```
+ */
+export function setDefaultLocale(locale: string | Intl.Locale | undefined): void {
+  active.defaultLocale = locale?.toString();
+}
+
+/**
+ * Build the BCP 47 lookup fallback chain for a language tag, most specific first
+ * (RFC 4647 §3.4). The tag is canonicalized when it is well-formed; keys that are
+ * not valid BCP 47 (e.g. `'ja-traditional'`) are still truncated subtag by subtag.
+ *
+ * @param tag - A language tag (e.g. `'de-AT'`, `'zh-Hant-TW'`).
+ * @returns The chain of tags to try, e.g. `['de-AT', 'de']`.
+ */
+function localeFallbacks(tag: string): string[] {
+  const chain: string[] = [tag];
+  let canonical = tag;
+  try {
+    canonical = Intl.getCanonicalLocales(tag)[0] ?? tag;
+  } catch {
+    // Not a well-formed BCP 47 tag — fall back to plain subtag truncation
+  }
+
+  const subtags = canonical.split('-');
+  while (subtags.length > 0) {
+    chain.push(subtags.join('-'));
+    subtags.pop();
+    // Never leave a dangling extension singleton (e.g. the `u` in `de-u-co`)
+    if (subtags.length > 0 && subtags[subtags.length - 1]!.length === 1) subtags.pop();
+  }
+  return chain;
+}
+
+/**
+ * Pick the best available locale for a list of requested locales, using BCP 47
+ * lookup (RFC 4647): each requested tag is tried with its subtags progressively
+ * truncated (`de-AT` → `de`) before moving on to the next one. If nothing matches,
+ * the default set via {@link setDefaultLocale} is used when it is available.
+ *
+ * @param requested - Requested locales in priority order, e.g. `navigator.languages`.
+ * @param available - Candidate locales. Defaults to all registered locales.
+ * @returns The matching entry from `available`, or `undefined` if none matches.
+ *
+ * @example
+ * ```ts
+ * negotiateLocale(['de-AT', 'en-US'], ['en', 'de']); // 'de'
+ * negotiateLocale(navigator.languages);              // best registered locale
+ * ```
+ */
+export function negotiateLocale(
+  requested: string | Intl.Locale | readonly (string | Intl.Locale)[],
+  available: readonly string[] = Object.values(active.dictionaries).map((d) => d.locale),
+): string | undefined {
+  const byKey = new Map<string, string>();
+  for (const locale of available) byKey.set(locale.toLowerCase(), locale);
+
+  const list = typeof requested === 'string' || requested instanceof Intl.Locale
+    ? [requested]
+    : requested;
+
+  for (const item of list) {
+    for (const candidate of localeFallbacks(item.toString())) {
+      const match = byKey.get(candidate.toLowerCase());
+      if (match !== undefined) return match;
+    }
+  }
+
+  if (active.defaultLocale !== undefined) {
+    for (const candidate of localeFallbacks(active.defaultLocale)) {
+      const match = byKey.get(candidate.toLowerCase());
+      if (match !== undefined) return match;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check whether a locale reference is an inline dictionary rather than a locale tag.
+ *
+ * @param locale - The locale reference.
+ * @returns `true` if `locale` is a ColorDictionary object.
+ */
+function isDictionary(locale: LocaleInput): locale is ColorDictionary {
+  return typeof locale === 'object' && !Array.isArray(locale) && !(locale instanceof Intl.Locale);
 }
 
 /**
  * Resolve a locale reference to its dictionary.
- * Accepts either a locale string (looked up in the registry) or a dictionary directly.
+ * Locale tags are negotiated against the registry (see {@link negotiateLocale});
+ * dictionaries are returned as-is.
  *
- * @param locale - A locale identifier string or a ColorDictionary object.
- * @returns The resolved dictionary, or `undefined` if a string locale is not registered.
+ * @internal
+ * @param locale - A locale tag, `Intl.Locale`, list of either, or a ColorDictionary object.
+ * @returns The resolved dictionary, or `undefined` if no registered locale matches.
  */
-function resolveDict(locale: string | ColorDictionary): ColorDictionary | undefined {
-  return typeof locale === 'string' ? dictionaries[locale] : locale;
+export function resolveDict(locale: LocaleInput): ColorDictionary | undefined {
+  if (isDictionary(locale)) return locale;
+  // Fast path: an exact registered tag needs no fallback chain
+  if (typeof locale === 'string') {
+    const key = locale.toLowerCase();
+    if (Object.hasOwn(active.dictionaries, key)) return active.dictionaries[key];
+  }
+  const match = negotiateLocale(locale);
+  return match === undefined ? undefined : active.dictionaries[match.toLowerCase()];
 }
 
 /**
  * Resolve the tree cache to use for a given locale reference.
- * Returns the shared module-level cache for registered string locales,
+ * Returns the shared module-level cache for registered locales,
  * or `undefined` for inline dictionaries (no caching).
  *
- * @param locale - A locale identifier string or a ColorDictionary object.
- * @returns The tree cache Map, or `undefined` if caching is not applicable.
+ * @internal
+ * @param locale - A locale tag, `Intl.Locale`, list of either, or a ColorDictionary object.
+ * @returns The tree cache, or `undefined` if caching is not applicable.
  */
-function resolveTreeCache(locale: string | ColorDictionary): Map<string, KDTree> | undefined {
+export function resolveTreeCache(locale: LocaleInput): TreeCache | undefined {
   // Use the module-level cache only for registered locales
-  return typeof locale === 'string' ? trees : undefined;
+  return isDictionary(locale) ? undefined : active.trees;
 }
 
 /**
  * Convert a Color to an OkLab `[l, a, b]` query tuple for k-d tree searches.
  *
+ * @internal
  * @param color - The Color to convert.
  * @returns A 3-element tuple of OkLab coordinates.
  */
-function toOklabQuery(color: Color): [number, number, number] {
+export function toOklabQuery(color: Color): [number, number, number] {
   const oklab = color.toOklab()!;
   return [
     oklab.get('l') ?? 0,
@@ -91,56 +484,191 @@ function toOklabQuery(color: Color): [number, number, number] {
 }
 
 /**
- * Determine which naming tiers to search based on the requested level.
- * Returns all tiers up to and including the specified level, or all tiers if none specified.
+ * Check whether a tier name refers to a built-in tier.
+ *
+ * @param level - The tier name.
+ * @returns `true` for `'basic'`, `'extended'` and `'traditional'`.
+ */
+function isBuiltinTier(level: TierName): level is BuiltinTier {
+  return (LEVELS as string[]).includes(level);
+}
+
+/**
+ * Get the name set of a tier, built-in or custom.
  *
- * @param level - The maximum tier to include. If omitted, all tiers are returned.
- * @returns An array of Level strings to search.
+ * @internal
+ * @param dict - The color dictionary.
+ * @param level - The tier name.
+ * @returns The tier's name set, or `undefined` if the dictionary does not have it.
  */
-function getLevels(level?: Level): Level[] {
-  if (!level) return LEVELS;
-  const idx = LEVELS.indexOf(level);
-  return LEVELS.slice(0, idx + 1);
+export function getNameSet(dict: ColorDictionary, level: TierName): ColorNameSet | undefined {
+  return isBuiltinTier(level) ? dict[level] : dict.tiers?.[level];
+}
+
+/**
+ * Set the name set of a tier on a registered dictionary. Custom tiers are
+ * written to a copy of the `tiers` record, so the caller's object is untouched.
+ *
+ * @param dict - The registered dictionary.
+ * @param level - The tier name.
+ * @param set - The tier's new name set.
+ */
+function setNameSet(dict: ColorDictionary, level: TierName, set: ColorNameSet): void {
+  if (isBuiltinTier(level)) dict[level] = set;
+  else dict.tiers = { ...dict.tiers, [level]: set };
+}
+
+/**
+ * List the tiers of a dictionary that have names, in precedence order:
+ * `tierOrder` first, then any remaining built-in tiers, then remaining custom tiers.
+ *
+ * @internal
+ * @param dict - The color dictionary.
+ * @returns Tier names, highest precedence first.
+ */
+export function tierOrder(dict: ColorDictionary): TierName[] {
+  const order = new Set<TierName>([
+    ...(dict.tierOrder ?? []),
+    ...LEVELS,
+    ...Object.keys(dict.tiers ?? {}).filter((level) => !isBuiltinTier(level)),
+  ]);
+  return [...order].filter((level) => (getNameSet(dict, level)?.names.length ?? 0) > 0);
+}
+
+/**
+ * Determine which naming tiers to search based on the selection options.
+ * An explicit `tiers` list is used as given; otherwise all tiers in precedence
+ * order up to and including `level` (or all tiers if none specified).
+ * `include` and `exclude` then filter the result.
+ *
+ * @internal
+ * @param dict - The color dictionary.
+ * @param selection - The tier selection options.
+ * @returns An array of tier names to search, in search order.
+ */
+export function getLevels(dict: ColorDictionary, selection?: TierSelection): TierName[] {
+  const order = tierOrder(dict);
+  let levels: TierName[];
+  if (selection?.tiers) {
+    levels = [...new Set(selection.tiers)].filter((level) => order.includes(level));
+  } else if (selection?.level) {
+    const idx = order.indexOf(selection.level);
+    levels = idx < 0 ? [] : order.slice(0, idx + 1);
+  } else {
+    levels = order;
+  }
+
+  const { include, exclude } = selection ?? {};
+  return levels.filter((level) => (!include || include.includes(level)) && !exclude?.includes(level));
 }
 
 /**
  * Get or build the k-d tree for a given dictionary tier.
- * Results are cached in the provided cache Map when available.
+ * A prebuilt index on the name set (`tree`) is deserialized instead of
+ * building one. Results are cached per name set in the provided cache when available.
  *
+ * @internal
  * @param dict - The color dictionary containing the tier data.
- * @param level - The naming tier (`'basic'`, `'extended'`, or `'traditional'`).
- * @param cache - Optional Map to cache built trees. Pass `undefined` to skip caching.
+ * @param level - The naming tier (e.g. `'basic'`, `'extended'`, `'traditional'`, or a custom tier).
+ * @param cache - Optional cache of built trees. Pass `undefined` to skip caching.
  * @returns The k-d tree for the tier, or `null` if the tier has no data.
  */
-function getTree(
+export function getTree(
   dict: ColorDictionary,
-  level: Level,
-  cache?: Map<string, KDTree>,
+  level: TierName,
+  cache?: TreeCache,
 ): KDTree | null {
-  const key = `${dict.locale}:${level}`;
+  const nameSet = getNameSet(dict, level);
+  if (!nameSet || nameSet.names.length === 0) return null;
+
+  const cached = cache?.get(nameSet);
+  if (cached) return cached;
+
+  // Prefer the index shipped with the locale data over sorting at runtime
+  const prebuilt = nameSet.tree ? KDTree.deserialize(nameSet.tree) : null;
+  const tree = prebuilt?.size === nameSet.names.length
+    ? prebuilt
+    : new KDTree(nameSet.colors, nameSet.names.length);
+  if (cache) cache.set(nameSet, tree);
+  return tree;
+}
+
+/** Lookup grids built for cached trees, dropped along with their tree. */
+const grids = new WeakMap<KDTree, LookupGrid>();
 
-  if (cache) {
-    const cached = cache.get(key);
-    if (cached) return cached;
+/**
+ * Find the nearest entry of a tier, answering from the tree's lookup grid
+ * when `grid` is set and falling back to the exact tree search for queries
+ * the grid cannot answer. The grid is built on first use and kept for as
+ * long as the tree, so it should only be requested for cached trees.
+ *
+ * @internal
+ * @param nameSet - The tier's name set.
+ * @param tree - The tier's k-d tree.
+ * @param query - An `[l, a, b]` tuple in OkLab space.
+ * @param grid - Whether to use the lookup grid.
+ * @returns The nearest entry and its Euclidean OkLab distance.
+ */
+export function nearestEntry(
+  nameSet: ColorNameSet,
+  tree: KDTree,
+  query: [number, number, number],
+  grid: boolean,
+): NearestResult {
+  if (grid) {
+    let lookup = grids.get(tree);
+    if (!lookup) grids.set(tree, lookup = new LookupGrid(tree, nameSet.colors));
+    const result = lookup.lookup(query);
+    if (result) return result;
   }
+  return tree.nearest(query);
+}
 
-  const nameSet = dict[level];
-  if (!nameSet || nameSet.names.length === 0) return null;
+/**
+ * Name indexes of inline dictionaries, built once per dictionary object.
+ * Inline dictionaries are not copied, so they must not be mutated after use.
+ */
+const inlineIndexes = new WeakMap<ColorDictionary, DictionaryIndex>();
 
-  const tree = new KDTree(nameSet.colors, nameSet.names.length);
-  if (cache) cache.set(key, tree);
-  return tree;
+/**
+ * Get or build the name index over all tiers of a dictionary. Indexes of
+ * registered dictionaries are cached on the registry (and dropped when the
+ * dictionary changes), those of inline dictionaries per dictionary object.
+ *
+ * @param dict - The color dictionary to index.
+ * @param locale - The locale reference `dict` was resolved from, to pick the cache.
+ * @returns The dictionary's name index.
+ */
+function getNameIndex(dict: ColorDictionary, locale: LocaleInput): DictionaryIndex {
+  const cache = isDictionary(locale) ? inlineIndexes : active.nameIndexes;
+  const cached = cache.get(dict);
+  if (cached) return cached;
+
+  const names: string[] = [];
+  const entries: DictionaryIndex['entries'] = [];
+  for (const level of tierOrder(dict)) {
+    const nameSet = getNameSet(dict, level)!;
+    nameSet.names.forEach((name, index) => {
+      names.push(name);
+      entries.push({ level, index });
+    });
+  }
+
+  const index = { names: new NameIndex(names, dict.locale), entries };
+  cache.set(dict, index);
+  return index;
 }
 
 /**
  * Construct a Color instance from a ColorNameSet entry at the given index.
  * Reads 3 consecutive floats from the set's OkLab Float32Array.
  *
+ * @internal
  * @param set - The color name set containing the OkLab centroids.
  * @param index - The index of the color entry.
  * @returns A Color in the OkLab color space.
  */
-function makeColorFromSet(set: ColorNameSet, index: number): Color {
+export function makeColorFromSet(set: ColorNameSet, index: number): Color {
   const offset = index * 3;
   return Color.create('oklab', {
     l: set.colors[offset]!,
@@ -149,14 +677,180 @@ function makeColorFromSet(set: ColorNameSet, index: number): Color {
   });
 }
 
+/**
+ * Build the ColorName result for a ColorNameSet entry, inflecting the name
+ * when grammatical features are requested.
+ *
+ * @param dict - The dictionary the entry belongs to.
+ * @param level - The tier the entry belongs to.
+ * @param index - The index of the entry within the tier.
+ * @param distance - The distance from the query color.
+ * @param grammar - Optional grammatical features to inflect the name for.
+ * @returns The ColorName for the entry.
+ */
+function makeColorName(
+  dict: ColorDictionary,
+  level: TierName,
+  index: number,
+  distance: number,
+  grammar?: GrammaticalFeatures,
+): ColorName {
+  const nameSet = getNameSet(dict, level)!;
+  const lemma = nameSet.names[index]!;
+  const forms = nameSet.forms?.[lemma];
+  const result: ColorName = {
+    name: lemma,
+    color: makeColorFromSet(nameSet, index),
+    distance,
+    source: nameSet.sources?.[index] ?? dict.source,
+    level,
+  };
+  if (forms) result.forms = forms;
+  if (grammar) {
+    result.lemma = lemma;
+    result.name = inflect(lemma, forms, grammar);
+  }
+  return result;
+}
+
+/**
+ * Pick the inflected form of a name matching the requested grammatical features.
+ * A form matches when every feature it declares equals the requested one, with
+ * number defaulting to singular and case to nominative; among matches the form
+ * declaring the most features wins. Falls back to the lemma.
+ *
+ * @param lemma - The dictionary form of the name.
+ * @param forms - The name's inflection table, if any.
+ * @param grammar - The requested grammatical features.
+ * @returns The inflected name, or the lemma if no form matches.
+ */
+function inflect(
+  lemma: string,
+  forms: ColorNameForm[] | undefined,
+  grammar: GrammaticalFeatures,
+): string {
+  if (!forms) return lemma;
+
+  const requested: GrammaticalFeatures = {
+    gender: grammar.gender,
+    number: grammar.number ?? 'singular',
+    case: grammar.case ?? 'nominative',
+  };
+
+  let best: string = lemma;
+  let bestScore = 0;
+  for (const entry of forms) {
+    let score = 0;
+    let matches = true;
+    for (const feature of ['gender', 'number', 'case'] as const) {
+      if (entry[feature] === undefined) continue;
+      if (entry[feature] !== requested[feature]) {
+        matches = false;
+        break;
+      }
+      score++;
+    }
+    if (matches && score > bestScore) {
+      best = entry.form;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Rank every entry of a ColorNameSet against a query under an arbitrary metric.
+ * A linear scan is used because non-Euclidean metrics cannot be pruned by the
+ * k-d tree; name sets are small enough that this stays cheap.
+ *
+ * @internal
+ * @param set - The color name set to scan.
+ * @param query - An `[l, a, b]` tuple in OkLab space.
+ * @param metric - The distance function, called with the centroid as reference.
+ * @param n - The maximum number of results to return.
+ * @returns Up to `n` results sorted by distance (closest first).
+ */
+export function scanNearest(
+  set: ColorNameSet,
+  query: [number, number, number],
+  metric: DistanceFn,
+  n: number,
+): NearestResult[] {
+  const results: NearestResult[] = [];
+  for (let i = 0; i < set.names.length; i++) {
+    const offset = i * 3;
+    const point: [number, number, number] = [
+      set.colors[offset]!,
+      set.colors[offset + 1]!,
+      set.colors[offset + 2]!,
+    ];
+    results.push({ index: i, distance: metric(point, query) });
+  }
+  results.sort((a, b) => a.distance - b.distance);
+  return results.slice(0, n);
+}
+
+/**
+ * Rank the entries of one tier against a query: by the k-d tree for the
+ * default metric and for weighted OkLCh, by a linear scan for other metrics,
+ * or — in a `region` mode — by rescoring the closest centroids as Gaussian
+ * regions.
+ *
+ * @param dict - The dictionary containing the tier.
+ * @param level - The tier to search.
+ * @param query - An `[l, a, b]` tuple in OkLab space.
+ * @param options - Naming options (metric, region, lchWeights).
+ * @param n - The maximum number of results to return.
+ * @param cache - Optional cache of built trees.
+ * @returns Up to `n` results, best first.
+ */
+function searchTier(
+  dict: ColorDictionary,
+  level: TierName,
+  query: [number, number, number],
+  options: NamingOptions | undefined,
+  n: number,
+  cache?: TreeCache,
+): RankedResult[] {
+  const nameSet = getNameSet(dict, level)!;
+  const region = options?.region;
+
+  if (region) {
+    const candidates = getTree(dict, level, cache)?.nearestN(query, Math.max(n, REGION_CANDIDATES)) ?? [];
+    return candidates
+      .map(({ index }) => {
+        const distance = mahalanobis(nameSet, index, query);
+        const rank = region === 'likelihood' ? -logWeight(nameSet, index, query) : distance;
+        return { index, distance, rank };
+      })
+      .sort((a, b) => a.rank - b.rank)
+      .slice(0, n);
+  }
+
+  const weights = options?.lchWeights;
+  const metric = weights ? null : resolveMetric(options?.metric);
+  const tree = metric ? null : getTree(dict, level, cache);
+  let results: NearestResult[];
+  if (metric) results = scanNearest(nameSet, query, metric, n);
+  // The lookup grid is Euclidean, and only worth building for a cached tree
+  else if (n === 1 && options?.grid && !weights && cache) results = tree ? [nearestEntry(nameSet, tree, query, true)] : [];
+  else if (n === 1) results = tree ? [tree.nearest(query, weights)] : [];
+  // With a threshold, a radius query finds every match without guessing a count
+  else if (options?.threshold !== undefined) results = tree?.withinRadius(query, options.threshold, weights).slice(0, n) ?? [];
+  else results = tree?.nearestN(query, n, weights) ?? [];
+  return results.map((result) => ({ ...result, rank: result.distance }));
+}
+
 /**
  * Find the closest named color to a given color in a locale dictionary.
- * Searches tiers from `basic` through the specified level, returning the
- * single best match across all searched tiers.
+ * Searches tiers in precedence order (`basic`, `extended`, `traditional`,
+ * then custom tiers, unless the dictionary sets `tierOrder`) through the
+ * specified level, returning the single best match across all searched tiers,
+ * or the best match of the first tier that has one when `cascade` is set.
  *
  * @param color - The query color, as a Color instance or CSS string.
- * @param locale - A registered locale string (e.g. `'en'`) or a ColorDictionary object.
- * @param options - Optional naming options (level, threshold).
+ * @param locale - A locale tag (e.g. `'en'`, `'de-AT'`), `Intl.Locale`, list of either, or a ColorDictionary object.
+ * @param options - Optional naming options (level, threshold, metric, grammar).
  * @returns The closest named color, or `null` if no match is found.
  *
  * @example
@@ -165,11 +859,17 @@ function makeColorFromSet(set: ColorNameSet, index: number): Color {
  * useLocale(en);
  * const result = nameColor('#ff8800', 'en');
  * result?.name; // 'orange'
+ *
+ * // Inflected for a feminine noun in the genitive: "красной"
+ * nameColor('#ff0000', 'ru', { level: 'basic', grammar: { gender: 'feminine', case: 'genitive' } })?.name;
+ *
+ * // Prefer a custom `brand` tier, falling back to the survey tiers
+ * nameColor('#e4002b', 'en', { tiers: ['brand', 'basic', 'extended'], cascade: true, threshold: 0.05 });
  * ```
  */
 export function nameColor(
   color: Color | string,
-  locale: string | ColorDictionary,
+  locale: LocaleInput,
   options?: NamingOptions,
 ): ColorName | null {
   const c = typeof color === 'string' ? Color.parse(color) : color;
@@ -178,53 +878,175 @@ export function nameColor(
   const dict = resolveDict(locale);
   if (!dict) return null;
 
+  return findName(dict, toOklabQuery(c), options, resolveTreeCache(locale));
+}
+
+/**
+ * Name a color in several locales at once.
+ *
+ * The query is parsed and converted to OkLab once, and each locale reuses its
+ * cached k-d trees, so this is cheaper than calling {@link nameColor} in a loop.
+ * Results are keyed by the locale as given: the tag string, the
+ * `Intl.Locale`'s tag, or the dictionary's `locale`.
+ *
+ * @param color - The query color, as a Color instance or CSS string.
+ * @param locales - Locale tags, `Intl.Locale` objects or ColorDictionary objects.
+ * @param options - Optional naming options, applied to every locale.
+ * @returns The closest named color per locale (`null` where the locale is not
+ *   found or has no match), or `null` if the color cannot be parsed.
+ *
+ * @example
+ * ```ts
+ * nameColorMulti('#ff0000', ['en', 'de', 'ja'], { level: 'basic' });
+ * // → { en: { name: 'red', ... }, de: { name: 'rot', ... }, ja: { name: '赤', ... } }
+ * ```
+ */
+export function nameColorMulti(
+  color: Color | string,
+  locales: readonly (string | Intl.Locale | ColorDictionary)[],
+  options?: NamingOptions,
+): Record<string, ColorName | null> | null {
+  const c = typeof color === 'string' ? Color.parse(color) : color;
+  if (!c) return null;
+
   const query = toOklabQuery(c);
-  const cache = resolveTreeCache(locale);
+  const results: Record<string, ColorName | null> = {};
+  for (const locale of locales) {
+    const key = isDictionary(locale) ? locale.locale : locale.toString();
+    const dict = resolveDict(locale);
+    results[key] = dict ? findName(dict, query, options, resolveTreeCache(locale)) : null;
+  }
+  return results;
+}
+
+/**
+ * Core of {@link nameColor}: find the best match for an OkLab query in an
+ * already-resolved dictionary.
+ *
+ * @internal
+ * @param dict - The dictionary to search.
+ * @param query - An `[l, a, b]` tuple in OkLab space.
+ * @param options - Optional naming options (level, threshold, metric).
+ * @param cache - Optional cache of built trees.
+ * @returns The closest named color, or `null` if no match is found.
+ */
+export function findName(
+  dict: ColorDictionary,
+  query: [number, number, number],
+  options?: NamingOptions,
+  cache?: TreeCache,
+): ColorName | null {
   let best: ColorName | null = null;
+  let bestIndex = -1;
+  let bestRank = Infinity;
 
-  for (const level of getLevels(options?.level)) {
-    const tree = getTree(dict, level, cache);
-    if (!tree) continue;
+  for (const level of getLevels(dict, options)) {
+    // Cascading: a higher-precedence tier with a match wins outright
+    if (best && options?.cascade) break;
 
-    const nameSet = dict[level]!;
-    const result = tree.nearest(query);
-    if (result.index < 0) continue;
+    const result = searchTier(dict, level, query, options, 1, cache)[0];
+    if (!result || result.index < 0) continue;
 
     if (options?.threshold !== undefined && result.distance > options.threshold) continue;
 
-    if (!best || result.distance < best.distance) {
-      best = {
-        name: nameSet.names[result.index]!,
-        color: makeColorFromSet(nameSet, result.index),
-        distance: result.distance,
-        source: dict.source,
-        level,
-      };
+    if (!best || result.rank < bestRank) {
+      best = makeColorName(dict, level, result.index, result.distance, options?.grammar);
+      bestIndex = result.index;
+      bestRank = result.rank;
     }
   }
 
+  if (best && options?.confidence) {
+    attachConfidence(best, bestIndex, nameDistribution(dict, query, options, cache));
+  }
   return best;
 }
 
 /**
- * Find the N closest named colors to a given color, searching all tiers.
+ * Compute the probability of each likely name for a query color under the
+ * Gaussian naming model (see `confidence.ts`). Probabilities are normalized
+ * over the closest {@link DISTRIBUTION_CANDIDATES} names of each searched tier;
+ * names farther away contribute negligibly.
+ *
+ * @internal
+ * @param dict - The dictionary to search.
+ * @param query - An `[l, a, b]` tuple in OkLab space.
+ * @param options - Tier selection options.
+ * @param cache - Optional cache of built trees.
+ * @returns Candidate entries with their probabilities, most likely first.
+ */
+export function nameDistribution(
+  dict: ColorDictionary,
+  query: [number, number, number],
+  options?: TierSelection,
+  cache?: TreeCache,
+): DistributionEntry[] {
+  const entries: { level: TierName; index: number }[] = [];
+  const logs: number[] = [];
+
+  for (const level of getLevels(dict, options)) {
+    const nameSet = getNameSet(dict, level)!;
+    const results = getTree(dict, level, cache)?.nearestN(query, DISTRIBUTION_CANDIDATES) ?? [];
+    for (const { index } of results) {
+      entries.push({ level, index });
+      logs.push(logWeight(nameSet, index, query));
+    }
+  }
+
+  const probabilities = normalize(logs);
+  return entries
+    .map(({ level, index }, i) => ({
+      name: getNameSet(dict, level)!.names[index]!,
+      level,
+      index,
+      probability: probabilities[i]!,
+    }))
+    .sort((a, b) => b.probability - a.probability);
+}
+
+/**
+ * Set `confidence` and `distribution` on a naming result.
+ *
+ * @param result - The result to annotate.
+ * @param index - The result's index within its tier.
+ * @param distribution - The distribution from {@link nameDistribution}.
+ */
+function attachConfidence(result: ColorName, index: number, distribution: DistributionEntry[]): void {
+  const own = distribution.find((d) => d.level === result.level && d.index === index);
+  result.confidence = own?.probability ?? 0;
+  result.distribution = distribution.map(({ name, level, probability }) => ({ name, level, probability }));
+}
+
+/**
+ * Find the N closest named colors to a given color.
+ * Searches all tiers unless the tier options (`level`, `tiers`, `include`,
+ * `exclude`) narrow them.
  * Results are sorted by perceptual distance (closest first).
  *
  * @param color - The query color, as a Color instance or CSS string.
- * @param locale - A registered locale string or a ColorDictionary object.
- * @param count - Maximum number of results to return. Defaults to `5`.
+ * @param locale - A locale tag, `Intl.Locale`, list of either, or a ColorDictionary object.
+ * @param count - Maximum number of results to return. Defaults to `5`. Pass
+ *   `Infinity` with a `threshold` to get every name within that distance.
+ * @param options - Optional naming options (level, threshold, metric).
  * @returns An array of the closest named colors, sorted by distance.
  *
  * @example
  * ```ts
  * const nearest = nearestColors('#ff8800', 'en', 3);
  * nearest.map(n => n.name); // ['orange', 'darkorange', 'orangered']
+ *
+ * // Rank by CIEDE2000 instead of OkLab distance
+ * nearestColors('#ff8800', 'en', 3, { metric: 'ciede2000' });
+ *
+ * // Every name within 0.05 ("also known as")
+ * nearestColors('#00ffff', 'en', Infinity, { threshold: 0.05 }).map(n => n.name); // ['cyan', 'aqua']
  * ```
  */
 export function nearestColors(
   color: Color | string,
-  locale: string | ColorDictionary,
+  locale: LocaleInput,
   count = 5,
+  options?: NamingOptions,
 ): ColorName[] {
   const c = typeof color === 'string' ? Color.parse(color) : color;
   if (!c) return [];
@@ -234,71 +1056,194 @@ export function nearestColors(
 
   const query = toOklabQuery(c);
   const cache = resolveTreeCache(locale);
-  const candidates: ColorName[] = [];
+  const candidates: { name: ColorName; index: number; rank: number }[] = [];
 
-  for (const level of LEVELS) {
-    const tree = getTree(dict, level, cache);
-    if (!tree) continue;
+  for (const level of getLevels(dict, options)) {
+    if (candidates.length > 0 && options?.cascade) break;
 
-    const nameSet = dict[level]!;
-    const results = tree.nearestN(query, count);
-
-    for (const result of results) {
+    for (const result of searchTier(dict, level, query, options, count, cache)) {
+      if (options?.threshold !== undefined && result.distance > options.threshold) continue;
       candidates.push({
-        name: nameSet.names[result.index]!,
-        color: makeColorFromSet(nameSet, result.index),
-        distance: result.distance,
-        source: dict.source,
-        level,
+        name: makeColorName(dict, level, result.index, result.distance, options?.grammar),
+        index: result.index,
+        rank: result.rank,
       });
     }
   }
 
-  candidates.sort((a, b) => a.distance - b.distance);
-  return candidates.slice(0, count);
+  candidates.sort((a, b) => a.rank - b.rank);
+  const top = candidates.slice(0, count);
+  if (options?.confidence) {
+    const distribution = nameDistribution(dict, query, options, cache);
+    for (const { name, index } of top) attachConfidence(name, index, distribution);
+  }
+  return top.map(({ name }) => name);
 }
 
 /**
- * Look up a color by its name in a locale dictionary (case-insensitive).
- * Searches all tiers (`basic`, `extended`, `traditional`) and returns the first match.
+ * Look up a color by its name in a locale dictionary.
+ * Searches all tiers in precedence order and returns the first
+ * case-insensitive match. Failing that, names are compared after normalization
+ * (see {@link normalizeColorName}), so width, diacritics, separators and
+ * spelling variants such as grey/gray are ignored.
  *
- * @param name - The color name to look up (e.g. `'red'`, `'紅'`).
- * @param locale - A registered locale string or a ColorDictionary object.
+ * @param name - The color name to look up (e.g. `'red'`, `'紅'`, `'Dark Slate Grey'`).
+ * @param locale - A locale tag, `Intl.Locale`, list of either, or a ColorDictionary object.
  * @returns The Color associated with the name (in OkLab), or `undefined` if not found.
  *
  * @example
  * ```ts
  * const color = lookupColor('orange', 'en');
  * color?.toHex(); // '#ffa500'
+ *
+ * lookupColor('dark-slate-grey', 'en'); // same as 'darkslategray'
+ * lookupColor('gruen', 'de');           // same as 'grün'
  * ```
  */
 export function lookupColor(
   name: string,
-  locale: string | ColorDictionary,
+  locale: LocaleInput,
 ): Color | undefined {
   const dict = resolveDict(locale);
   if (!dict) return undefined;
 
-  const nameLower = name.toLowerCase();
+  const entry = findEntry(name, locale, dict);
+  return entry && makeColorFromSet(getNameSet(dict, entry.level)!, entry.index);
+}
 
-  for (const level of LEVELS) {
-    const nameSet = dict[level];
-    if (!nameSet) continue;
+/**
+ * Find the tier entry for a name, as {@link lookupColor} does.
+ *
+ * @internal
+ * @param name - The color name to look up.
+ * @param locale - The locale reference, used to pick the name index cache.
+ * @param dict - The dictionary resolved from `locale`.
+ * @returns The entry's tier and index, or `undefined` if not found.
+ */
+export function findEntry(
+  name: string,
+  locale: LocaleInput,
+  dict: ColorDictionary,
+): { level: TierName; index: number } | undefined {
+  const index = getNameIndex(dict, locale);
+  const position = index.names.get(name);
+  return position < 0 ? undefined : index.entries[position];
+}
 
-    const idx = nameSet.names.findIndex((n) => n.toLowerCase() === nameLower);
-    if (idx >= 0) {
-      return makeColorFromSet(nameSet, idx);
-    }
+/**
+ * Search a locale dictionary for names resembling a possibly misspelled query,
+ * for search boxes and "did you mean" suggestions.
+ * Names are compared after normalization (see {@link lookupColor}) by edit
+ * distance, and ranked by fewest edits, then by score.
+ *
+ * @param query - The user-typed name (e.g. `'turquise'`).
+ * @param locale - A locale tag, `Intl.Locale`, list of either, or a ColorDictionary object.
+ * @param options - Optional search options (level, maxEdits, limit).
+ * @returns Matching names, best first, or an empty array if none is close enough.
+ *
+ * @example
+ * ```ts
+ * searchColorNames('turquise', 'en').map(m => m.name); // ['turquoise']
+ * searchColorNames('Dark Slate Grey', 'en')[0];        // { name: 'darkslategray', score: 1, edits: 0, ... }
+ * ```
+ */
+export function searchColorNames(
+  query: string,
+  locale: LocaleInput,
+  options?: SearchOptions,
+): ColorNameMatch[] {
+  const dict = resolveDict(locale);
+  if (!dict) return [];
+
+  const index = getNameIndex(dict, locale);
+  const key = normalizeColorName(query, dict.locale);
+  if (key.length === 0) return [];
+
+  const maxEdits = options?.maxEdits ?? 2;
+  const levels = getLevels(dict, options);
+  const matches: ColorNameMatch[] = [];
+
+  index.names.keys.forEach((nameKey, position) => {
+    const { level, index: i } = index.entries[position]!;
+    if (!levels.includes(level)) return;
+
+    const edits = editDistance(key, nameKey, maxEdits);
+    if (edits === Infinity) return;
+
+    const nameSet = getNameSet(dict, level)!;
+    matches.push({
+      name: nameSet.names[i]!,
+      color: makeColorFromSet(nameSet, i),
+      score: 1 - edits / Math.max(key.length, nameKey.length),
+      edits,
+      source: nameSet.sources?.[i] ?? dict.source,
+      level,
+    });
+  });
+
+  matches.sort((a, b) => a.edits - b.edits || b.score - a.score);
+  return matches.slice(0, options?.limit ?? 5);
+}
+
+/**
+ * Suggest color names starting with a prefix, for autocomplete.
+ * The prefix is normalized like {@link lookupColor} input, so `'dark gr'`
+ * completes to `'darkgray'`, `'darkgreen'` and so on. Shorter names come
+ * first; `score` is the fraction of the name already typed and `edits` the
+ * number of characters left to type.
+ *
+ * @param prefix - The text typed so far.
+ * @param locale - A locale tag, `Intl.Locale`, list of either, or a ColorDictionary object.
+ * @param options - Optional suggestion options (level, limit).
+ * @returns Up to `limit` matching names, or an empty array for an empty prefix.
+ *
+ * @example
+ * ```ts
+ * suggestColorNames('dark', 'en', { limit: 3 }).map(m => m.name);
+ * // ['darkred', 'darkblue', 'darkcyan']
+ * ```
+ */
+export function suggestColorNames(
+  prefix: string,
+  locale: LocaleInput,
+  options?: SuggestOptions,
+): ColorNameMatch[] {
+  const dict = resolveDict(locale);
+  if (!dict) return [];
+
+  const index = getNameIndex(dict, locale);
+  const typed = normalizeColorName(prefix, dict.locale).length;
+  if (typed === 0) return [];
+
+  const levels = getLevels(dict, options);
+  const limit = options?.limit ?? 10;
+  const matches: ColorNameMatch[] = [];
+
+  for (const position of index.names.withPrefix(prefix)) {
+    const { level, index: i } = index.entries[position]!;
+    if (!levels.includes(level)) continue;
+
+    const nameSet = getNameSet(dict, level)!;
+    const length = index.names.keys[position]!.length;
+    matches.push({
+      name: nameSet.names[i]!,
+      color: makeColorFromSet(nameSet, i),
+      score: typed / length,
+      edits: length - typed,
+      source: nameSet.sources?.[i] ?? dict.source,
+      level,
+    });
+    if (matches.length >= limit) break;
   }
 
-  return undefined;
+  return matches;
 }
 
 /**
  * List all available color names in a locale dictionary across all tiers.
  * Each entry includes the name, its OkLab centroid color, and metadata.
  *
- * @param locale - A registered locale string or a ColorDictionary object.
+ * @param locale - A locale tag, `Intl.Locale`, list of either, or a ColorDictionary object.
  * @returns An array of all ColorName entries, or an empty array if the locale is not found.
  *
  * @example
@@ -307,24 +1252,17 @@ export function lookupColor(
  * names.length; // total number of named colors in English
  * ```
  */
-export function listColorNames(locale: string | ColorDictionary): ColorName[] {
+export function listColorNames(locale: LocaleInput): ColorName[] {
   const dict = resolveDict(locale);
   if (!dict) return [];
 
   const result: ColorName[] = [];
 
-  for (const level of LEVELS) {
-    const nameSet = dict[level];
-    if (!nameSet) continue;
+  for (const level of tierOrder(dict)) {
+    const nameSet = getNameSet(dict, level)!;
 
     for (let i = 0; i < nameSet.names.length; i++) {
-      result.push({
-        name: nameSet.names[i]!,
-        color: makeColorFromSet(nameSet, i),
-        distance: 0,
-        source: dict.source,
-        level,
-      });
+      result.push(makeColorName(dict, level, i, 0));
     }
   }
 
@@ -336,9 +1274,17 @@ export function listColorNames(locale: string | ColorDictionary): ColorName[] {
  * Looks up the color associated with the name in the source locale, then
  * finds the closest named color in the target locale.
  *
+ * In `'category'` mode, basic terms stay basic: the translation is the
+ * closest target basic term, and `candidates` lists every target basic term
+ * that names at least {@link CATEGORY_SHARE} of the source term's region.
+ * Regions are the Voronoi cells of the basic terms in sRGB, so a source term
+ * is split by the target terms whose cells overlap its own. Targets without
+ * a basic tier get the closest name in any tier, as in `'nearest'` mode.
+ *
  * @param name - The color name to translate (e.g. `'red'`).
- * @param from - The source locale (string or ColorDictionary).
- * @param to - The target locale (string or ColorDictionary).
+ * @param from - The source locale (tag, `Intl.Locale`, list, or ColorDictionary).
+ * @param to - The target locale (tag, `Intl.Locale`, list, or ColorDictionary).
+ * @param options - Optional translation mode and naming options for the target locale.
  * @returns A TranslationResult with the target name and distance, or `null` if
  *   the source name is not found or no target match exists.
  *
@@ -346,23 +1292,190 @@ export function listColorNames(locale: string | ColorDictionary): ColorName[] {
  * ```ts
  * const result = translateColor('red', 'en', 'ja');
  * result?.name; // '赤' (Japanese for red)
+ *
+ * // Stay at the basic level, listing every basic term "blue" spans
+ * translateColor('blue', 'en', 'ja', { mode: 'category' })?.candidates?.map(c => c.name);
+ * // → ['濃青', 'あお']
  * ```
  */
 export function translateColor(
   name: string,
-  from: string | ColorDictionary,
-  to: string | ColorDictionary,
+  from: LocaleInput,
+  to: LocaleInput,
+  options?: TranslateOptions,
 ): TranslationResult | null {
-  const sourceColor = lookupColor(name, from);
-  if (!sourceColor) return null;
+  const fromDict = resolveDict(from);
+  const toDict = resolveDict(to);
+  if (!fromDict || !toDict) return null;
+
+  const entry = findEntry(name, from, fromDict);
+  if (!entry) return null;
+  const sourceSet = getNameSet(fromDict, entry.level)!;
+  const sourceColor = makeColorFromSet(sourceSet, entry.index);
 
-  const match = nameColor(sourceColor, to);
+  const basic = options?.mode === 'category' && entry.level === 'basic' && getNameSet(toDict, 'basic') !== undefined;
+  const targetOptions: NamingOptions | undefined = basic ? { ...options, tiers: ['basic'] } : options;
+  const cache = resolveTreeCache(to);
+  const query = toOklabQuery(sourceColor);
+  const match = findName(toDict, query, targetOptions, cache);
   if (!match) return null;
 
+  const result: TranslationResult = {
+    name: match.name,
+    sourceColor,
+    targetColor: match.color,
+    distance: match.distance,
+  };
+  if (basic) {
+    const source = { dict: fromDict, index: entry.index, cache: resolveTreeCache(from) };
+    result.candidates = categoryCandidates(source, query, toDict, targetOptions!, cache);
+  }
+  return result;
+}
+
+/**
+ * The OkLab centers of a regular grid of sRGB cells, for estimating the
+ * share of the gamut each name wins.
+ *
+ * @returns `CATEGORY_RESOLUTION³` `[l, a, b]` tuples.
+ */
+function getCategorySamples(): [number, number, number][] {
+  if (categorySamples) return categorySamples;
+  const step = (i: number) => (i + 0.5) / CATEGORY_RESOLUTION;
+  categorySamples = [];
+  for (let r = 0; r < CATEGORY_RESOLUTION; r++) {
+    for (let g = 0; g < CATEGORY_RESOLUTION; g++) {
+      for (let b = 0; b < CATEGORY_RESOLUTION; b++) {
+        categorySamples.push(toOklabQuery(Color.create('rgb', { r: step(r), g: step(g), b: step(b) })));
+      }
+    }
+  }
+  return categorySamples;
+}
+
+/**
+ * Find the target basic terms covering a source term's region: the sampled
+ * sRGB colors the source's basic tier names with the term, split by the
+ * target basic term each is named with. The closest target term (first in
+ * the ranking) is always included.
+ *
+ * @param source - The source dictionary, the term's index in its basic tier, and its tree cache.
+ * @param query - The source term's centroid, as an `[l, a, b]` tuple in OkLab space.
+ * @param toDict - The target dictionary.
+ * @param options - Naming options restricted to the basic tier.
+ * @param cache - Optional cache of built trees for the target.
+ * @returns The candidates, largest share first.
+ */
+function categoryCandidates(
+  source: { dict: ColorDictionary; index: number; cache: TreeCache | undefined },
+  query: [number, number, number],
+  toDict: ColorDictionary,
+  options: NamingOptions,
+  cache?: TreeCache,
+): TranslationCandidate[] {
+  const regionOptions: NamingOptions = { ...options, threshold: undefined };
+  const counts = new Map<number, number>();
+  let total = 0;
+  for (const point of getCategorySamples()) {
+    if (searchTier(source.dict, 'basic', point, regionOptions, 1, source.cache)[0]?.index !== source.index) continue;
+    total++;
+    const target = searchTier(toDict, 'basic', point, regionOptions, 1, cache)[0];
+    if (target && target.index >= 0) counts.set(target.index, (counts.get(target.index) ?? 0) + 1);
+  }
+  // A term no sRGB color is called by: its region is just its centroid
+  if (total === 0) {
+    const target = searchTier(toDict, 'basic', query, regionOptions, 1, cache)[0];
+    if (target && target.index >= 0) counts.set(target.index, 1);
+    total = 1;
+  }
+
+  // Every target basic term, ranked by distance from the source centroid
+  const targetSet = getNameSet(toDict, 'basic')!;
+  const ranking = searchTier(toDict, 'basic', query, regionOptions, targetSet.names.length, cache);
+  const candidates: TranslationCandidate[] = [];
+  ranking.forEach(({ index, distance }, position) => {
+    const share = total > 0 ? (counts.get(index) ?? 0) / total : 0;
+    if (share < CATEGORY_SHARE && position > 0) return;
+    const name = makeColorName(toDict, 'basic', index, distance, options.grammar);
+    candidates.push({ name: name.name, color: name.color, distance, share });
+  });
+  return candidates.sort((a, b) => b.share - a.share);
+}
+
+/**
+ * Translate a color name and assess how trustworthy the translation is.
+ *
+ * Besides the translation itself, the report lists the closest other names
+ * in the target locale, translates the result back to check that the pair is
+ * reciprocal, and compares basic color categories: a translation is suspect
+ * when the target locale has no basic term for the source's category.
+ *
+ * @param name - The color name to translate (e.g. `'teal'`).
+ * @param from - The source locale (tag, `Intl.Locale`, list, or ColorDictionary).
+ * @param to - The target locale (tag, `Intl.Locale`, list, or ColorDictionary).
+ * @param options - Naming options for both directions, plus the number of alternatives.
+ * @returns The translation report, or `null` if the source name is not found
+ *   or no target match exists.
+ *
+ * @example
+ * ```ts
+ * const report = analyzeTranslation('teal', 'en', 'ja');
+ * report?.name;                          // best Japanese name
+ * report?.reciprocal;                    // false if it translates back to another English name
+ * report?.alternatives.map(a => a.name); // runner-up Japanese names
+ * ```
+ */
+export function analyzeTranslation(
+  name: string,
+  from: LocaleInput,
+  to: LocaleInput,
+  options?: TranslationReportOptions,
+): TranslationReport | null {
+  const fromDict = resolveDict(from);
+  const toDict = resolveDict(to);
+  if (!fromDict || !toDict) return null;
+
+  const entry = findEntry(name, from, fromDict);
+  if (!entry) return null;
+  const sourceSet = getNameSet(fromDict, entry.level)!;
+  const sourceName = sourceSet.names[entry.index]!;
+  const sourceColor = makeColorFromSet(sourceSet, entry.index);
+
+  const match = findName(toDict, toOklabQuery(sourceColor), options, resolveTreeCache(to));
+  if (!match) return null;
+
+  const count = options?.alternatives ?? 5;
+  const alternatives = nearestColors(sourceColor, to, count + 1, options)
+    .filter((candidate) => candidate.name !== match.name || candidate.level !== match.level)
+    .slice(0, count);
+
+  const back = nameColor(match.color, from, options);
+  const reverse = back && {
+    name: back.name,
+    sourceColor: match.color,
+    targetColor: back.color,
+    distance: back.distance,
+  };
+
+  // Basic categories: the source's basic term, and its nearest counterpart in the target
+  const basic: NamingOptions = { tiers: ['basic'] };
+  const sourceCategory = nameColor(sourceColor, from, basic);
+  const targetCategory = nameColor(match.color, to, basic);
+  const counterpart = sourceCategory && nameColor(sourceCategory.color, to, basic);
+  const counterpartBack = counterpart && nameColor(counterpart.color, from, basic);
+
   return {
     name: match.name,
     sourceColor,
     targetColor: match.color,
     distance: match.distance,
+    level: match.level,
+    alternatives,
+    reverse,
+    // Compare lemmas, since the back-translation may be inflected for `grammar`
+    reciprocal: !!back && (back.lemma ?? back.name) === sourceName,
+    sourceCategory: sourceCategory?.name ?? null,
+    targetCategory: targetCategory?.name ?? null,
+    categoryMissing: !!counterpart && counterpartBack?.name !== sourceCategory!.name,
   };
 }
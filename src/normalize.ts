@@ -0,0 +1,111 @@
+/**
+ * Normalization and approximate matching of user-typed color names.
+ *
+ * Lookups compare normalized keys rather than raw strings so that case,
+ * width, diacritics, separators and common spelling variants do not matter:
+ * "Dark Slate Grey", "dark-slate-gray" and "ｄａｒｋｓｌａｔｅｇｒａｙ" all
+ * normalize to the same key as `'darkslategray'`.
+ */
+
+/** Separators ignored when matching ("dark slate gray" = "dark-slate-gray" = "darkslategray"). */
+const SEPARATORS = /[\s\-_.,'’·・]+/gu;
+
+/** Combining diacritical marks (U+0300–U+036F); kana voicing marks are deliberately excluded. */
+const DIACRITICS = /[\u0300-\u036f]/g;
+
+/** Spelling variants folded to a single form, applied after diacritic folding. */
+const VARIANTS: [RegExp, string][] = [
+  [/ß/g, 'ss'],
+  [/grey/g, 'gray'],
+  [/colour/g, 'color'],
+];
+
+/** Umlaut transliterations ("gruen" = "grün" = "grun"), folded only for {@link UMLAUT_LANGUAGES}. */
+const UMLAUT_VARIANTS: [RegExp, string][] = [
+  [/ae/g, 'a'],
+  [/oe/g, 'o'],
+  [/ue/g, 'u'],
+];
+
+/** Languages that spell umlauts as `ae`/`oe`/`ue`: German, Swiss German and Luxembourgish. */
+const UMLAUT_LANGUAGES = new Set(['de', 'gsw', 'lb']);
+
+/**
+ * Normalize a color name into a matching key.
+ *
+ * Applies NFKC (folding full-width and half-width forms), locale-aware lower
+ * casing, diacritic folding, separator removal and spelling-variant folding.
+ * Umlaut transliterations are only folded for German-language locales, so
+ * `'blue'` keeps its `ue` in English.
+ * Keys are only meant to be compared with each other, not displayed.
+ *
+ * @param name - The color name to normalize.
+ * @param locale - The locale used for case folding (e.g. `'tr'` lower-cases `I` to `ı`) and spelling variants.
+ * @returns The normalized key.
+ *
+ * @example
+ * ```ts
+ * normalizeColorName('Dark Slate Grey'); // 'darkslategray'
+ * normalizeColorName('Grün', 'de');      // 'grun'
+ * normalizeColorName('gruen', 'de');     // 'grun'
+ * ```
+ */
+export function normalizeColorName(name: string, locale?: string): string {
+  let key = name.normalize('NFKC');
+  try {
+    key = key.toLocaleLowerCase(locale);
+  } catch {
+    // Not a valid BCP 47 tag (e.g. 'ja-traditional') — use the default case mapping
+    key = key.toLowerCase();
+  }
+  key = key.normalize('NFD').replace(DIACRITICS, '').normalize('NFC');
+  key = key.replace(SEPARATORS, '');
+  for (const [pattern, replacement] of VARIANTS) {
+    key = key.replace(pattern, replacement);
+  }
+  if (locale && UMLAUT_LANGUAGES.has(locale.split('-')[0]!.toLowerCase())) {
+    for (const [pattern, replacement] of UMLAUT_VARIANTS) {
+      key = key.replace(pattern, replacement);
+    }
+  }
+  return key;
+}
+
+/**
+ * Optimal string alignment distance between two strings: the number of
+ * insertions, deletions, substitutions and adjacent transpositions needed to
+ * turn one into the other. Gives up early once the distance exceeds `max`.
+ *
+ * @param a - The first string.
+ * @param b - The second string.
+ * @param max - The largest distance of interest.
+ * @returns The edit distance, or `Infinity` if it exceeds `max`.
+ */
+export function editDistance(a: string, b: string, max = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) return Infinity;
+
+  const s = Array.from(a);
+  const t = Array.from(b);
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: t.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= s.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= t.length; j++) {
+      const cost = s[i - 1] === t[j - 1] ? 0 : 1;
+      let d = Math.min(prev[j]! + 1, row[j - 1]! + 1, prev[j - 1]! + cost);
+      if (i > 1 && j > 1 && s[i - 1] === t[j - 2] && s[i - 2] === t[j - 1]) {
+        d = Math.min(d, prevPrev[j - 2]! + 1);
+      }
+      row.push(d);
+      if (d < rowMin) rowMin = d;
+    }
+    if (rowMin > max) return Infinity;
+    prevPrev = prev;
+    prev = row;
+  }
+
+  const distance = prev[t.length]!;
+  return distance > max ? Infinity : distance;
+}
@@ -0,0 +1,137 @@
+/**
+ * Naming maps: the region of the sRGB gamut each color name wins.
+ *
+ * Regions are the Voronoi cells of the name centroids (under the chosen
+ * naming options) clipped to sRGB, estimated by naming the centers of a
+ * regular grid of sRGB cells. Two regions are neighbours where adjacent
+ * cells get different names.
+ */
+import { Color } from './Color.ts';
+import { nameColors } from './batch.ts';
+import { getNameSet, makeColorFromSet, resolveDict } from './naming.ts';
+import type {
+  ColorNameNeighbour,
+  ColorNameRegion,
+  ColorNameRegionOptions,
+  LocaleInput,
+  TierName,
+} from './types.ts';
+
+/**
+ * The sRGB color at the center of a grid cell.
+ *
+ * @param cell - The cell index, `(r × resolution + g) × resolution + b`.
+ * @param resolution - Cells along each channel.
+ * @returns The cell's center color.
+ */
+function cellColor(cell: number, resolution: number): Color {
+  const b = cell % resolution;
+  const g = Math.floor(cell / resolution) % resolution;
+  const r = Math.floor(cell / (resolution * resolution));
+  return Color.create('rgb', { r: (r + 0.5) / resolution, g: (g + 0.5) / resolution, b: (b + 0.5) / resolution });
+}
+
+/**
+ * Compute the region of the sRGB gamut that each color name wins, for drawing
+ * naming maps and auditing names that no sRGB color is called by.
+ *
+ * The gamut is sampled at the centers of `resolution³` cells, and every name
+ * of the searched tiers is listed in tier order — including names with a
+ * `share` of 0, which are unreachable in sRGB. `boundary` holds colors of
+ * cells next to another name's cells, and `neighbours` the names across those
+ * cell faces, weighted by how many faces they share.
+ *
+ * @param locale - A locale tag, `Intl.Locale`, list of either, or a ColorDictionary object.
+ * @param options - Naming options (tiers, metric, lchWeights, ...) plus the sampling density.
+ * @returns One region per name, or `null` if the locale is not found.
+ *
+ * @example
+ * ```ts
+ * const regions = colorNameRegions('en', { level: 'basic' })!;
+ * regions.find(r => r.name === 'green');
+ * // → { name: 'green', share: 0.084, boundary: [...], neighbours: [{ name: 'grey', contact: 0.43 }, ...] }
+ *
+ * colorNameRegions('en')!.filter(r => r.share === 0).map(r => r.name); // names no sRGB color gets
+ * ```
+ */
+export function colorNameRegions(
+  locale: LocaleInput,
+  options?: ColorNameRegionOptions,
+): ColorNameRegion[] | null {
+  const resolution = options?.resolution ?? 32;
+  const cells = resolution ** 3;
+  const samples = new Float32Array(cells * 3);
+  for (let cell = 0; cell < cells; cell++) {
+    samples[cell * 3] = (Math.floor(cell / (resolution * resolution)) + 0.5) / resolution;
+    samples[cell * 3 + 1] = ((Math.floor(cell / resolution) % resolution) + 0.5) / resolution;
+    samples[cell * 3 + 2] = ((cell % resolution) + 0.5) / resolution;
+  }
+
+  const dict = resolveDict(locale);
+  const result = dict && nameColors(samples, locale, { ...options, space: 'srgb', stride: 3 });
+  if (!result) return null;
+  const { names, levels, indices: winners } = result;
+
+  const counts = new Int32Array(names.length);
+  const faces = new Int32Array(names.length);
+  const contacts = names.map(() => new Map<number, number>());
+  const onBoundary = new Uint8Array(cells);
+  const touch = (from: number, to: number) => {
+    if (from < 0) return;
+    faces[from]!++;
+    if (to >= 0) contacts[from]!.set(to, (contacts[from]!.get(to) ?? 0) + 1);
+  };
+
+  // Compare each cell with its next neighbour along b, g and r
+  for (let cell = 0; cell < cells; cell++) {
+    const winner = winners[cell]!;
+    if (winner >= 0) counts[winner]!++;
+    const steps = [
+      cell % resolution < resolution - 1 ? 1 : 0,
+      Math.floor(cell / resolution) % resolution < resolution - 1 ? resolution : 0,
+      cell < cells - resolution * resolution ? resolution * resolution : 0,
+    ];
+    for (const step of steps) {
+      const other = winners[cell + step]!;
+      if (step === 0 || other === winner) continue;
+      touch(winner, other);
+      touch(other, winner);
+      onBoundary[cell] = 1;
+      onBoundary[cell + step] = 1;
+    }
+  }
+
+  const boundaries: number[][] = names.map(() => []);
+  for (let cell = 0; cell < cells; cell++) {
+    if (onBoundary[cell] && winners[cell]! >= 0) boundaries[winners[cell]!]!.push(cell);
+  }
+
+  // The names table lists each searched tier's names in order, so a name's
+  // position among its tier's entries is its index in that tier
+  const positions = new Map<TierName, number>();
+  const maxBoundary = options?.boundaryColors ?? 8;
+
+  return names.map((name, i) => {
+    const level = levels[i]!;
+    const position = positions.get(level) ?? 0;
+    positions.set(level, position + 1);
+
+    const cellsOnBoundary = boundaries[i]!;
+    const count = Math.min(maxBoundary, cellsOnBoundary.length);
+    const boundary = Array.from({ length: count }, (_, k) =>
+      cellColor(cellsOnBoundary[Math.floor((k * cellsOnBoundary.length) / count)]!, resolution));
+
+    const neighbours: ColorNameNeighbour[] = [...contacts[i]!]
+      .map(([j, shared]) => ({ name: names[j]!, level: levels[j]!, contact: shared / faces[i]! }))
+      .sort((a, b) => b.contact - a.contact);
+
+    return {
+      name,
+      level,
+      color: makeColorFromSet(getNameSet(dict, level)!, position),
+      share: counts[i]! / cells,
+      boundary,
+      neighbours,
+    };
+  });
+}
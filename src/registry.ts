@@ -0,0 +1,115 @@
+import { nameColors } from './batch.ts';
+import { describeColor } from './describe.ts';
+import { ColorNameFormat } from './format.ts';
+import { translationMatrices, translationMatrix } from './matrix.ts';
+import {
+  createRegistryState,
+  getLocale,
+  listLocales,
+  listColorNames,
+  lookupColor,
+  nameColor,
+  nameColorMulti,
+  nearestColors,
+  negotiateLocale,
+  removeLocale,
+  searchColorNames,
+  setDefaultLocale,
+  suggestColorNames,
+  translateColor,
+  analyzeTranslation,
+  useLocale,
+  withRegistry,
+} from './naming.ts';
+import { colorNameRegions } from './regions.ts';
+import { colorNameSynonyms, nameSaliency } from './saliency.ts';
+import type { ColorNameFormatOptions, LocaleInput } from './types.ts';
+
+/**
+ * An isolated set of locale dictionaries with its own naming functions.
+ * Each method behaves like the top-level function of the same name, but only
+ * sees dictionaries registered on this registry.
+ */
+export interface ColorNameRegistry {
+  useLocale: typeof useLocale;
+  removeLocale: typeof removeLocale;
+  getLocale: typeof getLocale;
+  listLocales: typeof listLocales;
+  setDefaultLocale: typeof setDefaultLocale;
+  negotiateLocale: typeof negotiateLocale;
+  nameColor: typeof nameColor;
+  nameColorMulti: typeof nameColorMulti;
+  nameColors: typeof nameColors;
+  nearestColors: typeof nearestColors;
+  lookupColor: typeof lookupColor;
+  searchColorNames: typeof searchColorNames;
+  suggestColorNames: typeof suggestColorNames;
+  listColorNames: typeof listColorNames;
+  translateColor: typeof translateColor;
+  analyzeTranslation: typeof analyzeTranslation;
+  translationMatrix: typeof translationMatrix;
+  translationMatrices: typeof translationMatrices;
+  describeColor: typeof describeColor;
+  nameSaliency: typeof nameSaliency;
+  colorNameSynonyms: typeof colorNameSynonyms;
+  colorNameRegions: typeof colorNameRegions;
+  /**
+   * Create a {@link ColorNameFormat} whose locale is negotiated against this registry.
+   *
+   * @param locale - A locale tag, `Intl.Locale`, list of either, or a ColorDictionary object.
+   * @param options - Naming and presentation options.
+   * @returns The formatter.
+   * @throws {RangeError} If no locale in this registry matches `locale`.
+   */
+  createFormat(locale: LocaleInput, options?: ColorNameFormatOptions): ColorNameFormat;
+}
+
+/**
+ * Create an empty, isolated color name registry.
+ *
+ * Dictionaries registered on it — and its k-d tree and name index caches — are
+ * invisible to the global functions and to other registries, so per-tenant or
+ * per-request dictionaries never leak. Bundled locale data objects can be shared
+ * between registries; registering copies the dictionary shell, not its name sets.
+ *
+ * @returns A new registry with no locales registered.
+ *
+ * @example
+ * ```ts
+ * import { en } from 'internationalized-color/locales/en';
+ *
+ * const tenant = createColorNameRegistry();
+ * tenant.useLocale(en);
+ * tenant.useLocale(tenantPalette, { strategy: 'replace' });
+ * tenant.nameColor('#ff6347', 'en');
+ * ```
+ */
+export function createColorNameRegistry(): ColorNameRegistry {
+  const state = createRegistryState();
+  return {
+    useLocale: withRegistry(state, useLocale),
+    removeLocale: withRegistry(state, removeLocale),
+    getLocale: withRegistry(state, getLocale),
+    listLocales: withRegistry(state, listLocales),
+    setDefaultLocale: withRegistry(state, setDefaultLocale),
+    negotiateLocale: withRegistry(state, negotiateLocale),
+    nameColor: withRegistry(state, nameColor),
+    nameColorMulti: withRegistry(state, nameColorMulti),
+    nameColors: withRegistry(state, nameColors),
+    nearestColors: withRegistry(state, nearestColors),
+    lookupColor: withRegistry(state, lookupColor),
+    searchColorNames: withRegistry(state, searchColorNames),
+    suggestColorNames: withRegistry(state, suggestColorNames),
+    listColorNames: withRegistry(state, listColorNames),
+    translateColor: withRegistry(state, translateColor),
+    analyzeTranslation: withRegistry(state, analyzeTranslation),
+    translationMatrix: withRegistry(state, translationMatrix),
+    translationMatrices: withRegistry(state, translationMatrices),
+    describeColor: withRegistry(state, describeColor),
+    nameSaliency: withRegistry(state, nameSaliency),
+    colorNameSynonyms: withRegistry(state, colorNameSynonyms),
+    colorNameRegions: withRegistry(state, colorNameRegions),
+    createFormat: withRegistry(state, (locale: LocaleInput, options?: ColorNameFormatOptions) =>
+      new ColorNameFormat(locale, options)),
+  };
+}
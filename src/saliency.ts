@@ -0,0 +1,175 @@
+/**
+ * Naming consistency measures, after Heer & Stone's color saliency and name
+ * similarity and the cross-language analysis in "Many Languages, Many Colors".
+ *
+ * Both are derived from the Gaussian naming model in `confidence.ts`: a
+ * color's saliency is the negative entropy of its naming distribution, and two
+ * names are synonyms to the extent that their regions overlap.
+ */
+import { Color } from './Color.ts';
+import { overlap, sigmaPoints } from './confidence.ts';
+import {
+  findEntry,
+  getLevels,
+  getNameSet,
+  getTree,
+  nameDistribution,
+  resolveDict,
+  resolveTreeCache,
+  toOklabQuery,
+  type DistributionEntry,
+} from './naming.ts';
+import type {
+  ColorNameProbability,
+  ColorNameSynonym,
+  ColorNameSynonyms,
+  ColorSaliency,
+  LocaleInput,
+  SynonymOptions,
+  TierSelection,
+} from './types.ts';
+
+/** Number of nearest centroids per tier checked for overlap with a name. */
+const SYNONYM_CANDIDATES = 16;
+
+/**
+ * Merge distribution entries that share a name (the same term listed in
+ * several tiers), keeping the first tier it appears in.
+ *
+ * @param distribution - The distribution from `nameDistribution`.
+ * @returns One entry per distinct name, most likely first.
+ */
+function byName(distribution: DistributionEntry[]): ColorNameProbability[] {
+  const merged = new Map<string, ColorNameProbability>();
+  for (const { name, level, probability } of distribution) {
+    const existing = merged.get(name);
+    if (existing) existing.probability += probability;
+    else merged.set(name, { name, level, probability });
+  }
+  return [...merged.values()].sort((a, b) => b.probability - a.probability);
+}
+
+/**
+ * Measure how consistently speakers of a locale name a color.
+ *
+ * The naming distribution is the one behind the `confidence` option; names
+ * listed in several tiers are counted once. A color with one dominant name
+ * has high `agreement` and a `saliency` near 0, while a color split between
+ * several names (say, between "blue" and "green") is ambiguous.
+ *
+ * @param color - The query color, as a Color instance or CSS string.
+ * @param locale - A locale tag, `Intl.Locale`, list of either, or a ColorDictionary object.
+ * @param options - Tiers to consider (all tiers by default).
+ * @returns The saliency of the color, or `null` if the locale has no names.
+ *
+ * @example
+ * ```ts
+ * nameSaliency('#ff8000', 'en', { level: 'basic' });
+ * // → { name: 'orange', agreement: 0.97, entropy: 0.22, saliency: -0.22, ... }
+ *
+ * nameSaliency('#20a080', 'en', { level: 'basic' })?.agreement; // → 0.79 (grey or green?)
+ * ```
+ */
+export function nameSaliency(
+  color: Color | string,
+  locale: LocaleInput,
+  options?: TierSelection,
+): ColorSaliency | null {
+  const c = typeof color === 'string' ? Color.parse(color) : color;
+  if (!c) return null;
+
+  const dict = resolveDict(locale);
+  if (!dict) return null;
+
+  const distribution = byName(nameDistribution(dict, toOklabQuery(c), options, resolveTreeCache(locale)));
+  const top = distribution[0];
+  if (!top) return null;
+
+  let entropy = 0;
+  for (const { probability } of distribution) {
+    if (probability > 0) entropy -= probability * Math.log2(probability);
+  }
+
+  return {
+    name: top.name,
+    level: top.level,
+    agreement: top.probability,
+    entropy,
+    saliency: -entropy,
+    distribution,
+  };
+}
+
+/**
+ * Find the names whose color regions overlap a given name's, and how
+ * consistently colors in its region are called by it.
+ *
+ * Overlap is the Bhattacharyya coefficient of the two names' Gaussians, so
+ * names with survey statistics are compared by their actual spread. The name
+ * is looked up like {@link lookupColor}; `consistency` averages its naming
+ * probability over sigma points of its region. The name's own tier is always
+ * compared in addition to the selected ones.
+ *
+ * @param name - The color name (e.g. `'teal'`).
+ * @param locale - A locale tag, `Intl.Locale`, list of either, or a ColorDictionary object.
+ * @param options - Tiers to compare against (all tiers by default), minimum overlap and limit.
+ * @returns The name's synonyms and consistency, or `null` if the name is not found.
+ *
+ * @example
+ * ```ts
+ * colorNameSynonyms('navy', 'en')?.synonyms.map(s => s.name); // ['darkblue', 'midnightblue', ...]
+ * colorNameSynonyms('teal', 'en', { level: 'basic' })?.consistency; // → 0.17
+ * ```
+ */
+export function colorNameSynonyms(
+  name: string,
+  locale: LocaleInput,
+  options?: SynonymOptions,
+): ColorNameSynonyms | null {
+  const dict = resolveDict(locale);
+  if (!dict) return null;
+
+  const entry = findEntry(name, locale, dict);
+  if (!entry) return null;
+
+  const nameSet = getNameSet(dict, entry.level)!;
+  const own = nameSet.names[entry.index]!;
+  const offset = entry.index * 3;
+  const centroid: [number, number, number] = [
+    nameSet.colors[offset]!,
+    nameSet.colors[offset + 1]!,
+    nameSet.colors[offset + 2]!,
+  ];
+  const cache = resolveTreeCache(locale);
+  const minOverlap = options?.minOverlap ?? 0.25;
+  const selected = getLevels(dict, options);
+  const tiers = selected.includes(entry.level) ? selected : [entry.level, ...selected];
+
+  const synonyms = new Map<string, ColorNameSynonym>();
+  for (const level of tiers) {
+    const candidates = getNameSet(dict, level)!;
+    for (const { index } of getTree(dict, level, cache)?.nearestN(centroid, SYNONYM_CANDIDATES) ?? []) {
+      const candidate = candidates.names[index]!;
+      if (candidate === own) continue;
+      const shared = overlap(nameSet, entry.index, candidates, index);
+      if (shared < minOverlap || (synonyms.get(candidate)?.overlap ?? -1) >= shared) continue;
+      synonyms.set(candidate, { name: candidate, level, overlap: shared });
+    }
+  }
+
+  const points = sigmaPoints(nameSet, entry.index);
+  let consistency = 0;
+  for (const point of points) {
+    const match = byName(nameDistribution(dict, point, { tiers }, cache)).find((d) => d.name === own);
+    consistency += (match?.probability ?? 0) / points.length;
+  }
+
+  return {
+    name: own,
+    level: entry.level,
+    consistency,
+    synonyms: [...synonyms.values()]
+      .sort((a, b) => b.overlap - a.overlap)
+      .slice(0, options?.limit ?? 10),
+  };
+}
@@ -21,7 +21,8 @@ export interface ExtendedModeDefinition extends ModeDefinition {
 
 /**
  * A color dictionary for a specific locale, containing named colors organized
- * into up to three naming tiers: `basic`, `extended`, and `traditional`.
+ * into naming tiers: the built-in `basic`, `extended`, and `traditional`, plus
+ * any custom tiers (e.g. `brand`, `paint`) under {@link tiers}.
  *
  * Each tier is optional — a dictionary may have any combination.
  * Locale data files (e.g. `src/locales/en.ts`) export one of these.
@@ -37,8 +38,101 @@ export interface ColorDictionary {
   extended?: ColorNameSet;
   /** Traditional or cultural color names (e.g. Japanese wa-iro). */
   traditional?: ColorNameSet;
+  /** Custom tiers keyed by name. Built-in tier names are ignored here. */
+  tiers?: Record<string, ColorNameSet>;
+  /**
+   * Tier precedence, highest first. Used as the order tiers are searched in,
+   * for `level` cut-offs and for cascading. Tiers left out are appended in
+   * their default order: `basic`, `extended`, `traditional`, then custom tiers.
+   */
+  tierOrder?: TierName[];
+  /** Modifier grammar used by {@link describeColor} to compose descriptive names. */
+  modifiers?: ColorModifierGrammar;
+}
+
+/** The tiers every dictionary may have. */
+export type BuiltinTier = 'basic' | 'extended' | 'traditional';
+
+/** A naming tier: one of the built-in tiers or a custom tier declared in {@link ColorDictionary.tiers}. */
+export type TierName = BuiltinTier | (string & {});
+
+/**
+ * Selects which tiers of a dictionary are searched, and in which order.
+ * `tiers` overrides `level`; `include` and `exclude` then filter the result.
+ */
+export interface TierSelection {
+  /** Maximum tier in precedence order — searches all tiers up to and including this one. */
+  level?: TierName;
+  /** Explicit list of tiers to search, in this order. */
+  tiers?: TierName[];
+  /** Only search these tiers. */
+  include?: TierName[];
+  /** Never search these tiers. */
+  exclude?: TierName[];
 }
 
+/**
+ * Per-locale grammar for composing descriptive color names such as
+ * "dark greyish blue" or "bleu grisâtre foncé".
+ *
+ * Each template contains `{name}`, replaced by the term being modified, so word
+ * order and compounding are up to the locale (`'light {name}'`, `'{name} clair'`,
+ * `'hell{name}'`, `'светло-{name}'`). Missing templates disable that modifier.
+ */
+export interface ColorModifierGrammar {
+  /** Lighter than the base term. */
+  light?: string;
+  /** Darker than the base term. */
+  dark?: string;
+  /** Lighter and less saturated than the base term. */
+  pale?: string;
+  /** More saturated than the base term. */
+  vivid?: string;
+  /** Less saturated than the base term. */
+  greyish?: string;
+  /** Hue shift towards another term; `{tint}` is replaced by that term's form from {@link tints}. */
+  ish?: string;
+  /** Tint forms keyed by term name, e.g. `{ red: 'reddish', blue: 'bluish' }`. */
+  tints?: Record<string, string>;
+}
+
+/** A modifier applied by {@link describeColor}. */
+export type ColorModifier = 'light' | 'dark' | 'pale' | 'vivid' | 'greyish' | 'ish';
+
+/**
+ * Options for {@link useLocale}.
+ */
+export interface UseLocaleOptions {
+  /**
+   * How to handle a locale that is already registered:
+   * `'merge'` (default) appends the incoming names to the registered tiers
+   * (adding tiers it does not have yet), `'replace'` discards the registered
+   * dictionary in favour of the new one.
+   */
+  strategy?: 'merge' | 'replace';
+  /**
+   * How the `'merge'` strategy resolves a name present in both the registered
+   * and the incoming tier (compared case-insensitively):
+   * `'replace'` (default) keeps the incoming entry, `'keep-existing'` keeps the
+   * registered one, and `'keep-both'` keeps both centroids under the same name.
+   */
+  duplicates?: 'replace' | 'keep-existing' | 'keep-both';
+}
+
+/**
+ * A reference to a locale dictionary accepted by the naming functions.
+ *
+ * - A BCP 47 tag such as `'de-AT'` or an `Intl.Locale`, negotiated against the
+ *   registered locales with fallback (`de-AT` → `de` → default locale)
+ * - A list of tags in priority order, such as `navigator.languages`
+ * - A ColorDictionary object, used directly without registration
+ */
+export type LocaleInput =
+  | string
+  | Intl.Locale
+  | readonly (string | Intl.Locale)[]
+  | ColorDictionary;
+
 /**
  * A parallel-arrays structure holding color names and their OkLab centroids.
  * `names[i]` corresponds to the OkLab point at `colors[i*3 .. i*3+2]`.
@@ -51,6 +145,85 @@ export interface ColorNameSet {
    * Each color occupies 3 consecutive floats: `[l0, a0, b0, l1, a1, b1, ...]`.
    */
   colors: Float32Array;
+  /**
+   * Optional inflection tables keyed by name (the lemma, as listed in `names`).
+   * Names without an entry are treated as invariable.
+   */
+  forms?: Record<string, ColorNameForm[]>;
+  /**
+   * Optional per-entry attribution, parallel to `names`. Set when name sets
+   * from several dictionaries are merged; entries without one use the
+   * dictionary's `source`.
+   */
+  sources?: string[];
+  /**
+   * Optional survey statistics, used to compute naming confidence and regions.
+   * Emitted by the locale generator for dataset-derived tiers; the bundled
+   * locales do not carry them yet.
+   */
+  stats?: ColorNameStats;
+  /**
+   * Optional per-name spread (standard deviation in OkLab), parallel to
+   * `names`, for sets without survey statistics. Describes each name as an
+   * isotropic region for the `region` naming modes.
+   */
+  radii?: Float32Array;
+  /**
+   * Optional prebuilt k-d tree over `colors`, from `KDTree.serialize()`.
+   * Loaded instead of building the tree on first use; ignored if it does not
+   * match the set's size. Emitted by the locale generator.
+   */
+  tree?: ArrayBuffer | Uint8Array;
+}
+
+/**
+ * Per-name survey statistics, parallel to {@link ColorNameSet.names}.
+ * Together with the centroids they describe each name as a Gaussian in OkLab,
+ * weighted by how often the name was used.
+ */
+export interface ColorNameStats {
+  /** Number of survey responses per name. */
+  counts: Uint32Array;
+  /**
+   * OkLab covariance of each name's responses about its centroid, as 6 floats
+   * per name: `[ll, la, lb, aa, ab, bb]`.
+   */
+  covariances: Float32Array;
+}
+
+/**
+ * One entry of a naming probability distribution.
+ */
+export interface ColorNameProbability {
+  /** The candidate name. */
+  name: string;
+  /** The tier the name belongs to. */
+  level: TierName;
+  /** Probability that a speaker would use this name for the query color, from 0 to 1. */
+  probability: number;
+}
+
+/**
+ * Grammatical features selecting an inflected form of a color name.
+ * Which features matter depends on the language: German and the Slavic
+ * languages decline adjectives for case, Romance languages only agree in
+ * gender and number.
+ */
+export interface GrammaticalFeatures {
+  gender?: 'masculine' | 'feminine' | 'neuter';
+  /** Defaults to `'singular'` when matching. */
+  number?: 'singular' | 'plural';
+  /** Defaults to `'nominative'` when matching. */
+  case?: 'nominative' | 'genitive' | 'dative' | 'accusative' | 'instrumental' | 'locative' | 'prepositional';
+}
+
+/**
+ * One inflected form of a color name. Features left out apply to any value,
+ * e.g. a plural form without `gender` is shared by all genders.
+ */
+export interface ColorNameForm extends GrammaticalFeatures {
+  /** The inflected name. */
+  form: string;
 }
 
 /**
@@ -61,24 +234,168 @@ export interface ColorName {
   name: string;
   /** The canonical OkLab centroid as a Color instance. */
   color: Color;
-  /** Perceptual distance from the query color (Euclidean in OkLab). 0 = exact match. */
+  /**
+   * Perceptual distance from the query color, measured with the requested
+   * {@link DistanceMetric} (Euclidean in OkLab by default). 0 = exact match.
+   */
   distance: number;
-  /** The dictionary source this name came from (e.g. `'css'`, `'uw-survey'`). */
+  /**
+   * Where this name came from (e.g. `'css'`, `'uw-survey'`): the entry's own
+   * source when dictionaries were merged, otherwise the dictionary's.
+   */
+  source: string;
+  /** The tier this name belongs to (e.g. `'basic'`, `'extended'`, `'traditional'`, or a custom tier). */
+  level: TierName;
+  /** The dictionary form of the name, set when {@link NamingOptions.grammar} was requested. */
+  lemma?: string;
+  /** The name's inflection table, when the dictionary has one. */
+  forms?: ColorNameForm[];
+  /**
+   * Probability that a speaker would use this name for the query color, set
+   * when {@link NamingOptions.confidence} was requested.
+   */
+  confidence?: number;
+  /**
+   * Probability of each likely name for the query color, most likely first,
+   * set when {@link NamingOptions.confidence} was requested.
+   */
+  distribution?: ColorNameProbability[];
+}
+
+/**
+ * A candidate returned by {@link searchColorNames}.
+ */
+export interface ColorNameMatch {
+  /** The matched color name, as spelled in the dictionary. */
+  name: string;
+  /** The name's OkLab centroid as a Color instance. */
+  color: Color;
+  /** Similarity between the query and the name, from 0 to 1 (1 = same normalized spelling). */
+  score: number;
+  /** Edits (insertions, deletions, substitutions, transpositions) between the normalized query and name. */
+  edits: number;
+  /** The dictionary source this name came from. */
   source: string;
-  /** The specificity level this name belongs to (`'basic'`, `'extended'`, or `'traditional'`). */
-  level: 'basic' | 'extended' | 'traditional';
+  /** The tier this name belongs to. */
+  level: TierName;
+}
+
+/**
+ * Options for {@link suggestColorNames}.
+ */
+export interface SuggestOptions extends TierSelection {
+  /** Maximum number of candidates to return. Defaults to `10` for suggestions. */
+  limit?: number;
+}
+
+/**
+ * Options for {@link searchColorNames}. `limit` defaults to `5`.
+ */
+export interface SearchOptions extends SuggestOptions {
+  /** Maximum number of edits between the normalized query and a name. Defaults to `2`. */
+  maxEdits?: number;
 }
 
 /**
- * Options for the {@link nameColor} function.
+ * Options for the {@link nameColor} and {@link nearestColors} functions.
  */
-export interface NamingOptions {
-  /** Maximum specificity level — searches all tiers up to and including this one. */
-  level?: 'basic' | 'extended' | 'traditional';
-  /** Maximum acceptable perceptual distance. Results farther than this are excluded. */
+export interface NamingOptions extends TierSelection {
+  /**
+   * Try tiers one at a time in precedence order and return matches from the
+   * first tier that has any (within {@link threshold}), instead of the closest
+   * matches across all searched tiers. Use with a threshold to prefer your own
+   * palette and fall back to the survey tiers.
+   */
+  cascade?: boolean;
+  /**
+   * Maximum acceptable perceptual distance, in the units of {@link metric}.
+   * Results farther than this are excluded.
+   */
   threshold?: number;
+  /**
+   * Color-difference metric used to rank candidates. Defaults to `'oklab'`.
+   * Any other metric scans every name in the searched tiers, so results are
+   * ranked exactly under that metric.
+   */
+  metric?: DistanceMetric;
+  /**
+   * Return the name inflected for these grammatical features, e.g.
+   * `{ gender: 'feminine', case: 'genitive' }`. Names without a matching form
+   * fall back to the lemma.
+   */
+  grammar?: GrammaticalFeatures;
+  /**
+   * Compute `confidence` and `distribution` on results. Each name is modelled
+   * as a Gaussian in OkLab weighted by its survey count (from
+   * {@link ColorNameSet.stats}, or a uniform weight and default spread for
+   * name sets without statistics), and probabilities are normalized over the
+   * closest candidates of the searched tiers.
+   * The bundled locales ship no statistics, so for them the values follow
+   * the distances between centroids rather than calibrated survey data.
+   */
+  confidence?: boolean;
+  /**
+   * Treat names as regions rather than points: `'mahalanobis'` ranks names by
+   * Mahalanobis distance from their centroid (using {@link ColorNameSet.stats}
+   * covariances or {@link ColorNameSet.radii}), and `'likelihood'` additionally
+   * weighs in how often each name is used. Broad terms like "blue" then win
+   * over narrow ones like "navy" where speakers would say so. `distance` and
+   * `threshold` are in standard deviations; `metric` is ignored.
+   * The k-d tree preselects the closest centroids as candidates.
+   * Name sets with neither statistics nor radii, which includes the bundled
+   * locales, give every name the same spread, so the ranking is the same as
+   * without `region`.
+   */
+  region?: 'mahalanobis' | 'likelihood';
+  /**
+   * Search in cylindrical OkLCh with separate `[L, C, h]` weights instead of
+   * Euclidean OkLab. Raising the hue weight keeps names in the query's hue
+   * family, so a greyish blue is not named after a nearby teal; achromatic
+   * names have no hue and stay reachable. `distance` and `threshold` are in
+   * the weighted units; `metric` is ignored. The search stays k-d tree
+   * accelerated.
+   */
+  lchWeights?: LchWeights;
+  /**
+   * Answer single-name queries ({@link nameColor}, {@link nameColors},
+   * {@link ColorNameFormat}) from a precomputed 32³ OkLab voxel grid, for hot
+   * paths such as naming video frames or colors under the pointer. Each voxel
+   * lists the few names that can be nearest anywhere inside it, so a lookup
+   * compares a handful of centroids and the result is the same as the exact
+   * search; voxels on a boundary between many names, and colors outside the
+   * Display P3 range, fall back to the k-d tree. A tier's grid is built on
+   * first use, so it is only used for registered locales (where it is
+   * cached), by {@link nameColors} and by {@link ColorNameFormat}. Ignored
+   * with another `metric`, `region` or {@link lchWeights}.
+   */
+  grid?: boolean;
 }
 
+/**
+ * Weights `[L, C, h]` for a cylindrical OkLCh distance,
+ * `√(wL·ΔL² + wC·ΔC² + wh·ΔH²)`, where ΔH is the CIE hue difference
+ * `2·√(C₁C₂)·sin(Δh/2)`. `[1, 1, 1]` is plain Euclidean OkLab distance.
+ */
+export type LchWeights = [number, number, number];
+
+/**
+ * A color-difference metric.
+ *
+ * - `'oklab'` — Euclidean distance in OkLab (default, k-d tree accelerated)
+ * - `'ciede2000'` — CIE ΔE2000, in CIELAB units
+ * - `'cie94'` — CIE ΔE94 (graphic arts), in CIELAB units
+ * - `'cmc'` — CMC l:c with the 2:1 acceptability weights, in CIELAB units
+ * - `{ type: 'cmc', l, c }` — CMC with custom lightness and chroma weights
+ * - `{ type: 'weighted-oklab', weights }` — Euclidean OkLab with per-axis `[L, a, b]` weights
+ */
+export type DistanceMetric =
+  | 'oklab'
+  | 'ciede2000'
+  | 'cie94'
+  | 'cmc'
+  | { type: 'cmc'; l?: number; c?: number }
+  | { type: 'weighted-oklab'; weights: [number, number, number] };
+
 /**
  * Result of translating a color name between two locales.
  * Contains both the source and target colors so the caller can assess
@@ -91,6 +408,346 @@ export interface TranslationResult {
   sourceColor: Color;
   /** The color associated with the target name (nearest match). */
   targetColor: Color;
-  /** Perceptual distance between source and target centroids (Euclidean in OkLab). */
+  /**
+   * Perceptual distance between source and target centroids, measured with
+   * the requested {@link DistanceMetric} (Euclidean in OkLab by default).
+   */
   distance: number;
+  /**
+   * In `'category'` mode, for a basic source term: every target basic term
+   * covering part of the source term's region, largest share first. Several
+   * candidates mean the target language splits the category.
+   */
+  candidates?: TranslationCandidate[];
+}
+
+/**
+ * A target term covering part of a source term's color region.
+ */
+export interface TranslationCandidate {
+  /** The target name. */
+  name: string;
+  /** The target name's centroid. */
+  color: Color;
+  /**
+   * Distance between the source and target centroids, measured like
+   * {@link TranslationResult.distance}.
+   */
+  distance: number;
+  /**
+   * Share of the source term's region (the sRGB colors the source's basic
+   * tier names with it) that the target's basic tier names with this term,
+   * from 0 to 1.
+   */
+  share: number;
+}
+
+/**
+ * Options for {@link translateColor}.
+ */
+export interface TranslateOptions extends NamingOptions {
+  /**
+   * How target tiers are chosen. `'nearest'` (default) takes the closest name
+   * in the selected tiers. `'category'` maps tiers deliberately: a basic term
+   * translates to a basic term, with `candidates` listing every basic term the
+   * source category spans, and other terms translate to the best match in any
+   * selected tier (as do basic terms when the target has no basic tier).
+   */
+  mode?: 'nearest' | 'category';
+}
+
+/**
+ * Options for {@link translationMatrix}.
+ */
+export interface TranslationMatrixOptions extends NamingOptions {
+  /** Number of target names listed per source name. Defaults to `3`. */
+  count?: number;
+}
+
+/**
+ * One source name paired with one of its nearest target names.
+ */
+export interface TranslationMatrixRow {
+  /** The source name. */
+  source: string;
+  /** The tier of the source name. */
+  sourceLevel: TierName;
+  /** Position of the target among the source name's matches, starting at 1. */
+  rank: number;
+  /** The target name. */
+  target: string;
+  /** The tier of the target name. */
+  targetLevel: TierName;
+  /** Distance between the source and target centroids. */
+  distance: number;
+}
+
+/**
+ * Every name of one locale mapped to its nearest names in another, returned by
+ * {@link translationMatrix}. Plain data, so it serializes with `JSON.stringify`.
+ */
+export interface TranslationMatrix {
+  /** The source locale. */
+  from: string;
+  /** The target locale. */
+  to: string;
+  /** One row per source name and match, grouped by source name in dictionary order. */
+  rows: TranslationMatrixRow[];
+}
+
+/**
+ * Options for {@link colorNameRegions}: naming options as for
+ * {@link nameColors}, plus the sampling density.
+ */
+export interface ColorNameRegionOptions extends Omit<BatchNamingOptions, 'space' | 'stride'> {
+  /** Samples along each sRGB channel; the gamut is sampled at `resolution³` cell centers. Defaults to `32`. */
+  resolution?: number;
+  /** Maximum number of representative boundary colors per region. Defaults to `8`. */
+  boundaryColors?: number;
+}
+
+/**
+ * A name whose region borders another's, listed in {@link ColorNameRegion.neighbours}.
+ */
+export interface ColorNameNeighbour {
+  /** The neighbouring name. */
+  name: string;
+  /** The tier of the neighbouring name. */
+  level: TierName;
+  /** Fraction of the region's boundary shared with this neighbour, from 0 to 1. */
+  contact: number;
+}
+
+/**
+ * The part of the sRGB gamut a color name wins, returned by {@link colorNameRegions}.
+ */
+export interface ColorNameRegion {
+  /** The color name. */
+  name: string;
+  /** The tier this name belongs to. */
+  level: TierName;
+  /** The name's OkLab centroid as a Color instance. */
+  color: Color;
+  /** Fraction of the sampled sRGB gamut named by this name, from 0 to 1. `0` means unreachable in sRGB. */
+  share: number;
+  /** Representative sRGB colors on the region's boundary, spread across it. */
+  boundary: Color[];
+  /** Names whose regions border this one, most shared boundary first. */
+  neighbours: ColorNameNeighbour[];
+}
+
+/**
+ * Options for {@link analyzeTranslation}.
+ */
+export interface TranslationReportOptions extends NamingOptions {
+  /** Number of alternative target names to list, not counting the translation. Defaults to `5`. */
+  alternatives?: number;
+}
+
+/**
+ * A translation with diagnostics, returned by {@link analyzeTranslation}.
+ */
+export interface TranslationReport extends TranslationResult {
+  /** The tier the target name belongs to. */
+  level: TierName;
+  /** The closest target names other than the translation itself, best first. */
+  alternatives: ColorName[];
+  /** The target name translated back into the source locale, or `null` if it has no match. */
+  reverse: TranslationResult | null;
+  /** Whether translating back yields the source name (A → B → A). */
+  reciprocal: boolean;
+  /** The source name's basic color term in the source locale, or `null` without a basic tier. */
+  sourceCategory: string | null;
+  /** The translation's basic color term in the target locale, or `null` without a basic tier. */
+  targetCategory: string | null;
+  /**
+   * Whether the target locale lacks a basic term for the source category:
+   * the target basic term nearest to the source category does not translate
+   * back to it (e.g. a language that does not separate green from blue).
+   */
+  categoryMissing: boolean;
+}
+
+/**
+ * Packed colors accepted by {@link nameColors}: a flat typed array of channel
+ * values, or an `ImageData`-shaped object (RGBA bytes, alpha ignored).
+ */
+export type PackedColors =
+  | Float32Array
+  | Uint8Array
+  | Uint8ClampedArray
+  | { data: Uint8ClampedArray | Uint8Array; width: number; height: number };
+
+/**
+ * Options for {@link nameColors}.
+ */
+export interface BatchNamingOptions extends Omit<NamingOptions, 'grammar' | 'confidence' | 'region'> {
+  /**
+   * Color space of the packed values. Byte arrays are always sRGB (0–255);
+   * a `Float32Array` holds OkLab `[l, a, b]` by default, or sRGB (0–1) with `'srgb'`.
+   */
+  space?: 'srgb' | 'oklab';
+  /**
+   * Number of array elements per color, for interleaved layouts such as RGBA.
+   * Defaults to `4` for `ImageData`-shaped input and `3` otherwise.
+   */
+  stride?: number;
+}
+
+/**
+ * Result of {@link nameColors}: parallel arrays with one entry per input color.
+ */
+export interface BatchNamingResult {
+  /** Candidate names across the searched tiers; `indices` point into this table. */
+  names: string[];
+  /** The tier of each entry in `names`. */
+  levels: TierName[];
+  /** Index into `names` of each color's closest name, or `-1` if none is within the threshold. */
+  indices: Int32Array;
+  /** Distance from each color to its name, or `Infinity` where `indices` is `-1`. */
+  distances: Float32Array;
+}
+
+/**
+ * Options for the {@link ColorNameFormat} constructor.
+ * Extends the naming options with presentation settings modelled on `Intl.DisplayNames`.
+ */
+export interface ColorNameFormatOptions extends NamingOptions {
+  /**
+   * What to return when no name matches (e.g. beyond `threshold`):
+   * `'hex'` (default) returns the color's hex code, `'none'` returns `undefined`.
+   */
+  fallback?: 'hex' | 'none';
+  /**
+   * `'short'` (default) formats the name alone; `'long'` appends the hex code,
+   * e.g. `'tomato (#ff6347)'`.
+   */
+  style?: 'short' | 'long';
+}
+
+/**
+ * The options a {@link ColorNameFormat} instance actually uses, after locale
+ * negotiation and defaults are applied.
+ */
+export interface ResolvedColorNameFormatOptions {
+  /** The negotiated dictionary locale (e.g. `'de'` when `'de-AT'` was requested). */
+  locale: string;
+  /** Maximum specificity level, or `undefined` to search all tiers. */
+  level: NamingOptions['level'];
+  /** The tiers searched, in order, after applying `level`, `tiers`, `include` and `exclude`. */
+  tiers: TierName[];
+  /** Whether tiers are tried one at a time (see {@link NamingOptions.cascade}). */
+  cascade: boolean;
+  /** Maximum acceptable distance, or `undefined` for no limit. */
+  threshold: number | undefined;
+  /** The distance metric used for ranking. */
+  metric: DistanceMetric;
+  /** Grammatical features names are inflected for, or `undefined` for the lemma. */
+  grammar: GrammaticalFeatures | undefined;
+  /** OkLCh search weights (see {@link NamingOptions.lchWeights}), or `undefined` for Euclidean OkLab. */
+  lchWeights: LchWeights | undefined;
+  /** Region ranking mode (see {@link NamingOptions.region}), or `undefined` to rank by distance to centroids. */
+  region: NamingOptions['region'];
+  /** Whether `confidence` and `distribution` are computed (see {@link NamingOptions.confidence}). */
+  confidence: boolean;
+  /** Whether names are looked up in the OkLab voxel grid (see {@link NamingOptions.grid}). */
+  grid: boolean;
+  /** Fallback behaviour when no name matches. */
+  fallback: 'hex' | 'none';
+  /** Output style. */
+  style: 'short' | 'long';
+}
+
+/**
+ * A segment of a formatted color name, as returned by {@link ColorNameFormat.formatToParts}.
+ *
+ * - `'name'` — the color name
+ * - `'code'` — the hex code (in `'long'` style, or as the fallback)
+ * - `'literal'` — punctuation between the other parts
+ */
+export interface ColorNamePart {
+  type: 'name' | 'code' | 'literal';
+  value: string;
+}
+
+/**
+ * Options for the {@link describeColor} function.
+ */
+export interface DescribeOptions extends NamingOptions {
+  /** Minimum OkLab lightness offset from the base term that triggers light/dark. Defaults to `0.08`. */
+  lightnessStep?: number;
+  /** Minimum hue offset (degrees) from the base term that triggers a tint. Defaults to `12`. */
+  hueStep?: number;
+}
+
+/**
+ * A descriptive color name composed from a base term and modifiers.
+ */
+export interface ColorDescription {
+  /** The composed descriptive name (e.g. `'dark greyish blue'`). */
+  name: string;
+  /** The base term the description was built on. */
+  base: ColorName;
+  /** Modifiers applied, innermost first. */
+  modifiers: ColorModifier[];
+  /** The term whose tint form was applied, when `modifiers` includes `'ish'`. */
+  tint?: string;
+}
+
+/**
+ * How consistently a color is named, returned by {@link nameSaliency}.
+ */
+export interface ColorSaliency {
+  /** The most likely name for the color. */
+  name: string;
+  /** The tier the most likely name belongs to. */
+  level: TierName;
+  /** Probability of the most likely name: the share of speakers expected to agree on it. */
+  agreement: number;
+  /** Shannon entropy of the naming distribution, in bits. 0 = every speaker uses the same name. */
+  entropy: number;
+  /** Negative entropy, as in Heer & Stone: 0 is the most salient, lower values are more ambiguous. */
+  saliency: number;
+  /** Probability of each likely name, most likely first. */
+  distribution: ColorNameProbability[];
+}
+
+/**
+ * Options for {@link colorNameSynonyms}.
+ */
+export interface SynonymOptions extends TierSelection {
+  /** Minimum region overlap for a name to count as a synonym, from 0 to 1. Defaults to `0.25`. */
+  minOverlap?: number;
+  /** Maximum number of synonyms to return. Defaults to `10`. */
+  limit?: number;
+}
+
+/**
+ * A name whose color region overlaps another's.
+ */
+export interface ColorNameSynonym {
+  /** The overlapping name. */
+  name: string;
+  /** The tier the name belongs to. */
+  level: TierName;
+  /** Bhattacharyya coefficient of the two names' regions: 1 = identical, 0 = disjoint. */
+  overlap: number;
+}
+
+/**
+ * The synonyms of a color name, returned by {@link colorNameSynonyms}.
+ */
+export interface ColorNameSynonyms {
+  /** The name, as spelled in the dictionary. */
+  name: string;
+  /** The tier the name belongs to. */
+  level: TierName;
+  /**
+   * Expected probability that a color from this name's region is called by
+   * this name rather than another one. Low values mark names that are
+   * crowded out by their neighbours.
+   */
+  consistency: number;
+  /** Overlapping names, largest overlap first. */
+  synonyms: ColorNameSynonym[];
 }
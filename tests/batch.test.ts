@@ -0,0 +1,94 @@
+import { test, expect, describe, beforeAll } from 'bun:test';
+import { Color, nameColor, nameColors, useLocale } from '../index.ts';
+import { en } from '../src/locales/en.ts';
+import { modeRgb, modeOklab, modeOklch, modeHsl, modeLrgb, useMode } from 'culori/fn';
+
+beforeAll(() => {
+  const modes = [modeRgb, modeOklab, modeOklch, modeHsl, modeLrgb];
+
+  for (const mode of modes) {
+    useMode(mode as any);
+  }
+
+  useLocale(en);
+});
+
+/** Resolve batch results to names, for readable assertions. */
+function namesOf(result: ReturnType<typeof nameColors>): (string | undefined)[] {
+  return Array.from(result!.indices, (i) => result!.names[i]);
+}
+
+describe('nameColors', () => {
+  test('names packed RGB bytes', () => {
+    const result = nameColors(new Uint8Array([255, 0, 0, 0, 0, 255, 255, 255, 0]), 'en', { level: 'basic' });
+    expect(namesOf(result)).toEqual(['red', 'blue', 'yellow']);
+    expect(result?.distances.length).toBe(3);
+    expect(result?.levels.every((l) => l === 'basic')).toBe(true);
+  });
+
+  test('matches nameColor for every color', () => {
+    const hexes = ['#ff6347', '#4682b4', '#2f4f4f', '#deb887', '#7fff00', '#123456'];
+    const bytes = new Uint8Array(hexes.flatMap((hex) => [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16))));
+    const result = nameColors(bytes, 'en');
+
+    hexes.forEach((hex, i) => {
+      const single = nameColor(hex, 'en');
+      expect(result?.names[result.indices[i]!]).toBe(single?.name);
+      expect(result?.distances[i]).toBeCloseTo(single!.distance, 5);
+    });
+  });
+
+  test('reads ImageData-shaped input as RGBA', () => {
+    const image = {
+      data: new Uint8ClampedArray([255, 0, 0, 255, 0, 128, 0, 0, 255, 0, 0, 255]),
+      width: 3,
+      height: 1,
+    };
+    expect(namesOf(nameColors(image, 'en', { level: 'basic' }))).toEqual(['red', 'green', 'red']);
+  });
+
+  test('reads Float32Array as OkLab, or sRGB with space', () => {
+    const red = Color.parse('#ff0000')!.toOklab()!;
+    const oklab = new Float32Array([red.get('l')!, red.get('a')!, red.get('b')!]);
+    expect(namesOf(nameColors(oklab, 'en', { level: 'basic' }))).toEqual(['red']);
+
+    const srgb = new Float32Array([0, 0, 1, 1, 1, 1]);
+    expect(namesOf(nameColors(srgb, 'en', { level: 'basic', space: 'srgb' }))).toEqual(['blue', 'white']);
+  });
+
+  test('honours stride for interleaved layouts', () => {
+    const rgbx = new Uint8Array([0, 0, 255, 9, 255, 255, 0, 9]);
+    expect(namesOf(nameColors(rgbx, 'en', { level: 'basic', stride: 4 }))).toEqual(['blue', 'yellow']);
+  });
+
+  test('marks colors beyond the threshold with -1', () => {
+    const result = nameColors(new Uint8Array([255, 0, 0, 18, 52, 86]), 'en', { level: 'basic', threshold: 0.01 });
+    expect(result?.indices[0]).toBeGreaterThanOrEqual(0);
+    expect(result?.indices[1]).toBe(-1);
+    expect(result?.distances[1]).toBe(Infinity);
+  });
+
+  test('supports non-Euclidean metrics', () => {
+    const bytes = new Uint8Array([255, 99, 71]);
+    const result = nameColors(bytes, 'en', { metric: 'ciede2000' });
+    const single = nameColor('#ff6347', 'en', { metric: 'ciede2000' });
+    expect(result?.names[result.indices[0]!]).toBe(single?.name);
+  });
+
+  test('supports weighted OkLCh search', () => {
+    const hexes = ['#8a9bb0', '#c8a890', '#7f8c8d'];
+    const bytes = new Uint8Array(hexes.flatMap((hex) => [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16))));
+    const options = { level: 'basic' as const, lchWeights: [1, 1, 8] as [number, number, number] };
+    const result = nameColors(bytes, 'en', options);
+    hexes.forEach((hex, i) => {
+      const single = nameColor(hex, 'en', options);
+      expect(result?.names[result.indices[i]!]).toBe(single?.name);
+      expect(result?.distances[i]).toBeCloseTo(single!.distance, 5);
+    });
+  });
+
+  test('returns null for an unknown locale and empty arrays for empty input', () => {
+    expect(nameColors(new Uint8Array(3), 'xx')).toBeNull();
+    expect(nameColors(new Uint8Array(0), 'en')?.indices.length).toBe(0);
+  });
+});
@@ -248,6 +248,16 @@ describe('deltaE and equals', () => {
     expect(a.deltaE(b)).toBeGreaterThan(0);
   });
 
+  test('accepts an alternative metric', () => {
+    const a = Color.hex('#ff0000')!;
+    const b = Color.hex('#ffa500')!;
+    const ok = a.deltaE(b);
+    const de2000 = a.deltaE(b, 'ciede2000');
+    expect(de2000).toBeGreaterThan(1);
+    expect(de2000).not.toBeCloseTo(ok, 2);
+    expect(a.deltaE(a, 'ciede2000')).toBeCloseTo(0, 5);
+  });
+
   test('equals with tolerance', () => {
     const a = Color.hex('#ff0000')!;
     const b = Color.hex('#ff1100')!;
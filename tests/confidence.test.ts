@@ -0,0 +1,183 @@
+import { test, expect, describe, beforeAll } from 'bun:test';
+import { Color, ColorNameFormat, getLocale, nameColor, nearestColors, removeLocale, useLocale } from '../index.ts';
+import { logWeight, mahalanobis, normalize } from '../src/confidence.ts';
+import type { ColorDictionary, ColorNameSet } from '../index.ts';
+import { en } from '../src/locales/en.ts';
+import { modeRgb, modeOklab, modeOklch, modeHsl, modeLrgb, useMode } from 'culori/fn';
+
+beforeAll(() => {
+  const modes = [modeRgb, modeOklab, modeOklch, modeHsl, modeLrgb];
+
+  for (const mode of modes) {
+    useMode(mode as any);
+  }
+
+  useLocale(en);
+});
+
+/** Two names 0.2 apart on the lightness axis, with survey statistics. */
+function survey(counts: [number, number], spreads: [number, number]): ColorNameSet {
+  const cov = (s: number) => [s * s, 0, 0, s * s, 0, s * s];
+  return {
+    names: ['dim', 'bright'],
+    colors: new Float32Array([0.4, 0, 0, 0.6, 0, 0]),
+    stats: {
+      counts: new Uint32Array(counts),
+      covariances: new Float32Array([...cov(spreads[0]), ...cov(spreads[1])]),
+    },
+  };
+}
+
+describe('naming model', () => {
+  test('normalize turns log weights into probabilities', () => {
+    const p = normalize([Math.log(1), Math.log(3)]);
+    expect(p[0]).toBeCloseTo(0.25);
+    expect(p[1]).toBeCloseTo(0.75);
+    expect(normalize([-Infinity, -Infinity])).toEqual([0, 0]);
+  });
+
+  test('more frequently used names are more likely at equal density', () => {
+    const set = survey([10, 30], [0.05, 0.05]);
+    const midpoint: [number, number, number] = [0.5, 0, 0];
+    const [dim, bright] = normalize([logWeight(set, 0, midpoint), logWeight(set, 1, midpoint)]);
+    expect(bright! / dim!).toBeCloseTo(3, 3);
+  });
+
+  test('wider names claim colors far from their centroid', () => {
+    const set = survey([10, 10], [0.02, 0.1]);
+    const nearDim: [number, number, number] = [0.48, 0, 0];
+    const [dim, bright] = normalize([logWeight(set, 0, nearDim), logWeight(set, 1, nearDim)]);
+    expect(bright).toBeGreaterThan(dim!);
+  });
+});
+
+describe('confidence option', () => {
+  const dict = (set: ColorNameSet): ColorDictionary => ({ locale: 'x-survey', source: 'survey', basic: set });
+
+  test('is omitted unless requested', () => {
+    const result = nameColor('#ff0000', 'en', { level: 'basic' });
+    expect(result?.confidence).toBeUndefined();
+    expect(result?.distribution).toBeUndefined();
+  });
+
+  test('returns the confidence of the name and a distribution over candidates', () => {
+    const result = nameColor('#ff8000', 'en', { level: 'basic', confidence: true });
+    expect(result?.name).toBe('orange');
+    expect(result?.confidence).toBeGreaterThan(0.5);
+    expect(result?.confidence).toBeLessThan(1);
+    expect(result?.distribution?.[0]).toMatchObject({ name: 'orange', level: 'basic' });
+
+    const total = result!.distribution!.reduce((sum, d) => sum + d.probability, 0);
+    expect(total).toBeCloseTo(1);
+  });
+
+  test('is low between two equally likely names', () => {
+    const query = Color.create('oklab', { l: 0.5, a: 0, b: 0 });
+    const result = nameColor(query, dict(survey([10, 10], [0.05, 0.05])), { confidence: true });
+    expect(result?.confidence).toBeCloseTo(0.5, 2);
+  });
+
+  test('uses survey statistics to rank the distribution', () => {
+    const query = Color.create('oklab', { l: 0.48, a: 0, b: 0 });
+    const result = nameColor(query, dict(survey([10, 10], [0.02, 0.1])), { confidence: true });
+    // Nearest centroid is 'dim', but the wide 'bright' name is the more probable one
+    expect(result?.name).toBe('dim');
+    expect(result?.distribution?.[0]?.name).toBe('bright');
+    expect(result?.confidence).toBeLessThan(0.5);
+  });
+
+  test('annotates nearestColors results', () => {
+    const results = nearestColors('#ff8000', 'en', 3, { level: 'basic', confidence: true });
+    expect(results.every((r) => r.confidence !== undefined)).toBe(true);
+    expect(results[0]!.confidence!).toBeGreaterThan(results[1]!.confidence!);
+  });
+});
+
+describe('region option', () => {
+  const dict = (set: ColorNameSet): ColorDictionary => ({ locale: 'x-region', source: 'survey', basic: set });
+  const nearDim = Color.create('oklab', { l: 0.48, a: 0, b: 0 });
+
+  test('mahalanobis measures distance in standard deviations', () => {
+    const set = survey([10, 10], [0.02, 0.1]);
+    expect(mahalanobis(set, 1, [0.6, 0, 0])).toBeCloseTo(0);
+    expect(mahalanobis(set, 1, [0.4, 0, 0])).toBeCloseTo(2, 1);
+    expect(mahalanobis(set, 1, [0.6, 0.2, 0])).toBeCloseTo(2, 1);
+  });
+
+  test('a broad name wins over a narrow one with a nearer centroid', () => {
+    const set = survey([10, 10], [0.02, 0.1]);
+    expect(nameColor(nearDim, dict(set))?.name).toBe('dim');
+
+    const result = nameColor(nearDim, dict(set), { region: 'mahalanobis' });
+    expect(result?.name).toBe('bright');
+    expect(result?.distance).toBeCloseTo(1.2, 1);
+  });
+
+  test('likelihood also weighs how often names are used', () => {
+    const query = Color.create('oklab', { l: 0.5, a: 0, b: 0 });
+    expect(nameColor(query, dict(survey([10, 30], [0.05, 0.05])), { region: 'likelihood' })?.name).toBe('bright');
+    expect(nameColor(query, dict(survey([30, 10], [0.05, 0.05])), { region: 'likelihood' })?.name).toBe('dim');
+  });
+
+  test('uses per-name radii when there are no statistics', () => {
+    const set: ColorNameSet = {
+      names: ['dim', 'bright'],
+      colors: new Float32Array([0.4, 0, 0, 0.6, 0, 0]),
+      radii: new Float32Array([0.02, 0.1]),
+    };
+    expect(nameColor(nearDim, dict(set), { region: 'mahalanobis' })?.name).toBe('bright');
+  });
+
+  test('threshold applies to the Mahalanobis distance', () => {
+    const set = survey([10, 10], [0.02, 0.1]);
+    const far = Color.create('oklab', { l: 0.95, a: 0, b: 0 });
+    expect(nameColor(far, dict(set), { region: 'mahalanobis', threshold: 3 })).toBeNull();
+    expect(nameColor(far, dict(set), { region: 'mahalanobis', threshold: 4 })?.name).toBe('bright');
+  });
+
+  test('ColorNameFormat names by region', () => {
+    const set = survey([10, 10], [0.02, 0.1]);
+    const fmt = new ColorNameFormat(dict(set), { region: 'mahalanobis' });
+    expect(fmt.format(nearDim)).toBe('bright');
+    expect(fmt.resolvedOptions().region).toBe('mahalanobis');
+  });
+
+  test('keeps radii when names are merged into a tier', () => {
+    useLocale(dict({
+      names: ['dim', 'bright'],
+      colors: new Float32Array([0.4, 0, 0, 0.6, 0, 0]),
+      radii: new Float32Array([0.02, 0.1]),
+    }));
+    useLocale({ locale: 'x-region', source: 'brand', basic: { names: ['ink'], colors: new Float32Array([0.1, 0, 0]) } });
+
+    expect(getLocale('x-region')!.basic!.radii).toEqual(new Float32Array([0.02, 0.1, 0.05]));
+    expect(nameColor(nearDim, 'x-region', { region: 'mahalanobis' })?.name).toBe('bright');
+    removeLocale('x-region');
+  });
+
+  test('keeps survey statistics when names are merged into a tier', () => {
+    useLocale(dict(survey([10, 30], [0.05, 0.05])));
+    useLocale({ locale: 'x-region', source: 'brand', basic: { names: ['ink'], colors: new Float32Array([0.1, 0, 0]) } });
+
+    const stats = getLocale('x-region')!.basic!.stats!;
+    expect([...stats.counts]).toEqual([10, 30, 1]);
+    expect(stats.covariances[12]).toBeCloseTo(0.05 ** 2);
+    const query = Color.create('oklab', { l: 0.5, a: 0, b: 0 });
+    expect(nameColor(query, 'x-region', { region: 'likelihood' })?.name).toBe('bright');
+    removeLocale('x-region');
+  });
+
+  test('matches the default ranking for sets without statistics or radii', () => {
+    for (const hex of ['#1e90ff', '#3050d0', '#6495ed', '#000080']) {
+      const name = nameColor(hex, 'en')?.name;
+      expect(nameColor(hex, 'en', { region: 'mahalanobis' })?.name).toBe(name);
+      expect(nameColor(hex, 'en', { region: 'likelihood' })?.name).toBe(name);
+    }
+  });
+
+  test('ranks nearestColors by region', () => {
+    const results = nearestColors(nearDim, dict(survey([10, 10], [0.02, 0.1])), 2, { region: 'mahalanobis' });
+    expect(results.map((r) => r.name)).toEqual(['bright', 'dim']);
+    expect(results[0]!.distance).toBeLessThan(results[1]!.distance);
+  });
+});
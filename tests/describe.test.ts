@@ -0,0 +1,73 @@
+import { test, expect, describe, beforeAll } from 'bun:test';
+import { describeColor, useLocale } from '../index.ts';
+import type { ColorDictionary } from '../index.ts';
+import { en } from '../src/locales/en.ts';
+import { fr } from '../src/locales/fr.ts';
+import { de } from '../src/locales/de.ts';
+import { modeRgb, modeOklab, modeOklch, modeHsl, modeLrgb, useMode } from 'culori/fn';
+
+beforeAll(() => {
+  const modes = [modeRgb, modeOklab, modeOklch, modeHsl, modeLrgb];
+
+  for (const mode of modes) {
+    useMode(mode as any);
+  }
+
+  useLocale(en);
+  useLocale(fr);
+  useLocale(de);
+});
+
+describe('describeColor()', () => {
+  test('returns the bare base term for a close match', () => {
+    const result = describeColor('#ff0000', 'en');
+    expect(result).not.toBeNull();
+    expect(result!.name).toBe('red');
+    expect(result!.modifiers).toEqual([]);
+    expect(result!.base.level).toBe('basic');
+  });
+
+  test('adds a lightness modifier', () => {
+    const result = describeColor('#00008b', 'en')!;
+    expect(result.name).toBe('dark blue');
+    expect(result.modifiers).toEqual(['dark']);
+  });
+
+  test('uses an achromatic base with a tint for near-neutral colors', () => {
+    const result = describeColor('#708090', 'en')!;
+    expect(result.name).toBe('bluish grey');
+    expect(result.base.name).toBe('grey');
+    expect(result.tint).toBe('blue');
+    expect(result.modifiers).toEqual(['ish']);
+  });
+
+  test('tints towards the neighbouring hue', () => {
+    expect(describeColor('#008080', 'en')!.name).toBe('bluish green');
+  });
+
+  test('follows the locale word order', () => {
+    expect(describeColor('#00008b', 'fr')!.name).toBe('bleu foncé');
+  });
+
+  test('does not repeat a modifier the base term already carries', () => {
+    const result = describeColor('#00008b', 'de')!;
+    expect(result.base.name).toBe('dunkelblau');
+    expect(result.name).toBe('dunkelblau');
+  });
+
+  test('returns the base term when the locale has no grammar', () => {
+    const bare: ColorDictionary = { ...en, modifiers: undefined };
+    const result = describeColor('#00008b', bare)!;
+    expect(result.name).toBe('blue');
+    expect(result.modifiers).toEqual([]);
+  });
+
+  test('respects an explicit level', () => {
+    expect(describeColor('#ff6347', 'en', { level: 'extended' })!.base.name).toBe('tomato');
+  });
+
+  test('returns null for unknown input', () => {
+    expect(describeColor('not a color', 'en')).toBeNull();
+    expect(describeColor('#ff0000', 'xx')).toBeNull();
+  });
+});
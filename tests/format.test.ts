@@ -0,0 +1,115 @@
+import { test, expect, describe, beforeAll } from 'bun:test';
+import { Color, ColorNameFormat, removeLocale, useLocale } from '../index.ts';
+import { en } from '../src/locales/en.ts';
+import { de } from '../src/locales/de.ts';
+import { modeRgb, modeOklab, modeOklch, modeHsl, modeLrgb, useMode } from 'culori/fn';
+
+beforeAll(() => {
+  const modes = [modeRgb, modeOklab, modeOklch, modeHsl, modeLrgb];
+
+  for (const mode of modes) {
+    useMode(mode as any);
+  }
+
+  useLocale(en);
+  useLocale(de);
+});
+
+describe('ColorNameFormat', () => {
+  test('formats a color as its name', () => {
+    const fmt = new ColorNameFormat('en');
+    expect(fmt.format('#ff6347')).toBe('tomato');
+    expect(fmt.format(Color.hex('#008080')!)).toBe('teal');
+  });
+
+  test('negotiates the locale once at construction', () => {
+    const fmt = new ColorNameFormat(['xx-XX', 'de-AT']);
+    expect(fmt.resolvedOptions().locale).toBe('de');
+  });
+
+  test('throws RangeError for an unknown locale', () => {
+    expect(() => new ColorNameFormat('xx')).toThrow(RangeError);
+    expect(() => new ColorNameFormat(['xx', new Intl.Locale('yy-ZZ')])).toThrow("locale: 'xx', 'yy-ZZ'");
+  });
+
+  test('searches tiers merged into the locale after construction', () => {
+    useLocale({ locale: 'x-format', source: 'test', basic: { names: ['dark'], colors: new Float32Array([0.2, 0, 0]) } });
+    const fmt = new ColorNameFormat('x-format');
+    expect(fmt.format('#ffffff')).toBe('dark');
+
+    useLocale({ locale: 'x-format', source: 'test', tiers: { brand: { names: ['snow'], colors: new Float32Array([1, 0, 0]) } } });
+    expect(fmt.format('#ffffff')).toBe('snow');
+    expect(fmt.resolvedOptions().tiers).toEqual(['basic', 'brand']);
+    removeLocale('x-format');
+  });
+
+  test('accepts an inline dictionary', () => {
+    const fmt = new ColorNameFormat(en, { level: 'basic' });
+    expect(fmt.format('#ff0000')).toBe('red');
+  });
+
+  test('long style appends the hex code', () => {
+    const fmt = new ColorNameFormat('en', { style: 'long' });
+    expect(fmt.format('#ff6347')).toBe('tomato (#ff6347)');
+    expect(fmt.formatToParts('#ff6347')).toEqual([
+      { type: 'name', value: 'tomato' },
+      { type: 'literal', value: ' (' },
+      { type: 'code', value: '#ff6347' },
+      { type: 'literal', value: ')' },
+    ]);
+  });
+
+  test('falls back to the hex code when nothing is within threshold', () => {
+    const fmt = new ColorNameFormat('en', { level: 'basic', threshold: 0.0001 });
+    expect(fmt.format('#3a5f5f')).toBe('#3a5f5f');
+    expect(fmt.formatToParts('#3a5f5f')).toEqual([{ type: 'code', value: '#3a5f5f' }]);
+  });
+
+  test('fallback "none" returns undefined', () => {
+    const fmt = new ColorNameFormat('en', { level: 'basic', threshold: 0.0001, fallback: 'none' });
+    expect(fmt.format('#3a5f5f')).toBeUndefined();
+    expect(fmt.formatToParts('#3a5f5f')).toEqual([]);
+  });
+
+  test('returns undefined for unparseable input', () => {
+    expect(new ColorNameFormat('en').format('not a color')).toBeUndefined();
+  });
+
+  test('searches with lchWeights', () => {
+    const fmt = new ColorNameFormat('en', { lchWeights: [1, 1, 8] });
+    expect(fmt.format('#8a9ba8')).toBe('darkgray');
+    expect(new ColorNameFormat('en').format('#8a9ba8')).not.toBe('darkgray');
+    expect(fmt.resolvedOptions().lchWeights).toEqual([1, 1, 8]);
+  });
+
+  test('looks names up in the grid', () => {
+    const exact = new ColorNameFormat(en);
+    const grid = new ColorNameFormat(en, { grid: true });
+    for (const hex of ['#ff6347', '#4682b4', '#2f4f4f', '#deb887', '#123456']) {
+      expect(grid.format(hex)).toBe(exact.format(hex)!);
+    }
+    expect(grid.resolvedOptions().grid).toBe(true);
+  });
+
+  test('passes confidence through', () => {
+    expect(new ColorNameFormat('en', { confidence: true }).resolvedOptions().confidence).toBe(true);
+  });
+
+  test('resolvedOptions applies defaults', () => {
+    expect(new ColorNameFormat('en-GB').resolvedOptions()).toEqual({
+      locale: 'en',
+      level: undefined,
+      tiers: ['basic', 'extended'],
+      cascade: false,
+      threshold: undefined,
+      metric: 'oklab',
+      grammar: undefined,
+      lchWeights: undefined,
+      region: undefined,
+      confidence: false,
+      grid: false,
+      fallback: 'hex',
+      style: 'short',
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { test, expect, describe, beforeAll } from 'bun:test';
+import { nameColor, nameColors, removeLocale, useLocale } from '../index.ts';
+import { KDTree } from '../src/kdtree.ts';
+import { LookupGrid } from '../src/grid.ts';
+import { en } from '../src/locales/en.ts';
+import { modeRgb, modeOklab, modeOklch, modeHsl, modeLrgb, useMode } from 'culori/fn';
+
+beforeAll(() => {
+  const modes = [modeRgb, modeOklab, modeOklch, modeHsl, modeLrgb];
+
+  for (const mode of modes) {
+    useMode(mode as any);
+  }
+
+  useLocale(en);
+});
+
+/** Random points in the sRGB part of OkLab. */
+function randomPoints(count: number): Float32Array {
+  const points = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    points[i * 3] = Math.random();
+    points[i * 3 + 1] = Math.random() * 0.5 - 0.25;
+    points[i * 3 + 2] = Math.random() * 0.5 - 0.25;
+  }
+  return points;
+}
+
+describe('LookupGrid', () => {
+  test('answers exactly like the tree wherever it answers', () => {
+    const points = randomPoints(100);
+    const tree = new KDTree(points, 100);
+    const grid = new LookupGrid(tree, points, 16);
+    expect(grid.coverage).toBeGreaterThan(0.5);
+
+    const queries = randomPoints(2000);
+    let hits = 0;
+    for (let i = 0; i < 2000; i++) {
+      const query: [number, number, number] = [queries[i * 3]!, queries[i * 3 + 1]!, queries[i * 3 + 2]!];
+      const result = grid.lookup(query);
+      if (!result) continue;
+      hits++;
+      expect(result.distance).toBeCloseTo(tree.nearest(query).distance, 6);
+    }
+    expect(hits).toBeGreaterThan(1000);
+  });
+
+  test('misses outside the gridded box', () => {
+    const points = new Float32Array([0.5, 0, 0]);
+    const grid = new LookupGrid(new KDTree(points, 1), points, 8);
+    expect(grid.coverage).toBe(1);
+    expect(grid.lookup([0.9, 0.1, -0.1])?.index).toBe(0);
+    expect(grid.lookup([1.5, 0, 0])).toBeNull();
+    expect(grid.lookup([0.5, 0.5, 0])).toBeNull();
+  });
+});
+
+describe('grid option', () => {
+  const hexes = ['#ff6347', '#4682b4', '#2f4f4f', '#deb887', '#7fff00', '#123456', '#808080', '#fafafa'];
+
+  test('nameColor gives the same results as the exact search', () => {
+    for (const hex of hexes) {
+      const exact = nameColor(hex, 'en');
+      const grid = nameColor(hex, 'en', { grid: true });
+      expect(grid?.name).toBe(exact!.name);
+      expect(grid?.distance).toBeCloseTo(exact!.distance, 6);
+    }
+  });
+
+  test('nameColors gives the same results as the exact search', () => {
+    const bytes = new Uint8Array(hexes.flatMap((hex) => [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16))));
+    const exact = nameColors(bytes, 'en');
+    const grid = nameColors(bytes, 'en', { grid: true });
+    expect(grid?.indices).toEqual(exact!.indices);
+  });
+
+  test('is rebuilt when names are merged into a locale', () => {
+    useLocale({ locale: 'x-grid', source: 'test', basic: { names: ['dark'], colors: new Float32Array([0.2, 0, 0]) } });
+    expect(nameColor('#ffffff', 'x-grid', { grid: true })?.name).toBe('dark');
+
+    useLocale({ locale: 'x-grid', source: 'test', basic: { names: ['light'], colors: new Float32Array([0.95, 0, 0]) } });
+    expect(nameColor('#ffffff', 'x-grid', { grid: true })?.name).toBe('light');
+    removeLocale('x-grid');
+  });
+});
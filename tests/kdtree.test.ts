@@ -1,5 +1,9 @@
-import { test, expect, describe } from 'bun:test';
+import { test, expect, describe, spyOn } from 'bun:test';
 import { KDTree } from '../src/kdtree.ts';
+import { getTree } from '../src/naming.ts';
+import { en } from '../src/locales/en.ts';
+import { ja_traditional } from '../src/locales/ja-traditional.ts';
+import { zh_traditional } from '../src/locales/zh-traditional.ts';
 
 describe('KDTree', () => {
   test('finds exact match', () => {
@@ -104,4 +108,242 @@ describe('KDTree', () => {
     expect(result.index).toBe(bestIdx);
     expect(result.distance).toBeCloseTo(bestDist, 10);
   });
+
+  test('withinRadius returns every point within the radius, closest first', () => {
+    const points = new Float32Array([
+      0, 0, 0,
+      0.1, 0, 0,
+      0.2, 0, 0,
+      0.5, 0, 0,
+    ]);
+    const tree = new KDTree(points, 4);
+    const results = tree.withinRadius([0.12, 0, 0], 0.12);
+    expect(results.map((r) => r.index)).toEqual([1, 2, 0]);
+    expect(results[0]!.distance).toBeCloseTo(0.02, 5);
+    expect(tree.withinRadius([0.12, 0, 0], 0.01)).toEqual([]);
+  });
+
+  test('withinBox returns the points inside the box', () => {
+    const points = new Float32Array([
+      0, 0, 0,
+      0.5, 0.1, -0.1,
+      0.5, 0.3, 0,
+      1, 0, 0,
+    ]);
+    const tree = new KDTree(points, 4);
+    expect(tree.withinBox([0.4, 0, -0.2], [0.6, 0.2, 0.2])).toEqual([1]);
+    expect(tree.withinBox([0, -1, -1], [1, 1, 1])).toEqual([0, 1, 2, 3]);
+    expect(tree.withinBox([2, 2, 2], [3, 3, 3])).toEqual([]);
+  });
+
+  test('range queries match brute force on many points', () => {
+    const count = 1000;
+    const points = new Float32Array(count * 3);
+    for (let i = 0; i < count * 3; i++) {
+      points[i] = Math.random();
+    }
+    const tree = new KDTree(points, count);
+    const query: [number, number, number] = [0.5, 0.5, 0.5];
+    const min: [number, number, number] = [0.2, 0.4, 0.3];
+    const max: [number, number, number] = [0.6, 0.7, 0.5];
+
+    const inRadius: number[] = [];
+    const inBox: number[] = [];
+    for (let i = 0; i < count; i++) {
+      const p = [points[i * 3]!, points[i * 3 + 1]!, points[i * 3 + 2]!];
+      if (Math.hypot(p[0]! - query[0], p[1]! - query[1], p[2]! - query[2]) <= 0.2) inRadius.push(i);
+      if (p.every((v, axis) => v >= min[axis]! && v <= max[axis]!)) inBox.push(i);
+    }
+
+    expect(tree.withinRadius(query, 0.2).map((r) => r.index).sort((a, b) => a - b)).toEqual(inRadius);
+    expect(tree.withinBox(min, max)).toEqual(inBox);
+  });
+
+  test('nearestN matches brute force on many points', () => {
+    const count = 1000;
+    const points = new Float32Array(count * 3);
+    for (let i = 0; i < count * 3; i++) {
+      points[i] = Math.random();
+    }
+    const tree = new KDTree(points, count);
+
+    for (let q = 0; q < 20; q++) {
+      const query: [number, number, number] = [Math.random(), Math.random(), Math.random()];
+      const expected = Array.from({ length: count }, (_, i) =>
+        Math.hypot(query[0] - points[i * 3]!, query[1] - points[i * 3 + 1]!, query[2] - points[i * 3 + 2]!),
+      ).sort((a, b) => a - b);
+      const results = tree.nearestN(query, 10);
+      expect(results.map((r) => r.distance)).toEqual(expected.slice(0, 10).map((d) => expect.closeTo(d, 10)));
+    }
+  });
+
+  test('weighted OkLCh queries match brute force', () => {
+    const count = 500;
+    const points = new Float32Array(count * 3);
+    for (let i = 0; i < count; i++) {
+      points[i * 3] = Math.random();
+      points[i * 3 + 1] = Math.random() * 0.6 - 0.3;
+      points[i * 3 + 2] = Math.random() * 0.6 - 0.3;
+    }
+    const tree = new KDTree(points, count);
+    const weights: [number, number, number] = [2, 0.5, 6];
+    const lch = (l: number, a: number, b: number) => [l, Math.hypot(a, b), Math.atan2(b, a)] as const;
+
+    for (let q = 0; q < 20; q++) {
+      const query: [number, number, number] = [Math.random(), Math.random() * 0.2 - 0.1, Math.random() * 0.2 - 0.1];
+      const [lq, cq, hq] = lch(...query);
+      const expected = Array.from({ length: count }, (_, i) => {
+        const [l, c, h] = lch(points[i * 3]!, points[i * 3 + 1]!, points[i * 3 + 2]!);
+        const dH = 2 * Math.sqrt(c * cq) * Math.sin((h - hq) / 2);
+        return Math.sqrt(weights[0] * (l - lq) ** 2 + weights[1] * (c - cq) ** 2 + weights[2] * dH ** 2);
+      }).sort((a, b) => a - b);
+
+      expect(tree.nearest(query, weights).distance).toBeCloseTo(expected[0]!, 6);
+      expect(tree.nearestN(query, 5, weights).map((r) => r.distance)).toEqual(expected.slice(0, 5).map((d) => expect.closeTo(d, 6)));
+      expect(tree.withinRadius(query, expected[9]! + 1e-9, weights)).toHaveLength(10);
+    }
+  });
+
+  test('unit OkLCh weights give the Euclidean distance', () => {
+    const points = new Float32Array([0.5, 0.1, 0, 0.5, 0, 0.1, 0.7, -0.05, -0.05]);
+    const tree = new KDTree(points, 3);
+    const query: [number, number, number] = [0.55, 0.02, 0.03];
+    expect(tree.nearestN(query, 3, [1, 1, 1]).map((r) => r.distance))
+      .toEqual(tree.nearestN(query, 3).map((r) => expect.closeTo(r.distance, 6)));
+  });
+
+  test('handles duplicate points and empty trees', () => {
+    const points = new Float32Array([0.5, 0, 0, 0.5, 0, 0, 0.5, 0, 0, 0.2, 0, 0]);
+    const tree = new KDTree(points, 4);
+    expect(tree.nearestN([0.5, 0, 0], 3).map((r) => r.index).sort()).toEqual([0, 1, 2]);
+    expect(tree.withinRadius([0.5, 0, 0], 0)).toHaveLength(3);
+
+    const empty = new KDTree(new Float32Array(0), 0);
+    expect(empty.nearest([0, 0, 0])).toEqual({ index: -1, distance: Infinity });
+    expect(empty.nearestN([0, 0, 0], 3)).toEqual([]);
+    expect(empty.withinRadius([0, 0, 0], 1)).toEqual([]);
+  });
+
+  test('serialize and deserialize round-trip without rebuilding', () => {
+    const count = 200;
+    const points = new Float32Array(count * 3);
+    for (let i = 0; i < count * 3; i++) {
+      points[i] = Math.random();
+    }
+    const tree = new KDTree(points, count);
+    const bytes = tree.serialize();
+    expect(bytes.byteLength).toBe(8 + count * 17);
+
+    const restored = KDTree.deserialize(bytes)!;
+    expect(restored.size).toBe(count);
+    for (let q = 0; q < 10; q++) {
+      const query: [number, number, number] = [Math.random(), Math.random(), Math.random()];
+      expect(restored.nearestN(query, 5)).toEqual(tree.nearestN(query, 5));
+      expect(restored.withinRadius(query, 0.2)).toEqual(tree.withinRadius(query, 0.2));
+    }
+
+    // Byte views at an offset work too
+    const padded = new Uint8Array(bytes.byteLength + 4);
+    padded.set(new Uint8Array(bytes), 4);
+    expect(KDTree.deserialize(padded.subarray(4))?.nearest([0.5, 0.5, 0.5])).toEqual(tree.nearest([0.5, 0.5, 0.5]));
+  });
+
+  test('deserialize rejects data that is not a serialized tree', () => {
+    const bytes = new Uint8Array(new KDTree(new Float32Array([0, 0, 0, 1, 1, 1]), 2).serialize());
+    expect(KDTree.deserialize(new ArrayBuffer(0))).toBeNull();
+    expect(KDTree.deserialize(bytes.subarray(0, bytes.length - 1))).toBeNull();
+
+    const corrupt = bytes.slice();
+    corrupt[0] = 0;
+    expect(KDTree.deserialize(corrupt)).toBeNull();
+
+    const badAxis = bytes.slice();
+    badAxis[badAxis.length - 1] = 7;
+    expect(KDTree.deserialize(badAxis)).toBeNull();
+  });
+
+  test('insert and remove keep queries in line with brute force', () => {
+    const count = 300;
+    const points = new Float32Array(count * 3);
+    for (let i = 0; i < count * 3; i++) {
+      points[i] = Math.random();
+    }
+    const live = new Map<number, [number, number, number]>();
+    const tree = new KDTree(points.subarray(0, 100 * 3), 100);
+    for (let i = 0; i < 100; i++) live.set(i, [points[i * 3]!, points[i * 3 + 1]!, points[i * 3 + 2]!]);
+
+    // Interleave inserts with removals so both pending and rebuilt points are removed
+    for (let i = 100; i < count; i++) {
+      const point: [number, number, number] = [points[i * 3]!, points[i * 3 + 1]!, points[i * 3 + 2]!];
+      tree.insert(point, i);
+      live.set(i, point);
+      if (i % 3 === 0) {
+        expect(tree.remove(i - 50)).toBe(true);
+        live.delete(i - 50);
+      }
+    }
+    expect(tree.remove(-1)).toBe(false);
+    expect(tree.remove(100)).toBe(false);
+    expect(tree.size).toBe(live.size);
+
+    for (let q = 0; q < 20; q++) {
+      const query: [number, number, number] = [Math.random(), Math.random(), Math.random()];
+      const expected = [...live].map(([index, p]) => ({
+        index,
+        distance: Math.hypot(query[0] - p[0], query[1] - p[1], query[2] - p[2]),
+      })).sort((a, b) => a.distance - b.distance);
+
+      expect(tree.nearest(query).index).toBe(expected[0]!.index);
+      expect(tree.nearestN(query, 5).map((r) => r.index)).toEqual(expected.slice(0, 5).map((r) => r.index));
+      expect(tree.withinRadius(query, 0.2).map((r) => r.index))
+        .toEqual(expected.filter((r) => r.distance <= 0.2).map((r) => r.index));
+    }
+    expect(tree.withinBox([0, 0, 0], [1, 1, 1])).toEqual([...live.keys()].sort((a, b) => a - b));
+  });
+
+  test('inserted points are found before and after rebalancing', () => {
+    const tree = new KDTree(new Float32Array([0, 0, 0, 1, 1, 1]), 2);
+    tree.insert([0.5, 0.5, 0.5], 7);
+    expect(tree.size).toBe(3);
+    expect(tree.nearest([0.45, 0.5, 0.5]).index).toBe(7);
+    expect(tree.withinBox([0.4, 0.4, 0.4], [0.6, 0.6, 0.6])).toEqual([7]);
+
+    tree.rebalance();
+    expect(tree.nearest([0.45, 0.5, 0.5]).index).toBe(7);
+    expect(tree.remove(7)).toBe(true);
+    expect(tree.nearest([0.45, 0.5, 0.5]).index).toBe(0);
+    expect(tree.nearestN([0.5, 0.5, 0.5], 5)).toHaveLength(2);
+  });
+
+  test('serialize folds in pending edits', () => {
+    const tree = new KDTree(new Float32Array([0, 0, 0, 1, 1, 1]), 2);
+    tree.insert([0.5, 0.5, 0.5], 2);
+    tree.remove(0);
+
+    const restored = KDTree.deserialize(tree.serialize())!;
+    expect(restored.size).toBe(2);
+    expect(restored.nearestN([0, 0, 0], 2).map((r) => r.index)).toEqual([2, 1]);
+  });
+});
+
+describe('prebuilt locale trees', () => {
+  const shipped = [en.extended!, ja_traditional.traditional!, zh_traditional.traditional!];
+
+  test('match the centroids they index', () => {
+    for (const set of shipped) {
+      const built = new Uint8Array(new KDTree(set.colors, set.names.length).serialize());
+      expect(new Uint8Array(set.tree!)).toEqual(built);
+    }
+  });
+
+  test('are loaded instead of building the tree', () => {
+    const deserialize = spyOn(KDTree, 'deserialize');
+    try {
+      const tree = getTree(en, 'extended', new WeakMap());
+      expect(deserialize).toHaveBeenCalledTimes(1);
+      expect(tree).toBe(deserialize.mock.results[0]!.value as KDTree);
+    } finally {
+      deserialize.mockRestore();
+    }
+  });
 });
@@ -0,0 +1,98 @@
+import { test, expect, describe, beforeAll } from 'bun:test';
+import {
+  createColorNameRegistry,
+  listColorNames,
+  nearestColors,
+  translationMatrices,
+  translationMatrix,
+  translationMatrixToCSV,
+  useLocale,
+} from '../index.ts';
+import type { ColorDictionary } from '../index.ts';
+import { en } from '../src/locales/en.ts';
+import { de } from '../src/locales/de.ts';
+import { modeRgb, modeOklab, modeOklch, modeHsl, modeLrgb, useMode } from 'culori/fn';
+
+beforeAll(() => {
+  const modes = [modeRgb, modeOklab, modeOklch, modeHsl, modeLrgb];
+
+  for (const mode of modes) {
+    useMode(mode as any);
+  }
+
+  useLocale(en);
+});
+
+const source: ColorDictionary = {
+  locale: 'x-a',
+  source: 'test',
+  basic: { names: ['red', 'blue'], colors: new Float32Array([0.63, 0.22, 0.13, 0.45, -0.03, -0.31]) },
+};
+const target: ColorDictionary = {
+  locale: 'x-b',
+  source: 'test',
+  basic: { names: ['rouge', 'bleu, foncé', 'vert'], colors: new Float32Array([0.6, 0.2, 0.1, 0.4, -0.03, -0.3, 0.5, -0.14, 0.1]) },
+};
+
+describe('translationMatrix', () => {
+  test('maps every source name to its nearest target names', () => {
+    const matrix = translationMatrix(source, target, { count: 2 })!;
+    expect(matrix.from).toBe('x-a');
+    expect(matrix.to).toBe('x-b');
+    expect(matrix.rows).toHaveLength(4);
+    expect(matrix.rows[0]).toMatchObject({ source: 'red', sourceLevel: 'basic', rank: 1, target: 'rouge', targetLevel: 'basic' });
+    expect(matrix.rows[1]).toMatchObject({ source: 'red', rank: 2 });
+    expect(matrix.rows[2]).toMatchObject({ source: 'blue', rank: 1, target: 'bleu, foncé' });
+  });
+
+  test('agrees with listColorNames and nearestColors', () => {
+    const matrix = translationMatrix('en', de, { level: 'basic' })!;
+    const names = listColorNames('en');
+    expect(matrix.rows).toHaveLength(names.length * 3);
+
+    const first = nearestColors(names[0]!.color, de, 3, { level: 'basic' });
+    expect(matrix.rows.slice(0, 3).map((r) => r.target)).toEqual(first.map((n) => n.name));
+    expect(matrix.rows[0]!.distance).toBe(first[0]!.distance);
+  });
+
+  test('round-trips through JSON', () => {
+    const matrix = translationMatrix(source, target)!;
+    expect(JSON.parse(JSON.stringify(matrix))).toEqual(matrix);
+  });
+
+  test('returns null for unknown locales', () => {
+    expect(translationMatrix('xx', target)).toBeNull();
+    expect(translationMatrix(source, 'xx')).toBeNull();
+  });
+});
+
+describe('translationMatrices', () => {
+  test('covers every ordered pair of distinct locales', () => {
+    const matrices = translationMatrices([source, target, 'xx']);
+    expect(matrices.map((m) => `${m.from}>${m.to}`)).toEqual(['x-a>x-b', 'x-b>x-a']);
+  });
+
+  test('defaults to every registered locale', () => {
+    const registry = createColorNameRegistry();
+    registry.useLocale(source);
+    registry.useLocale(target);
+    expect(registry.listLocales()).toEqual(['x-a', 'x-b']);
+    expect(registry.translationMatrices()).toHaveLength(2);
+  });
+});
+
+describe('translationMatrixToCSV', () => {
+  test('writes a header and one line per row, quoting where needed', () => {
+    const csv = translationMatrixToCSV(translationMatrix(source, target, { count: 1 })!);
+    const lines = csv.trimEnd().split('\r\n');
+    expect(lines[0]).toBe('from,to,source,source_level,rank,target,target_level,distance');
+    expect(lines).toHaveLength(3);
+    expect(lines[1]).toStartWith('x-a,x-b,red,basic,1,rouge,basic,');
+    expect(lines[2]).toStartWith('x-a,x-b,blue,basic,1,"bleu, foncé",basic,');
+  });
+
+  test('concatenates several matrices under one header', () => {
+    const csv = translationMatrixToCSV(translationMatrices([source, target], { count: 1 }));
+    expect(csv.trimEnd().split('\r\n')).toHaveLength(1 + 2 + 3);
+  });
+});
@@ -0,0 +1,91 @@
+import { test, expect, describe, beforeAll } from 'bun:test';
+import { Color } from '../index.ts';
+import { oklabToLab65, resolveMetric } from '../src/metrics.ts';
+import {
+  modeRgb,
+  modeOklab,
+  modeLrgb,
+  modeXyz65,
+  modeLab65,
+  useMode,
+  converter,
+  differenceCiede2000,
+  differenceCie94,
+  differenceCmc,
+} from 'culori/fn';
+
+beforeAll(() => {
+  for (const mode of [modeRgb, modeOklab, modeLrgb, modeXyz65, modeLab65]) {
+    useMode(mode as any);
+  }
+});
+
+function oklabTuple(css: string): [number, number, number] {
+  const c = Color.parse(css)!.toOklab()!;
+  return [c.get('l', 0), c.get('a', 0), c.get('b', 0)];
+}
+
+const pairs: [string, string][] = [
+  ['#ff0000', '#ffa500'],
+  ['#123456', '#1a3a50'],
+  ['#808080', '#7f8a80'],
+  ['#00ff00', '#0000ff'],
+  ['#ffffff', '#fafaf0'],
+];
+
+describe('oklabToLab65', () => {
+  test('matches culori lab65 conversion', () => {
+    const toLab65 = converter('lab65');
+    for (const [css] of pairs) {
+      const expected = toLab65(css)!;
+      const [l, a, b] = oklabToLab65(oklabTuple(css));
+      expect(l).toBeCloseTo(expected.l as number, 6);
+      expect(a).toBeCloseTo(expected.a as number, 6);
+      expect(b).toBeCloseTo(expected.b as number, 6);
+    }
+  });
+});
+
+describe('resolveMetric', () => {
+  test('returns null for the default OkLab metric', () => {
+    expect(resolveMetric(undefined)).toBeNull();
+    expect(resolveMetric('oklab')).toBeNull();
+  });
+
+  test('ciede2000 matches culori', () => {
+    const metric = resolveMetric('ciede2000')!;
+    const reference = differenceCiede2000();
+    for (const [a, b] of pairs) {
+      expect(metric(oklabTuple(a), oklabTuple(b))).toBeCloseTo(reference(a as any, b as any), 6);
+    }
+  });
+
+  test('cie94 matches culori', () => {
+    const metric = resolveMetric('cie94')!;
+    const reference = differenceCie94();
+    for (const [a, b] of pairs) {
+      expect(metric(oklabTuple(a), oklabTuple(b))).toBeCloseTo(reference(a as any, b as any), 6);
+    }
+  });
+
+  test('cmc defaults to 2:1 and accepts custom weights', () => {
+    const metric = resolveMetric('cmc')!;
+    const custom = resolveMetric({ type: 'cmc', l: 1, c: 1 })!;
+    for (const [a, b] of pairs) {
+      expect(metric(oklabTuple(a), oklabTuple(b))).toBeCloseTo(differenceCmc(2, 1)(a as any, b as any), 6);
+      expect(custom(oklabTuple(a), oklabTuple(b))).toBeCloseTo(differenceCmc(1, 1)(a as any, b as any), 6);
+    }
+  });
+
+  test('weighted-oklab with unit weights equals Euclidean OkLab', () => {
+    const metric = resolveMetric({ type: 'weighted-oklab', weights: [1, 1, 1] })!;
+    const a = Color.parse('#ff0000')!;
+    const b = Color.parse('#0000ff')!;
+    expect(metric(oklabTuple('#ff0000'), oklabTuple('#0000ff'))).toBeCloseTo(a.deltaE(b), 10);
+  });
+
+  test('weighted-oklab ignores zero-weighted axes', () => {
+    const metric = resolveMetric({ type: 'weighted-oklab', weights: [0, 1, 1] })!;
+    expect(metric([0.2, 0.1, 0.1], [0.9, 0.1, 0.1])).toBe(0);
+  });
+});
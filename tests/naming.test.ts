@@ -1,6 +1,24 @@
 import { test, expect, describe, beforeAll } from 'bun:test';
-import { Color, useLocale, nameColor, nearestColors, lookupColor, listColorNames } from '../index.ts';
+import {
+  Color,
+  useLocale,
+  nameColor,
+  nameColorMulti,
+  nearestColors,
+  lookupColor,
+  listColorNames,
+  negotiateLocale,
+  setDefaultLocale,
+  searchColorNames,
+  suggestColorNames,
+  normalizeColorName,
+} from '../index.ts';
+import type { ColorDictionary } from '../index.ts';
+import { KDTree } from '../src/kdtree.ts';
 import { en } from '../src/locales/en.ts';
+import { ru } from '../src/locales/ru.ts';
+import { de } from '../src/locales/de.ts';
+import { fr } from '../src/locales/fr.ts';
 import { modeRgb, modeOklab, modeOklch, modeHsl, modeLrgb, useMode } from 'culori/fn';
 
 beforeAll(() => {
@@ -69,6 +87,115 @@ describe('Color naming', () => {
     });
   });
 
+  describe('nameColorMulti()', () => {
+    test('names a color in every locale, keyed as given', () => {
+      const results = nameColorMulti('#ff0000', ['en', ru, new Intl.Locale('en-GB')], { level: 'basic' });
+      expect(Object.keys(results!)).toEqual(['en', 'ru', 'en-GB']);
+      expect(results!.en?.name).toBe('red');
+      expect(results!['en-GB']?.name).toBe('red');
+      expect(results!.ru).toEqual(nameColor('#ff0000', ru, { level: 'basic' }));
+    });
+
+    test('returns null for locales that are not found', () => {
+      expect(nameColorMulti('#ff0000', ['en', 'xx'])).toMatchObject({ xx: null });
+    });
+
+    test('returns null for unparseable colors', () => {
+      expect(nameColorMulti('not-a-color', ['en'])).toBeNull();
+    });
+  });
+
+  describe('metric option', () => {
+    test('reports distances in the units of the chosen metric', () => {
+      const c = Color.hex('#3a5f5f')!;
+      const ok = nameColor(c, 'en')!;
+      const de2000 = nameColor(c, 'en', { metric: 'ciede2000' })!;
+      expect(ok.distance).toBeLessThan(1);
+      expect(de2000.distance).toBeGreaterThan(1);
+      expect(de2000.distance).toBeCloseTo(de2000.color.deltaE(c, 'ciede2000'), 4);
+    });
+
+    test('ranks exactly under the chosen metric', () => {
+      const c = Color.hex('#7a4a8a')!;
+      const result = nameColor(c, 'en', { metric: 'ciede2000' })!;
+      for (const entry of listColorNames('en')) {
+        expect(entry.color.deltaE(c, 'ciede2000')).toBeGreaterThanOrEqual(result.distance - 1e-9);
+      }
+    });
+
+    test('applies threshold in metric units', () => {
+      const c = Color.hex('#3a5f5f')!;
+      expect(nameColor(c, 'en', { metric: 'ciede2000', threshold: 1 })).toBeNull();
+      expect(nameColor(c, 'en', { metric: 'ciede2000', threshold: 10 })).not.toBeNull();
+    });
+
+    test('nearestColors sorts by the chosen metric', () => {
+      const results = nearestColors('#ff8800', 'en', 5, { metric: 'cie94' });
+      expect(results.length).toBe(5);
+      for (let i = 1; i < results.length; i++) {
+        expect(results[i]!.distance).toBeGreaterThanOrEqual(results[i - 1]!.distance);
+      }
+    });
+  });
+
+  describe('lchWeights option', () => {
+    // A muted teal and a saturated blue; a greyish blue query is closer to the teal in OkLab
+    const dict: ColorDictionary = {
+      locale: 'x-lch',
+      source: 'test',
+      basic: {
+        names: ['teal', 'blue'],
+        colors: new Float32Array([0.6, -0.0376, -0.0137, 0.6, -0.0208, -0.1182]),
+      },
+    };
+    const query = Color.create('oklch', { l: 0.6, c: 0.03, h: 255 });
+
+    test('a high hue weight keeps names in the query\'s hue family', () => {
+      expect(nameColor(query, dict)?.name).toBe('teal');
+      expect(nameColor(query, dict, { lchWeights: [1, 1, 16] })?.name).toBe('blue');
+      expect(nearestColors(query, dict, 2, { lchWeights: [1, 1, 16] }).map((n) => n.name)).toEqual(['blue', 'teal']);
+    });
+
+    test('reports distances and applies threshold in weighted units', () => {
+      expect(nameColor(query, dict, { lchWeights: [1, 1, 1] })?.distance).toBeCloseTo(nameColor(query, dict)!.distance, 5);
+      const weighted = nameColor(query, dict, { lchWeights: [1, 1, 16] })!;
+      expect(weighted.distance).toBeCloseTo(0.092, 2);
+      expect(nameColor(query, dict, { lchWeights: [1, 1, 16], threshold: 0.05 })).toBeNull();
+      expect(nearestColors(query, dict, Infinity, { lchWeights: [1, 1, 16], threshold: 0.1 })).toHaveLength(1);
+    });
+
+    test('takes precedence over metric', () => {
+      const result = nameColor(query, dict, { lchWeights: [1, 1, 16], metric: 'ciede2000' });
+      expect(result?.name).toBe('blue');
+      expect(result?.distance).toBeLessThan(1);
+    });
+  });
+
+  describe('prebuilt trees', () => {
+    const colors = new Float32Array([0.2, 0, 0, 0.5, 0, 0, 0.8, 0, 0]);
+    const dict = (tree: Uint8Array): ColorDictionary => ({
+      locale: 'x-prebuilt',
+      source: 'test',
+      basic: { names: ['dark', 'mid', 'light'], colors, tree },
+    });
+    const query = Color.create('oklab', { l: 0.75, a: 0, b: 0 });
+
+    test('are used instead of building a tree', () => {
+      const tree = new Uint8Array(new KDTree(colors, 3).serialize());
+      expect(nameColor(query, dict(tree))?.name).toBe('light');
+
+      // A tree serialized with the names in a different order proves the prebuilt index is used
+      const swapped = new Uint8Array(new KDTree(new Float32Array([0.8, 0, 0, 0.5, 0, 0, 0.2, 0, 0]), 3).serialize());
+      expect(nameColor(query, dict(swapped))?.name).toBe('dark');
+    });
+
+    test('are ignored if they do not match the name set', () => {
+      const tooSmall = new Uint8Array(new KDTree(colors, 2).serialize());
+      expect(nameColor(query, dict(tooSmall))?.name).toBe('light');
+      expect(nameColor(query, dict(new Uint8Array([1, 2, 3])))?.name).toBe('light');
+    });
+  });
+
   describe('nearestColors()', () => {
     test('returns multiple results sorted by distance', () => {
       const c = Color.hex('#ff4400')!;
@@ -84,6 +211,14 @@ describe('Color naming', () => {
       const results = nearestColors(c, 'xx');
       expect(results).toEqual([]);
     });
+
+    test('returns every name within the threshold when count is Infinity', () => {
+      const results = nearestColors('#00ffff', 'en', Infinity, { threshold: 0.05 });
+      expect(results.map((r) => r.name).sort()).toEqual(['aqua', 'cyan']);
+
+      const all = nearestColors('#00ffff', 'en', 500).filter((r) => r.distance <= 0.1);
+      expect(nearestColors('#00ffff', 'en', Infinity, { threshold: 0.1 })).toHaveLength(all.length);
+    });
   });
 
   describe('lookupColor()', () => {
@@ -126,4 +261,237 @@ describe('Color naming', () => {
       expect(listColorNames('xx')).toEqual([]);
     });
   });
+
+  describe('locale negotiation', () => {
+    test('falls back from a region subtag to the language', () => {
+      expect(nameColor('#ff0000', 'en-GB', { level: 'basic' })?.name).toBe('red');
+      expect(lookupColor('coral', 'en-Latn-US')).toBeDefined();
+    });
+
+    test('accepts Intl.Locale objects and tag lists', () => {
+      expect(nameColor('#ff0000', new Intl.Locale('en-US'), { level: 'basic' })?.name).toBe('red');
+      expect(nameColor('#ff0000', ['xx-YY', 'en-AU'], { level: 'basic' })?.name).toBe('red');
+    });
+
+    test('matches tags case-insensitively', () => {
+      expect(listColorNames('EN-us').length).toBe(11 + 130);
+    });
+
+    test('negotiateLocale walks each requested tag before the next', () => {
+      expect(negotiateLocale(['de-AT', 'en-US'], ['en', 'de'])).toBe('de');
+      expect(negotiateLocale(['fr-CA', 'en-US'], ['en', 'de'])).toBe('en');
+      expect(negotiateLocale('zh-Hant-TW', ['zh', 'zh-traditional'])).toBe('zh');
+      expect(negotiateLocale('de-u-co-phonebk', ['de'])).toBe('de');
+      expect(negotiateLocale(['fr'], ['en'])).toBeUndefined();
+    });
+
+    test('negotiateLocale keeps non-BCP 47 keys matchable', () => {
+      expect(negotiateLocale('ja-traditional', ['ja', 'ja-traditional'])).toBe('ja-traditional');
+    });
+
+    test('uses the configured default as the last resort', () => {
+      setDefaultLocale('en');
+      try {
+        expect(negotiateLocale(['fr'], ['en', 'de'])).toBe('en');
+        expect(nameColor('#ff0000', 'xx', { level: 'basic' })?.name).toBe('red');
+      } finally {
+        setDefaultLocale(undefined);
+      }
+      expect(nameColor('#ff0000', 'xx')).toBeNull();
+    });
+  });
+
+  describe('grammatical forms', () => {
+    test('returns the lemma without a grammar option', () => {
+      const result = nameColor('#ff0000', ru, { level: 'basic' });
+      expect(result?.name).toBe('красный');
+      expect(result?.lemma).toBeUndefined();
+      expect(result?.forms?.length).toBe(24);
+    });
+
+    test('inflects for gender, number and case', () => {
+      expect(nameColor('#ff0000', ru, { level: 'basic', grammar: { gender: 'feminine', case: 'genitive' } })?.name).toBe('красной');
+      expect(nameColor('#0000ff', ru, { level: 'basic', grammar: { number: 'plural', case: 'instrumental' } })?.name).toBe('синими');
+      expect(nameColor('#0000ff', de, { level: 'basic', grammar: { gender: 'neuter', case: 'dative' } })?.name).toBe('dunkelblauem');
+      expect(nameColor('#0000ff', fr, { level: 'basic', grammar: { gender: 'feminine', number: 'plural' } })?.name).toBe('bleues');
+    });
+
+    test('defaults to the singular nominative', () => {
+      expect(nameColor('#ff0000', ru, { level: 'basic', grammar: { gender: 'neuter' } })?.name).toBe('красное');
+    });
+
+    test('keeps the lemma alongside the inflected name', () => {
+      const result = nameColor('#ff0000', ru, { level: 'basic', grammar: { gender: 'feminine' } });
+      expect(result?.name).toBe('красная');
+      expect(result?.lemma).toBe('красный');
+    });
+
+    test('falls back to the lemma when no form matches', () => {
+      // Gender-invariable in French, and French has no neuter
+      expect(nameColor('#ff0000', fr, { level: 'basic', grammar: { gender: 'feminine' } })?.name).toBe('rouge');
+      expect(nameColor('#0000ff', fr, { level: 'basic', grammar: { gender: 'neuter' } })?.name).toBe('bleu');
+      // No inflection tables at all
+      expect(nameColor('#ff0000', 'en', { level: 'basic', grammar: { number: 'plural' } })?.name).toBe('red');
+    });
+
+    test('applies to nearestColors', () => {
+      const names = nearestColors('#ff0000', ru, 3, { level: 'basic', grammar: { number: 'plural' } });
+      expect(names[0]?.name).toBe('красные');
+    });
+  });
+
+  describe('normalized and fuzzy lookup', () => {
+    test('normalizeColorName folds case, width, separators and spelling variants', () => {
+      expect(normalizeColorName('Dark Slate Grey')).toBe('darkslategray');
+      expect(normalizeColorName('ｄａｒｋ＿ｓｌａｔｅ')).toBe('darkslate');
+      expect(normalizeColorName('ｱｵ')).toBe('アオ');
+      expect(normalizeColorName('İSTANBUL', 'tr')).toBe('istanbul');
+    });
+
+    test('normalizeColorName folds diacritics and umlaut transliterations', () => {
+      expect(normalizeColorName('grün', 'de')).toBe(normalizeColorName('gruen', 'de'));
+      expect(normalizeColorName('türkis', 'de')).toBe(normalizeColorName('turkis', 'de'));
+      expect(normalizeColorName('weiß', 'de')).toBe(normalizeColorName('weiss', 'de'));
+      expect(normalizeColorName('gruen', 'de-CH')).toBe('grun');
+    });
+
+    test('normalizeColorName folds umlaut transliterations only for German', () => {
+      expect(normalizeColorName('blue', 'en')).toBe('blue');
+      expect(normalizeColorName('blue')).toBe('blue');
+      expect(lookupColor('blu', 'en')).toBeUndefined();
+      expect(lookupColor('blue', 'en')).toBeDefined();
+    });
+
+    test('lookupColor matches normalized spellings', () => {
+      const expected = lookupColor('darkslategray', 'en')?.toHex();
+      expect(lookupColor('Dark Slate Grey', 'en')?.toHex()).toBe(expected);
+      expect(lookupColor('dark-slate-gray', 'en')?.toHex()).toBe(expected);
+      expect(lookupColor('ＤＡＲＫＳＬＡＴＥＧＲＡＹ', 'en')?.toHex()).toBe(expected);
+      expect(lookupColor('gruen', de)?.toHex()).toBe(lookupColor('grün', de)?.toHex());
+    });
+
+    test('lookupColor does not guess misspellings', () => {
+      expect(lookupColor('turquise', 'en')).toBeUndefined();
+    });
+
+    test('searchColorNames ranks candidates by edit distance', () => {
+      const [first] = searchColorNames('turquise', 'en');
+      expect(first?.name).toBe('turquoise');
+      expect(first?.edits).toBe(1);
+      expect(first?.score).toBeCloseTo(1 - 1 / 9);
+
+      const exact = searchColorNames('Dark Slate Grey', 'en')[0];
+      expect(exact).toMatchObject({ name: 'darkslategray', edits: 0, score: 1 });
+    });
+
+    test('searchColorNames honours maxEdits, limit and level', () => {
+      expect(searchColorNames('turqse', 'en', { maxEdits: 1 })).toEqual([]);
+      expect(searchColorNames('gray', 'en', { maxEdits: 3, limit: 2 }).length).toBe(2);
+      expect(searchColorNames('tomatto', 'en', { level: 'basic' })).toEqual([]);
+      expect(searchColorNames('', 'en')).toEqual([]);
+    });
+  });
+
+  describe('name index', () => {
+    test('suggestColorNames completes a prefix, shortest first', () => {
+      const names = suggestColorNames('dark', 'en').map((m) => m.name);
+      expect(names.length).toBe(10);
+      expect(names.every((n) => n.startsWith('dark'))).toBe(true);
+      expect(names.slice(0, 2)).toEqual(['darkred', 'darkblue']);
+      expect(suggestColorNames('dark', 'en', { limit: 3 }).map((m) => m.name)).toEqual(['darkred', 'darkblue', 'darkcyan']);
+    });
+
+    test('suggestColorNames normalizes the prefix', () => {
+      expect(suggestColorNames('Dark Gr', 'en').map((m) => m.name)).toEqual(['darkgray', 'darkgreen']);
+    });
+
+    test('suggestColorNames reports how much of the name is typed', () => {
+      const [match] = suggestColorNames('tomat', 'en');
+      expect(match).toMatchObject({ name: 'tomato', edits: 1 });
+      expect(match?.score).toBeCloseTo(5 / 6);
+    });
+
+    test('suggestColorNames honours limit and level', () => {
+      expect(suggestColorNames('dark', 'en', { limit: 3 }).length).toBe(3);
+      expect(suggestColorNames('dark', 'en', { level: 'basic' })).toEqual([]);
+      expect(suggestColorNames('', 'en')).toEqual([]);
+      expect(suggestColorNames('zzz', 'en')).toEqual([]);
+    });
+
+    test('useLocale invalidates the index when tiers are merged in', () => {
+      const key = 'x-index-test';
+      useLocale({ locale: key, source: 'test', basic: { names: ['red'], colors: new Float32Array([0.63, 0.22, 0.13]) } });
+      expect(lookupColor('red', key)).toBeDefined();
+      expect(lookupColor('crimson', key)).toBeUndefined();
+
+      useLocale({ locale: key, source: 'test', extended: { names: ['crimson'], colors: new Float32Array([0.56, 0.21, 0.08]) } });
+      expect(lookupColor('crimson', key)).toBeDefined();
+      expect(suggestColorNames('cr', key).map((m) => m.name)).toEqual(['crimson']);
+    });
+  });
+
+  describe('custom tiers', () => {
+    // OkLab centroids: red, a slightly different red, blue
+    const palette = {
+      locale: 'x-tiers',
+      source: 'survey',
+      basic: { names: ['red', 'blue'], colors: new Float32Array([0.628, 0.225, 0.126, 0.452, -0.032, -0.312]) },
+      tiers: {
+        brand: { names: ['acme red'], colors: new Float32Array([0.6, 0.2, 0.1]) },
+        paint: { names: ['cadmium red'], colors: new Float32Array([0.627, 0.224, 0.125]) },
+      },
+    };
+
+    test('searches custom tiers after the built-in ones by default', () => {
+      expect(listColorNames(palette).map((n) => [n.name, n.level])).toEqual([
+        ['red', 'basic'],
+        ['blue', 'basic'],
+        ['acme red', 'brand'],
+        ['cadmium red', 'paint'],
+      ]);
+      expect(nameColor('#ff0000', palette)?.name).toBe('red');
+    });
+
+    test('level cuts off at a tier in precedence order', () => {
+      expect(nameColor('#ff0000', palette, { level: 'brand' })?.name).toBe('red');
+      expect(nearestColors('#ff0000', palette, 5, { level: 'brand' }).map((n) => n.name))
+        .toEqual(['red', 'acme red', 'blue']);
+      expect(nameColor('#ff0000', { ...palette, tierOrder: ['paint'] }, { level: 'paint' })?.name)
+        .toBe('cadmium red');
+    });
+
+    test('accepts an explicit tier list and include/exclude filters', () => {
+      expect(nameColor('#ff0000', palette, { tiers: ['brand'] })?.name).toBe('acme red');
+      expect(nameColor('#ff0000', palette, { tiers: ['missing'] })).toBeNull();
+      expect(nameColor('#ff0000', palette, { include: ['brand', 'paint'] })?.level).toBe('paint');
+      expect(nameColor('#ff0000', palette, { exclude: ['basic', 'paint'] })?.name).toBe('acme red');
+    });
+
+    test('searches a tier listed twice only once', () => {
+      expect(nearestColors('#ff0000', palette, 5, { tiers: ['brand', 'brand'] }).map((n) => n.name))
+        .toEqual(['acme red']);
+    });
+
+    test('cascade prefers the first tier with a match', () => {
+      const options = { tiers: ['brand', 'basic'], cascade: true };
+      expect(nameColor('#ff0000', palette, options)?.name).toBe('acme red');
+      expect(nameColor('#0000ff', palette, { ...options, threshold: 0.1 })?.name).toBe('blue');
+      expect(nearestColors('#ff0000', palette, 5, options).map((n) => n.name)).toEqual(['acme red']);
+    });
+
+    test('lookup, suggestions and merging cover custom tiers', () => {
+      expect(lookupColor('Cadmium Red', palette)).toBeDefined();
+      expect(suggestColorNames('acme', palette)[0]?.level).toBe('brand');
+
+      useLocale({ ...palette, locale: 'x-tiers-merge' });
+      useLocale({
+        locale: 'x-tiers-merge',
+        source: 'acme',
+        tiers: { brand: { names: ['acme blue'], colors: new Float32Array([0.45, -0.03, -0.3]) } },
+      });
+      const brand = listColorNames('x-tiers-merge').filter((n) => n.level === 'brand');
+      expect(brand.map((n) => [n.name, n.source])).toEqual([['acme red', 'survey'], ['acme blue', 'acme']]);
+      expect(palette.tiers.brand.names).toEqual(['acme red']);
+    });
+  });
 });
@@ -0,0 +1,82 @@
+import { test, expect, describe, beforeAll } from 'bun:test';
+import { colorNameRegions, createColorNameRegistry, lookupColor, nameColor, useLocale } from '../index.ts';
+import type { ColorDictionary } from '../index.ts';
+import { en } from '../src/locales/en.ts';
+import { modeRgb, modeOklab, modeOklch, modeHsl, modeLrgb, useMode } from 'culori/fn';
+
+beforeAll(() => {
+  const modes = [modeRgb, modeOklab, modeOklch, modeHsl, modeLrgb];
+
+  for (const mode of modes) {
+    useMode(mode as any);
+  }
+
+  useLocale(en);
+});
+
+/** Two names splitting the gamut by lightness, and one no sRGB color reaches. */
+const lightness: ColorDictionary = {
+  locale: 'x-regions',
+  source: 'test',
+  basic: { names: ['dark', 'light', 'beyond'], colors: new Float32Array([0.3, 0, 0, 0.8, 0, 0, 2, 0, 0]) },
+};
+
+describe('colorNameRegions', () => {
+  test('splits the sampled gamut between the names', () => {
+    const regions = colorNameRegions(lightness, { resolution: 16 })!;
+    expect(regions.map((r) => r.name)).toEqual(['dark', 'light', 'beyond']);
+    expect(regions.reduce((sum, r) => sum + r.share, 0)).toBeCloseTo(1);
+    expect(regions[0]!.share).toBeGreaterThan(0.1);
+    expect(regions[1]!.share).toBeGreaterThan(0.1);
+    expect(regions[0]!.color.toOklab()?.get('l')).toBeCloseTo(0.3);
+  });
+
+  test('takes centroids from the searched tiers', () => {
+    const regions = colorNameRegions('en', { tiers: ['extended', 'basic', 'basic'], resolution: 4 })!;
+    expect(regions.map((r) => r.name)).toEqual([...en.extended!.names, ...en.basic!.names]);
+    const red = regions.find((r) => r.level === 'basic' && r.name === 'red')!;
+    expect(red.color.toHex()).toBe(lookupColor('red', 'en')!.toHex());
+  });
+
+  test('lists names no sRGB color gets with a share of 0', () => {
+    const beyond = colorNameRegions(lightness, { resolution: 16 })![2]!;
+    expect(beyond.share).toBe(0);
+    expect(beyond.boundary).toEqual([]);
+    expect(beyond.neighbours).toEqual([]);
+  });
+
+  test('reports neighbours and boundary colors', () => {
+    const [dark, light] = colorNameRegions(lightness, { resolution: 16, boundaryColors: 4 })!;
+    expect(dark!.neighbours).toEqual([{ name: 'light', level: 'basic', contact: 1 }]);
+    expect(light!.neighbours.map((n) => n.name)).toEqual(['dark']);
+
+    expect(dark!.boundary).toHaveLength(4);
+    for (const color of dark!.boundary) {
+      expect(nameColor(color, lightness)?.name).toBe('dark');
+      expect(color.toOklab()!.get('l')!).toBeGreaterThan(0.45);
+    }
+  });
+
+  test('agrees with nameColor across the searched tiers', () => {
+    const regions = colorNameRegions('en', { level: 'basic', resolution: 8 })!;
+    expect(regions.map((r) => r.name)).toEqual(en.basic!.names);
+    for (const region of regions.filter((r) => r.share > 0)) {
+      for (const color of region.boundary) {
+        expect(nameColor(color, 'en', { level: 'basic' })?.name).toBe(region.name);
+      }
+    }
+  });
+
+  test('leaves cells beyond the threshold unnamed', () => {
+    const regions = colorNameRegions(lightness, { resolution: 16, threshold: 0.1 })!;
+    expect(regions.reduce((sum, r) => sum + r.share, 0)).toBeLessThan(0.9);
+  });
+
+  test('returns null for unknown locales and works on registries', () => {
+    expect(colorNameRegions('xx')).toBeNull();
+
+    const registry = createColorNameRegistry();
+    registry.useLocale(lightness);
+    expect(registry.colorNameRegions('x-regions', { resolution: 8 })).toHaveLength(3);
+  });
+});
@@ -0,0 +1,219 @@
+import { test, expect, describe, beforeAll } from 'bun:test';
+import {
+  createColorNameRegistry,
+  getLocale,
+  listColorNames,
+  lookupColor,
+  nameColor,
+  removeLocale,
+  useLocale,
+} from '../index.ts';
+import type { ColorDictionary } from '../index.ts';
+import { en } from '../src/locales/en.ts';
+import { modeRgb, modeOklab, modeOklch, modeHsl, modeLrgb, useMode } from 'culori/fn';
+
+beforeAll(() => {
+  const modes = [modeRgb, modeOklab, modeOklch, modeHsl, modeLrgb];
+
+  for (const mode of modes) {
+    useMode(mode as any);
+  }
+
+  useLocale(en);
+});
+
+/** A one-name dictionary whose only entry sits at OkLab red. */
+function brand(locale: string, name: string): ColorDictionary {
+  return {
+    locale,
+    source: 'brand',
+    basic: { names: [name], colors: new Float32Array([0.628, 0.225, 0.126]) },
+  };
+}
+
+describe('useLocale strategies', () => {
+  test('merge combines tiers and attributes each entry to its source', () => {
+    useLocale(brand('x-merge', 'signal'));
+    useLocale({
+      locale: 'x-merge',
+      source: 'paint',
+      basic: { names: ['navy'], colors: new Float32Array([0.27, -0.02, -0.19]) },
+    });
+
+    expect(listColorNames('x-merge').map((n) => n.name)).toEqual(['signal', 'navy']);
+    expect(nameColor('#ff0000', 'x-merge')?.source).toBe('brand');
+    expect(nameColor('#000080', 'x-merge')?.source).toBe('paint');
+    removeLocale('x-merge');
+  });
+
+  test('merge layers new tiers onto bundled locales without mutating them', () => {
+    const extended = en.extended!;
+    useLocale({
+      locale: 'en',
+      source: 'acme',
+      extended: { names: ['acme red'], colors: new Float32Array([0.58, 0.22, 0.1]) },
+    });
+
+    expect(lookupColor('acme red', 'en')).toBeDefined();
+    expect(lookupColor('tomato', 'en')).toBeDefined();
+    expect(nameColor(lookupColor('acme red', 'en')!, 'en')?.source).toBe('acme');
+    expect(nameColor('#ff6347', 'en')?.source).toBe(en.source);
+    expect(en.extended).toBe(extended);
+    expect(en.extended!.names).not.toContain('acme red');
+
+    useLocale(en, { strategy: 'replace' });
+  });
+
+  test('duplicates decide which entry wins a shared name', () => {
+    const other = (locale: string): ColorDictionary => ({
+      locale,
+      source: 'other',
+      basic: { names: ['Signal'], colors: new Float32Array([0.45, -0.03, -0.2]) },
+    });
+
+    useLocale(brand('x-dup-replace', 'signal'));
+    useLocale(other('x-dup-replace'));
+    expect(listColorNames('x-dup-replace').map((n) => [n.name, n.source])).toEqual([['Signal', 'other']]);
+
+    useLocale(brand('x-dup-keep', 'signal'));
+    useLocale(other('x-dup-keep'), { duplicates: 'keep-existing' });
+    expect(listColorNames('x-dup-keep').map((n) => [n.name, n.source])).toEqual([['signal', 'brand']]);
+
+    useLocale(brand('x-dup-both', 'signal'));
+    useLocale(other('x-dup-both'), { duplicates: 'keep-both' });
+    expect(listColorNames('x-dup-both').map((n) => n.source)).toEqual(['brand', 'other']);
+
+    for (const locale of ['x-dup-replace', 'x-dup-keep', 'x-dup-both']) removeLocale(locale);
+  });
+
+  test('merge keeps cached trees in step with the merged names', () => {
+    useLocale(brand('x-cached', 'signal'));
+    expect(nameColor('#000080', 'x-cached')?.name).toBe('signal');
+
+    // Appended names are inserted into the cached tree
+    useLocale({
+      locale: 'x-cached',
+      source: 'paint',
+      basic: { names: ['navy'], colors: new Float32Array([0.27, -0.02, -0.19]) },
+    });
+    expect(nameColor('#000080', 'x-cached')?.name).toBe('navy');
+    expect(nameColor('#ff0000', 'x-cached')?.name).toBe('signal');
+
+    // Replacing an existing name shifts indices, so the tree is rebuilt
+    useLocale({
+      locale: 'x-cached',
+      source: 'paint',
+      basic: { names: ['Signal'], colors: new Float32Array([0.9, 0, 0]) },
+    });
+    expect(listColorNames('x-cached').map((n) => n.name)).toEqual(['navy', 'Signal']);
+    expect(nameColor('#000080', 'x-cached')?.name).toBe('navy');
+    expect(nameColor('#ffffff', 'x-cached')?.name).toBe('Signal');
+    removeLocale('x-cached');
+  });
+
+  test('replace swaps the dictionary and invalidates cached trees', () => {
+    useLocale(brand('x-replace', 'signal'));
+    expect(nameColor('#ff0000', 'x-replace')?.name).toBe('signal');
+
+    useLocale(brand('x-replace', 'alarm'), { strategy: 'replace' });
+    expect(nameColor('#ff0000', 'x-replace')?.name).toBe('alarm');
+    expect(lookupColor('signal', 'x-replace')).toBeUndefined();
+    removeLocale('x-replace');
+  });
+});
+
+describe('tree caches', () => {
+  const palette = (locale: string): ColorDictionary => ({
+    locale,
+    source: 'paint',
+    basic: { names: ['alarm', 'navy'], colors: new Float32Array([0.628, 0.225, 0.126, 0.27, -0.02, -0.19]) },
+  });
+
+  test('a formatter made before a replace does not serve its trees to the new dictionary', () => {
+    const registry = createColorNameRegistry();
+    registry.useLocale(brand('x-stale', 'signal'));
+    const format = registry.createFormat('x-stale');
+    registry.useLocale(palette('x-stale'), { strategy: 'replace' });
+
+    expect(format.format('#000080')).toBe('signal');
+    expect(registry.nameColor('#000080', 'x-stale')?.name).toBe('navy');
+  });
+
+  test('a formatter made before removeLocale does not serve its trees after re-registering', () => {
+    const registry = createColorNameRegistry();
+    registry.useLocale(brand('x-stale', 'signal'));
+    const format = registry.createFormat('x-stale');
+    registry.removeLocale('x-stale');
+    registry.useLocale(palette('x-stale'));
+
+    expect(format.format('#000080')).toBe('signal');
+    expect(registry.nameColor('#000080', 'x-stale')?.name).toBe('navy');
+  });
+});
+
+describe('removeLocale', () => {
+  test('unregisters a locale case-insensitively', () => {
+    useLocale(brand('x-remove', 'signal'));
+    expect(removeLocale('X-Remove')).toBe(true);
+    expect(getLocale('x-remove')).toBeUndefined();
+    expect(nameColor('#ff0000', 'x-remove')).toBeNull();
+  });
+
+  test('returns false for unknown locales', () => {
+    expect(removeLocale('x-never-registered')).toBe(false);
+  });
+});
+
+describe('createColorNameRegistry', () => {
+  test('starts empty and is isolated from the global registry', () => {
+    const registry = createColorNameRegistry();
+    expect(registry.nameColor('#ff0000', 'en')).toBeNull();
+
+    registry.useLocale(brand('en', 'tenant red'));
+    expect(registry.nameColor('#ff0000', 'en')?.name).toBe('tenant red');
+    expect(nameColor('#ff0000', 'en', { level: 'basic' })?.name).toBe('red');
+    expect(lookupColor('tenant red', 'en')).toBeUndefined();
+  });
+
+  test('registries do not leak into each other', () => {
+    const a = createColorNameRegistry();
+    const b = createColorNameRegistry();
+    a.useLocale(brand('en', 'alpha'));
+    b.useLocale(brand('en', 'beta'));
+
+    expect(a.nameColor('#ff0000', 'en')?.name).toBe('alpha');
+    expect(b.nameColor('#ff0000', 'en')?.name).toBe('beta');
+    expect(a.lookupColor('beta', 'en')).toBeUndefined();
+  });
+
+  test('translates, negotiates and falls back within the registry', () => {
+    const registry = createColorNameRegistry();
+    registry.useLocale(en);
+    registry.useLocale(brand('x-brand', 'signal'));
+    registry.setDefaultLocale('en');
+
+    expect(registry.translateColor('red', 'en', 'x-brand')?.name).toBe('signal');
+    expect(registry.nameColor('#ff0000', 'en-GB', { level: 'basic' })?.name).toBe('red');
+    expect(registry.nameColor('#ff0000', 'fr', { level: 'basic' })?.name).toBe('red');
+    expect(nameColor('#ff0000', 'x-brand')).toBeNull();
+  });
+
+  test('scopes formatters, descriptions and batch naming', () => {
+    const registry = createColorNameRegistry();
+    registry.useLocale(brand('x-brand', 'signal'));
+
+    expect(registry.createFormat('x-brand').format('#ff0000')).toBe('signal');
+    expect(registry.describeColor('#ff0000', 'x-brand')?.base.name).toBe('signal');
+    const batch = registry.nameColors(new Uint8Array([255, 0, 0]), 'x-brand');
+    expect(batch?.names[batch.indices[0]!]).toBe('signal');
+    expect(() => registry.createFormat('de')).toThrow(RangeError);
+  });
+
+  test('removeLocale only affects its own registry', () => {
+    const registry = createColorNameRegistry();
+    registry.useLocale(en);
+    expect(registry.removeLocale('en')).toBe(true);
+    expect(registry.nameColor('#ff0000', 'en')).toBeNull();
+    expect(nameColor('#ff0000', 'en')).not.toBeNull();
+  });
+});
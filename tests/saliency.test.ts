@@ -0,0 +1,95 @@
+import { test, expect, describe, beforeAll } from 'bun:test';
+import { Color, colorNameSynonyms, nameSaliency, useLocale } from '../index.ts';
+import { overlap } from '../src/confidence.ts';
+import type { ColorDictionary, ColorNameSet } from '../index.ts';
+import { en } from '../src/locales/en.ts';
+import { modeRgb, modeOklab, modeOklch, modeHsl, modeLrgb, useMode } from 'culori/fn';
+
+beforeAll(() => {
+  const modes = [modeRgb, modeOklab, modeOklch, modeHsl, modeLrgb];
+
+  for (const mode of modes) {
+    useMode(mode as any);
+  }
+
+  useLocale(en);
+});
+
+/** Three names on the lightness axis: two close together, one far away. */
+const set: ColorNameSet = {
+  names: ['dim', 'dusky', 'bright'],
+  colors: new Float32Array([0.4, 0, 0, 0.42, 0, 0, 0.9, 0, 0]),
+};
+const lightness: ColorDictionary = { locale: 'x-saliency', source: 'test', basic: set };
+
+describe('region overlap', () => {
+  test('is 1 for identical regions and falls off with distance', () => {
+    expect(overlap(set, 0, set, 0)).toBeCloseTo(1);
+    expect(overlap(set, 0, set, 1)).toBeGreaterThan(0.9);
+    expect(overlap(set, 0, set, 2)).toBeLessThan(0.01);
+  });
+});
+
+describe('nameSaliency', () => {
+  test('a color with one dominant name is salient', () => {
+    const result = nameSaliency('#ff0000', 'en', { level: 'basic' });
+    expect(result?.name).toBe('red');
+    expect(result?.agreement).toBeGreaterThan(0.95);
+    expect(result?.entropy).toBeLessThan(0.1);
+    expect(result?.saliency).toBe(-result!.entropy);
+  });
+
+  test('a color between two names is ambiguous', () => {
+    const between = Color.create('oklab', { l: 0.41, a: 0, b: 0 });
+    const result = nameSaliency(between, lightness);
+    expect(result?.agreement).toBeCloseTo(0.5, 1);
+    expect(result?.entropy).toBeCloseTo(1, 1);
+    expect(result?.distribution.map((d) => d.name).slice(0, 2).sort()).toEqual(['dim', 'dusky']);
+  });
+
+  test('counts a name listed in several tiers once', () => {
+    const dict: ColorDictionary = { ...lightness, locale: 'x-saliency-tiers', extended: set };
+    const result = nameSaliency(Color.create('oklab', { l: 0.9, a: 0, b: 0 }), dict);
+    expect(result?.name).toBe('bright');
+    expect(result?.agreement).toBeGreaterThan(0.99);
+    expect(new Set(result!.distribution.map((d) => d.name)).size).toBe(result!.distribution.length);
+  });
+
+  test('returns null for unparseable colors and unknown locales', () => {
+    expect(nameSaliency('not-a-color', 'en')).toBeNull();
+    expect(nameSaliency('#ff0000', 'xx')).toBeNull();
+  });
+});
+
+describe('colorNameSynonyms', () => {
+  test('lists overlapping names, largest overlap first', () => {
+    const result = colorNameSynonyms('navy', 'en');
+    expect(result?.synonyms[0]?.name).toBe('darkblue');
+    const overlaps = result!.synonyms.map((s) => s.overlap);
+    expect(overlaps).toEqual([...overlaps].sort((a, b) => b - a));
+  });
+
+  test('reports how much a crowded name is claimed by its neighbours', () => {
+    const dim = colorNameSynonyms('dim', lightness);
+    const bright = colorNameSynonyms('bright', lightness);
+    expect(dim?.synonyms.map((s) => s.name)).toEqual(['dusky']);
+    expect(bright?.synonyms).toEqual([]);
+    expect(dim!.consistency).toBeLessThan(0.6);
+    expect(bright!.consistency).toBeGreaterThan(0.99);
+  });
+
+  test('honours minOverlap and limit', () => {
+    expect(colorNameSynonyms('dim', lightness, { minOverlap: 0.99 })?.synonyms).toEqual([]);
+    expect(colorNameSynonyms('navy', 'en', { limit: 1 })?.synonyms).toHaveLength(1);
+  });
+
+  test('always compares against the name\'s own tier', () => {
+    const result = colorNameSynonyms('teal', 'en', { level: 'basic' });
+    expect(result?.level).toBe('extended');
+    expect(result?.consistency).toBeGreaterThan(0);
+  });
+
+  test('returns null for unknown names', () => {
+    expect(colorNameSynonyms('notacolor', 'en')).toBeNull();
+  });
+});
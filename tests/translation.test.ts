@@ -1,5 +1,6 @@
 import { test, expect, describe, beforeAll } from 'bun:test';
-import { Color, useLocale, nameColor, lookupColor, listColorNames, translateColor } from '../index.ts';
+import { Color, useLocale, nameColor, lookupColor, listColorNames, translateColor, analyzeTranslation } from '../index.ts';
+import type { ColorDictionary } from '../index.ts';
 import { en } from '../src/locales/en.ts';
 import { ja } from '../src/locales/ja.ts';
 import { ja_traditional } from '../src/locales/ja-traditional.ts';
@@ -159,3 +160,130 @@ describe('Multi-language naming', () => {
     expect(names.length).toBeGreaterThan(90);
   });
 });
+
+describe('Translation report', () => {
+  /** Two basic terms for green and blue. */
+  const source: ColorDictionary = {
+    locale: 'x-source',
+    source: 'test',
+    basic: { names: ['green', 'blue'], colors: new Float32Array([0.6, -0.15, 0.1, 0.5, -0.05, -0.2]) },
+  };
+  /** A single "grue" term between green and blue, closer to blue. */
+  const target: ColorDictionary = {
+    locale: 'x-target',
+    source: 'test',
+    basic: { names: ['grue', 'black'], colors: new Float32Array([0.52, -0.08, -0.12, 0, 0, 0]) },
+  };
+
+  test('reports a reciprocal translation in the same category', () => {
+    const report = analyzeTranslation('red', 'en', 'ja');
+    expect(report?.name).toBe('赤');
+    expect(report?.level).toBe('basic');
+    expect(report?.alternatives).toHaveLength(5);
+    expect(report?.alternatives.map((a) => a.name)).not.toContain('赤');
+    expect(report?.reverse?.name).toBe('red');
+    expect(report?.reciprocal).toBe(true);
+    expect(report?.sourceCategory).toBe('red');
+    expect(report?.targetCategory).toBe('赤');
+    expect(report?.categoryMissing).toBe(false);
+  });
+
+  test('matches translateColor for the translation itself', () => {
+    const report = analyzeTranslation('blue', 'en', 'ru');
+    const result = translateColor('blue', 'en', 'ru');
+    expect(report?.name).toBe(result!.name);
+    expect(report?.distance).toBe(result!.distance);
+  });
+
+  test('flags non-reciprocal pairs', () => {
+    const report = analyzeTranslation('green', source, target);
+    expect(report?.name).toBe('grue');
+    expect(report?.reverse?.name).toBe('blue');
+    expect(report?.reciprocal).toBe(false);
+  });
+
+  test('compares lemmas when names are inflected', () => {
+    const inflected: ColorDictionary = {
+      ...source,
+      basic: { ...source.basic!, forms: { blue: [{ form: 'blaue', gender: 'feminine' }] } },
+    };
+    const report = analyzeTranslation('blue', inflected, target, { grammar: { gender: 'feminine' } });
+    expect(report?.reverse?.name).toBe('blaue');
+    expect(report?.reciprocal).toBe(true);
+  });
+
+  test('flags a target locale without a term in the same basic category', () => {
+    expect(analyzeTranslation('green', source, target)?.categoryMissing).toBe(true);
+    expect(analyzeTranslation('blue', source, target)?.categoryMissing).toBe(false);
+  });
+
+  test('honours the number of alternatives', () => {
+    expect(analyzeTranslation('red', 'en', 'ja', { alternatives: 2 })?.alternatives).toHaveLength(2);
+  });
+
+  test('returns null for unknown names and locales', () => {
+    expect(analyzeTranslation('nonexistent', 'en', 'ja')).toBeNull();
+    expect(analyzeTranslation('red', 'xx', 'ja')).toBeNull();
+    expect(analyzeTranslation('red', 'en', 'xx')).toBeNull();
+  });
+});
+
+describe('Category translation mode', () => {
+  const source: ColorDictionary = {
+    locale: 'x-en',
+    source: 'test',
+    basic: { names: ['blue', 'black'], colors: new Float32Array([0.55, -0.05, -0.15, 0, 0, 0]) },
+    extended: { names: ['navy'], colors: new Float32Array([0.3, -0.02, -0.15]) },
+  };
+  /** Splits "blue" into a dark and a light basic term, with an extended term right on it. */
+  const target: ColorDictionary = {
+    locale: 'x-ru',
+    source: 'test',
+    basic: {
+      names: ['siniy', 'goluboy', 'chyorny'],
+      colors: new Float32Array([0.46, -0.04, -0.17, 0.66, -0.06, -0.12, 0, 0, 0]),
+    },
+    extended: { names: ['lazurny', 'tyomno-siniy'], colors: new Float32Array([0.55, -0.05, -0.15, 0.3, -0.02, -0.15]) },
+  };
+
+  test('nearest mode may leave the basic tier', () => {
+    const result = translateColor('blue', source, target);
+    expect(result?.name).toBe('lazurny');
+    expect(result?.candidates).toBeUndefined();
+  });
+
+  test('translates basic terms to basic terms', () => {
+    const result = translateColor('blue', source, target, { mode: 'category' });
+    expect(result?.name).toBe('siniy');
+  });
+
+  test('lists every basic term a split category spans', () => {
+    const candidates = translateColor('blue', source, target, { mode: 'category' })!.candidates!;
+    expect(candidates.map((c) => c.name).sort()).toEqual(['goluboy', 'siniy']);
+    expect(candidates[0]!.share).toBeGreaterThanOrEqual(candidates[1]!.share);
+    expect(candidates.reduce((sum, c) => sum + c.share, 0)).toBeLessThanOrEqual(1 + 1e-9);
+  });
+
+  test('translates other terms to the best tier', () => {
+    const result = translateColor('navy', source, target, { mode: 'category' });
+    expect(result?.name).toBe('tyomno-siniy');
+    expect(result?.candidates).toBeUndefined();
+  });
+
+  test('falls back to the best match when the target has no basic tier', () => {
+    const extendedOnly: ColorDictionary = { locale: 'x-ext', source: 'test', extended: target.extended };
+    const result = translateColor('blue', source, extendedOnly, { mode: 'category' });
+    expect(result?.name).toBe('lazurny');
+    expect(result?.candidates).toBeUndefined();
+  });
+
+  test('includes the inflected match among the candidates', () => {
+    const inflected: ColorDictionary = {
+      ...target,
+      basic: { ...target.basic!, forms: { siniy: [{ form: 'sinyaya', gender: 'feminine' }] } },
+    };
+    const result = translateColor('blue', source, inflected, { mode: 'category', grammar: { gender: 'feminine' } });
+    expect(result?.name).toBe('sinyaya');
+    expect(result?.candidates?.map((c) => c.name)).toContain('sinyaya');
+  });
+});